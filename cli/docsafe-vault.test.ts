@@ -0,0 +1,100 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFile } from 'node:child_process';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import { openDB } from 'idb';
+import { saveDocument, saveFolder, initDB } from '@/lib/storage';
+import { encryptDocumentFile } from '@/lib/documentCrypto';
+import { uint8ArrayToBase64 } from '@/lib/base64';
+import { createVaultKey, unlockMetadata } from '@/lib/vaultKey';
+
+const PASSWORD = 'Mot-de-passe-du-coffre1';
+const STORES = ['documents', 'folders', 'settings', 'chunks'];
+
+let dir: string;
+
+// The dump the README has users make from the devtools console
+async function dumpVault(): Promise<Record<string, unknown[]>> {
+  (await initDB()).close();
+  const database = await openDB('docwallet');
+  const toJson = (value: unknown) => value instanceof ArrayBuffer ? uint8ArrayToBase64(new Uint8Array(value)) : value;
+  const dump: Record<string, unknown[]> = {};
+  for (const store of STORES) {
+    const records = await database.getAll(store);
+    dump[store] = records.map(record => Object.fromEntries(Object.entries(record).map(([key, value]) => [key, toJson(value)])));
+  }
+  database.close();
+  return JSON.parse(JSON.stringify(dump));
+}
+
+async function runCli(...args: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+  try {
+    const { stdout, stderr } = await promisify(execFile)(
+      join('node_modules', '.bin', 'tsx'),
+      [join('cli', 'docsafe-vault.ts'), ...args],
+      { env: { ...process.env, DOCSAFE_PASSWORD: PASSWORD } }
+    );
+    return { code: 0, stdout, stderr };
+  } catch (error) {
+    const { code, stdout, stderr } = error as { code: number; stdout: string; stderr: string };
+    return { code, stdout, stderr };
+  }
+}
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'docsafe-vault-'));
+
+  const masterKey = await createVaultKey(PASSWORD, 'Nom de votre premier animal ?', 'Médor');
+  await unlockMetadata(masterKey);
+  await saveFolder({ id: 'folder-1', name: 'Voyages', createdAt: new Date('2025-01-01') });
+  const file = new Blob(['contenu du passeport'], { type: 'text/plain' });
+  await saveDocument({
+    id: 'doc-1',
+    name: 'Passeport',
+    category: 'passport',
+    type: 'image',
+    mimeType: 'text/plain',
+    size: file.size,
+    folderId: 'folder-1',
+    ...await encryptDocumentFile('doc-1', file, masterKey),
+    createdAt: new Date('2025-01-01'),
+    updatedAt: new Date('2025-01-01')
+  });
+
+  const dump = await dumpVault();
+  await writeFile(join(dir, 'docwallet.json'), JSON.stringify(dump));
+
+  const settings = dump.settings as { key: string; value: string }[];
+  const tampered = settings.map(({ key, value }) =>
+    key === 'kdf' ? { key, value: JSON.stringify({ ...JSON.parse(value), iterations: 1e9 }) } : { key, value });
+  await writeFile(join(dir, 'tampered.json'), JSON.stringify({ ...dump, settings: tampered }));
+}, 30000);
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('docsafe-vault', () => {
+  it('lists the documents of a dump', async () => {
+    const { code, stdout } = await runCli('list', join(dir, 'docwallet.json'));
+    expect(code).toBe(0);
+    expect(stdout).toContain('Voyages/Passeport');
+    expect(stdout).toContain('1 document');
+  }, 30000);
+
+  it('verifies that every document decrypts', async () => {
+    const { code, stdout } = await runCli('verify', join(dir, 'docwallet.json'));
+    expect(code).toBe(0);
+    expect(stdout).toContain('OK      Passeport');
+    expect(stdout).toContain('1/1 document lisible');
+  }, 30000);
+
+  it('refuses key derivation parameters the app never writes', async () => {
+    const { code, stderr } = await runCli('list', join(dir, 'tampered.json'));
+    expect(code).toBe(1);
+    expect(stderr).toContain('Unsupported key derivation parameters');
+  }, 30000);
+});
@@ -0,0 +1,193 @@
+// Decrypt a DocSafe vault without the app, from a JSON dump of its IndexedDB
+// stores (see README). Runs on Node's WebCrypto with the app's own crypto code.
+//
+//   npm run vault -- list <dump.json>
+//   npm run vault -- verify <dump.json>
+//   npm run vault -- extract <dump.json> <output-dir>
+//
+// The password is read from DOCSAFE_PASSWORD, or asked on the terminal.
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import { createInterface } from 'node:readline';
+import { Writable } from 'node:stream';
+import { webcrypto } from 'node:crypto';
+import {
+  parseVaultDump,
+  openVaultDump,
+  listVaultDocuments,
+  decryptVaultDocument,
+  VaultDocument,
+  VaultDumpError,
+  OpenedVault
+} from './vaultDump';
+
+const USAGE = `Usage:
+  docsafe-vault list <dump.json>
+  docsafe-vault verify <dump.json>
+  docsafe-vault extract <dump.json> <output-dir>`;
+
+const EXTENSIONS: Record<string, string> = {
+  'application/pdf': '.pdf',
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'image/gif': '.gif',
+  'image/heic': '.heic'
+};
+
+async function askPassword(): Promise<string> {
+  if (process.env.DOCSAFE_PASSWORD) return process.env.DOCSAFE_PASSWORD;
+  if (!process.stdin.isTTY) {
+    throw new Error('No terminal to ask the password on; set DOCSAFE_PASSWORD');
+  }
+
+  // Echo nothing once the prompt is out, while the password is typed
+  let muted = false;
+  const output = new Writable({
+    write(chunk, encoding, callback) {
+      if (!muted) process.stdout.write(chunk, encoding);
+      callback();
+    }
+  });
+  const rl = createInterface({ input: process.stdin, output, terminal: true });
+  const answer = new Promise<string>(resolve => rl.question('Mot de passe du coffre : ', answer => {
+    rl.close();
+    process.stdout.write('\n');
+    resolve(answer);
+  }));
+  muted = true;
+  return await answer;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} o`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} Ko`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} Mo`;
+}
+
+// WebCrypto reports a failed GCM tag check without any detail
+function failureReason(error: unknown): string {
+  return (error as Error).name === 'OperationError' ? 'données altérées' : (error as Error).message;
+}
+
+// Keep names portable across file systems
+function safeFileName(name: string): string {
+  const printable = Array.from(name, char => char.charCodeAt(0) < 0x20 ? '_' : char).join('');
+  const cleaned = printable.replace(/[<>:"/\\|?*]/g, '_').replace(/^[.\s]+|[.\s]+$/g, '');
+  return cleaned || 'document';
+}
+
+function fileNameFor(doc: VaultDocument): string {
+  const base = safeFileName(doc.name);
+  const extension = EXTENSIONS[doc.mimeType];
+  return extension && !base.toLowerCase().endsWith(extension) ? base + extension : base;
+}
+
+// "name.pdf", then "name (2).pdf", ...
+function uniqueName(name: string, taken: Set<string>): string {
+  const dot = name.lastIndexOf('.');
+  const [stem, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+  let candidate = name;
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+    candidate = `${stem} (${n})${extension}`;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+}
+
+async function list(vault: OpenedVault): Promise<number> {
+  const documents = await listVaultDocuments(vault);
+  for (const doc of documents) {
+    const place = doc.folder ? `${doc.folder}/` : '';
+    console.log(`${doc.id}  ${doc.createdAt.slice(0, 10)}  ${formatSize(doc.size).padStart(9)}  ${doc.mimeType.padEnd(16)}  ${place}${doc.name}`);
+  }
+  console.log(`${documents.length} document${documents.length !== 1 ? 's' : ''}`);
+  return 0;
+}
+
+async function verify(vault: OpenedVault): Promise<number> {
+  const documents = await listVaultDocuments(vault);
+  let failed = 0;
+  for (const doc of documents) {
+    try {
+      await decryptVaultDocument(vault, doc.id);
+      console.log(`OK      ${doc.name}`);
+    } catch (error) {
+      failed++;
+      console.log(`ÉCHEC   ${doc.name} (${failureReason(error)})`);
+    }
+  }
+  console.log(`${documents.length - failed}/${documents.length} document${documents.length !== 1 ? 's' : ''} lisible${documents.length !== 1 ? 's' : ''}`);
+  return failed > 0 ? 1 : 0;
+}
+
+/**
+ * Write every document under its original name, in a subfolder per vault
+ * folder, plus an index.json keeping each file's MIME type, category and tags.
+ */
+async function extract(vault: OpenedVault, outputDir: string): Promise<number> {
+  const documents = await listVaultDocuments(vault);
+  const takenByDir = new Map<string, Set<string>>();
+  const index: (VaultDocument & { file: string })[] = [];
+  let failed = 0;
+
+  for (const doc of documents) {
+    const dir = doc.folder ? safeFileName(doc.folder) : '';
+    const taken = takenByDir.get(dir.toLowerCase()) ?? new Set(['index.json']);
+    takenByDir.set(dir.toLowerCase(), taken);
+
+    try {
+      const data = await decryptVaultDocument(vault, doc.id);
+      const file = join(dir, uniqueName(fileNameFor(doc), taken));
+      await mkdir(join(outputDir, dir), { recursive: true });
+      await writeFile(join(outputDir, file), data);
+      index.push({ ...doc, file });
+      console.log(file);
+    } catch (error) {
+      failed++;
+      console.error(`ÉCHEC   ${doc.name} (${failureReason(error)})`);
+    }
+  }
+
+  await mkdir(outputDir, { recursive: true });
+  await writeFile(join(outputDir, 'index.json'), JSON.stringify(index, null, 2));
+  console.log(`${index.length}/${documents.length} document${documents.length !== 1 ? 's' : ''} extrait${documents.length !== 1 ? 's' : ''} dans ${outputDir}`);
+  return failed > 0 ? 1 : 0;
+}
+
+async function main(args: string[]): Promise<number> {
+  const [command, dumpPath, outputDir] = args;
+  if (!dumpPath || !['list', 'verify', 'extract'].includes(command) || (command === 'extract' && !outputDir)) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const dump = parseVaultDump(await readFile(dumpPath, 'utf8'));
+  const vault = await openVaultDump(dump, await askPassword());
+
+  switch (command) {
+    case 'list':
+      return await list(vault);
+    case 'verify':
+      return await verify(vault);
+    default:
+      return await extract(vault, outputDir);
+  }
+}
+
+// Node 18 only exposes WebCrypto through node:crypto, the app's code expects the global
+if (!globalThis.crypto) {
+  globalThis.crypto = webcrypto as Crypto;
+}
+
+main(process.argv.slice(2)).then(
+  code => process.exit(code),
+  error => {
+    if (error instanceof VaultDumpError && error.reason === 'password') {
+      console.error('Mot de passe incorrect');
+    } else {
+      console.error((error as Error).message);
+    }
+    process.exit(1);
+  }
+);
@@ -0,0 +1,239 @@
+// Reading a vault outside the app, from a JSON dump of the `docwallet`
+// IndexedDB stores. Binary values (ArrayBuffers in IndexedDB) are base64
+// strings in the dump; pre-version-3 records already store them that way.
+import {
+  importKey,
+  decryptString,
+  decryptData,
+  legacyKdfParams,
+  isSupportedKdfParams,
+  unwrapKeyWithPassword,
+  KdfParams
+} from '@/lib/crypto';
+import { deriveMetadataKeys, decryptMetadata, MetadataKeys } from '@/lib/metadata';
+import { decryptSegment, StreamHeader } from '@/lib/streamCrypto';
+import { base64ToArrayBuffer, base64ToUint8Array } from '@/lib/base64';
+
+export interface DumpDocument {
+  id: string;
+  category: string;
+  size: number;
+  encryptedData?: string;
+  iv: string;
+  createdAt: string;
+  updatedAt: string;
+  folderId?: string;
+  keyGeneration?: number;
+  encryption?: 'master' | 'envelope';
+  wrappedKey?: string;
+  stream?: StreamHeader;
+  metadata?: string;
+  // In clear on records written before metadata encryption
+  name?: string;
+  type?: 'pdf' | 'image';
+  mimeType?: string;
+  tags?: string[];
+}
+
+export interface DumpFolder {
+  id: string;
+  name?: string;
+  encryptedName?: string;
+}
+
+export interface DumpChunk {
+  documentId: string;
+  index: number;
+  data: string;
+}
+
+export interface VaultDump {
+  documents: DumpDocument[];
+  folders?: DumpFolder[];
+  // Either the store records or a plain key/value object
+  settings: { key: string; value: string }[] | Record<string, string>;
+  chunks?: DumpChunk[];
+}
+
+export interface VaultDocument {
+  id: string;
+  name: string;
+  category: string;
+  mimeType: string;
+  size: number;
+  tags: string[];
+  folder?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OpenedVault {
+  dump: VaultDump;
+  // Master key per key generation; two while a key rotation is unfinished
+  masterKeys: Map<number, CryptoKey>;
+  metadataKeys: MetadataKeys | null;
+  chunks: Map<string, DumpChunk[]>;
+}
+
+export class VaultDumpError extends Error {
+  constructor(public reason: 'format' | 'password' | 'integrity', message: string) {
+    super(message);
+    this.name = 'VaultDumpError';
+  }
+}
+
+export function parseVaultDump(json: string): VaultDump {
+  let dump: VaultDump;
+  try {
+    dump = JSON.parse(json);
+  } catch {
+    throw new VaultDumpError('format', 'The dump is not valid JSON');
+  }
+  if (!Array.isArray(dump?.documents) || !dump.settings) {
+    throw new VaultDumpError('format', 'The dump needs at least the documents and settings stores');
+  }
+  return dump;
+}
+
+function settingsMap(dump: VaultDump): Map<string, string> {
+  if (Array.isArray(dump.settings)) {
+    return new Map(dump.settings.map(({ key, value }) => [key, value]));
+  }
+  return new Map(Object.entries(dump.settings));
+}
+
+/**
+ * Unwrap the vault keys with the unlock password, the same way the app does:
+ * `encryptedKey` under the password, then the pending rotation key and the
+ * metadata key under the master key.
+ */
+export async function openVaultDump(dump: VaultDump, password: string): Promise<OpenedVault> {
+  const settings = settingsMap(dump);
+  const encryptedKey = settings.get('encryptedKey');
+  const storedKdf = settings.get('kdf');
+  const legacySalt = settings.get('salt');
+  if (!encryptedKey || (!storedKdf && !legacySalt)) {
+    throw new VaultDumpError('format', 'No wrapped vault key in the settings store');
+  }
+
+  let kdf: KdfParams;
+  try {
+    kdf = storedKdf ? JSON.parse(storedKdf) : legacyKdfParams(legacySalt);
+  } catch {
+    throw new VaultDumpError('format', 'Unreadable key derivation parameters');
+  }
+  if (!isSupportedKdfParams(kdf)) {
+    throw new VaultDumpError('format', 'Unsupported key derivation parameters');
+  }
+  const exportedKey = await unwrapKeyWithPassword(encryptedKey, password, kdf);
+  if (!exportedKey) {
+    throw new VaultDumpError('password', 'Wrong password');
+  }
+  const masterKey = await importKey(exportedKey);
+
+  const generation = parseInt(settings.get('keyGeneration') ?? '0', 10);
+  const masterKeys = new Map([[generation, masterKey]]);
+  const rotation = settings.get('keyRotation');
+  if (rotation) {
+    const { generation: pendingGeneration, pendingKey } = JSON.parse(rotation);
+    masterKeys.set(pendingGeneration, await importKey(await decryptString(pendingKey, masterKey)));
+  }
+
+  // Vaults never unlocked since metadata encryption only have clear records
+  const encryptedMetadataKey = settings.get('encryptedMetadataKey');
+  const metadataKeys = encryptedMetadataKey
+    ? await deriveMetadataKeys(base64ToUint8Array(await decryptString(encryptedMetadataKey, masterKey)))
+    : null;
+
+  const chunks = new Map<string, DumpChunk[]>();
+  for (const chunk of dump.chunks ?? []) {
+    chunks.set(chunk.documentId, [...(chunks.get(chunk.documentId) ?? []), chunk]);
+  }
+
+  return { dump, masterKeys, metadataKeys, chunks };
+}
+
+async function decryptFolderNames(vault: OpenedVault): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+  for (const folder of vault.dump.folders ?? []) {
+    if (folder.encryptedName && vault.metadataKeys) {
+      names.set(folder.id, await decryptMetadata<string>(folder.encryptedName, vault.metadataKeys));
+    } else {
+      names.set(folder.id, folder.name ?? '');
+    }
+  }
+  return names;
+}
+
+// Decrypted metadata of every document, in dump order
+export async function listVaultDocuments(vault: OpenedVault): Promise<VaultDocument[]> {
+  const folders = await decryptFolderNames(vault);
+  const documents: VaultDocument[] = [];
+
+  for (const doc of vault.dump.documents) {
+    let fields: Pick<DumpDocument, 'name' | 'category' | 'mimeType' | 'tags'> = doc;
+    if (doc.metadata) {
+      if (!vault.metadataKeys) {
+        throw new VaultDumpError('integrity', `Document ${doc.id} has encrypted metadata but the vault has no metadata key`);
+      }
+      fields = await decryptMetadata(doc.metadata, vault.metadataKeys);
+    }
+    documents.push({
+      id: doc.id,
+      name: fields.name ?? doc.id,
+      category: fields.category,
+      mimeType: fields.mimeType ?? 'application/octet-stream',
+      size: doc.size,
+      tags: fields.tags ?? [],
+      folder: doc.folderId ? folders.get(doc.folderId) : undefined,
+      createdAt: new Date(doc.createdAt).toISOString(),
+      updatedAt: new Date(doc.updatedAt).toISOString()
+    });
+  }
+  return documents;
+}
+
+/**
+ * Decrypt one document payload. Every segment is authenticated, so a modified,
+ * reordered or truncated payload fails here.
+ */
+export async function decryptVaultDocument(vault: OpenedVault, id: string): Promise<Uint8Array> {
+  const doc = vault.dump.documents.find(candidate => candidate.id === id);
+  if (!doc) {
+    throw new VaultDumpError('format', `No document ${id} in the dump`);
+  }
+  const masterKey = vault.masterKeys.get(doc.keyGeneration ?? 0);
+  if (!masterKey) {
+    throw new VaultDumpError('integrity', `No vault key for generation ${doc.keyGeneration}`);
+  }
+  const dataKey = doc.encryption === 'envelope' && doc.wrappedKey
+    ? await importKey(await decryptString(doc.wrappedKey, masterKey))
+    : masterKey;
+  const iv = base64ToUint8Array(doc.iv);
+
+  if (!doc.stream) {
+    return new Uint8Array(await decryptData(base64ToArrayBuffer(doc.encryptedData), dataKey, iv));
+  }
+
+  const segments = vault.chunks.get(doc.id) ?? [];
+  const plain = new Uint8Array(doc.size);
+  let offset = 0;
+  for (let index = 0; index < doc.stream.segmentCount; index++) {
+    const chunk = segments.find(segment => segment.index === index);
+    if (!chunk) {
+      throw new VaultDumpError('integrity', `Missing segment ${index} of document ${doc.id}`);
+    }
+    const segment = new Uint8Array(
+      await decryptSegment(base64ToArrayBuffer(chunk.data), dataKey, iv, doc.stream, index)
+    );
+    if (offset + segment.length > plain.length) {
+      throw new VaultDumpError('integrity', `Document ${doc.id} is larger than recorded`);
+    }
+    plain.set(segment, offset);
+    offset += segment.length;
+  }
+  if (offset !== doc.size) {
+    throw new VaultDumpError('integrity', `Document ${doc.id} is smaller than recorded`);
+  }
+  return plain;
+}
@@ -15,8 +15,15 @@ import { CategoryPage } from "@/pages/CategoryPage";
 import { CategoriesPage } from "@/pages/CategoriesPage";
 import { DocumentViewPage } from "@/pages/DocumentViewPage";
 import { SharePage } from "@/pages/SharePage";
+import { BundleSharePage } from "@/pages/BundleSharePage";
 import { QRCodePage } from "@/pages/QRCodePage";
 import { ReceivePage } from "@/pages/ReceivePage";
+import { IncomingPage } from "@/pages/IncomingPage";
+import { NearbySharePage } from "@/pages/NearbySharePage";
+import { RedactPage } from "@/pages/RedactPage";
+import { ContactsPage } from "@/pages/ContactsPage";
+import { ShareHistoryPage } from "@/pages/ShareHistoryPage";
+import { RestoreBackupPage } from "@/pages/RestoreBackupPage";
 import { getSetting } from "@/lib/storage";
 
 const queryClient = new QueryClient();
@@ -43,7 +50,14 @@ function ProtectedRoutes() {
       <Route path="/category/:categoryId" element={<CategoryPage />} />
       <Route path="/document/:documentId" element={<DocumentViewPage />} />
       <Route path="/share/:documentId" element={<SharePage />} />
+      <Route path="/share-bundle" element={<BundleSharePage />} />
       <Route path="/qr/:documentId" element={<QRCodePage />} />
+      <Route path="/restore" element={<RestoreBackupPage />} />
+      <Route path="/incoming" element={<IncomingPage />} />
+      <Route path="/nearby/:documentId" element={<NearbySharePage />} />
+      <Route path="/redact/:documentId" element={<RedactPage />} />
+      <Route path="/contacts" element={<ContactsPage />} />
+      <Route path="/share-history" element={<ShareHistoryPage />} />
       <Route path="*" element={<Navigate to="/home" replace />} />
     </Routes>
   );
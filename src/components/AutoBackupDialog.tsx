@@ -0,0 +1,243 @@
+import React, { useState } from 'react';
+import { Directory } from '@capacitor/filesystem';
+import { CalendarClock, FolderOpen } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  enableAutoBackup,
+  chooseBackupFolder,
+  isDeviceBackupTarget,
+  AutoBackupConfig,
+  BackupFrequency,
+  DeviceBackupDirectory
+} from '@/lib/autoBackup';
+import { validatePassword } from '@/lib/password';
+import { toast } from '@/hooks/use-toast';
+
+interface AutoBackupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onEnabled: () => void;
+}
+
+export function AutoBackupDialog({ open, onOpenChange, onEnabled }: AutoBackupDialogProps) {
+  const { encryptionKey } = useAuth();
+  const [frequency, setFrequency] = useState<BackupFrequency>('weekly');
+  const [documentThreshold, setDocumentThreshold] = useState('5');
+  const [keep, setKeep] = useState('5');
+  const [deviceDirectory, setDeviceDirectory] = useState<DeviceBackupDirectory>(Directory.Documents);
+  const [folderName, setFolderName] = useState<string | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const onDevice = isDeviceBackupTarget();
+
+  const close = () => {
+    onOpenChange(false);
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setErrors([]);
+  };
+
+  const handleChooseFolder = async () => {
+    try {
+      setFolderName(await chooseBackupFolder());
+      setErrors([]);
+    } catch (error) {
+      // Closing the picker rejects with an AbortError
+      if ((error as Error).name !== 'AbortError') {
+        console.error('Error choosing backup folder:', error);
+      }
+    }
+  };
+
+  const handleEnable = async () => {
+    if (!encryptionKey) return;
+    if (!onDevice && !folderName) {
+      setErrors(['Choisissez un dossier de sauvegarde']);
+      return;
+    }
+    const validation = validatePassword(passphrase);
+    if (!validation.valid) {
+      setErrors(validation.errors);
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setErrors(['Les phrases de passe ne correspondent pas']);
+      return;
+    }
+
+    const config: AutoBackupConfig = {
+      frequency,
+      documentThreshold: Math.max(1, parseInt(documentThreshold, 10) || 1),
+      keep: parseInt(keep, 10),
+      deviceDirectory: onDevice ? deviceDirectory : undefined
+    };
+
+    setIsSaving(true);
+    try {
+      await enableAutoBackup(config, passphrase, encryptionKey);
+      close();
+      onEnabled();
+      toast({
+        title: 'Sauvegarde automatique activée',
+        description: 'Une sauvegarde chiffrée sera créée dès qu\'elle est due, tant que le coffre est déverrouillé.'
+      });
+    } catch (error) {
+      console.error('Error enabling automatic backups:', error);
+      toast({
+        title: 'Erreur',
+        description: 'Impossible d\'activer la sauvegarde automatique.',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && close()}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="w-5 h-5 text-primary" />
+            Sauvegarde automatique
+          </DialogTitle>
+          <DialogDescription>
+            Les sauvegardes sont chiffrées avec une phrase de passe, différente de votre mot de passe.
+            Gardez-la précieusement : elle sera demandée pour restaurer.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="py-4 space-y-4">
+          <div className="space-y-2">
+            <Label>Fréquence</Label>
+            <Select value={frequency} onValueChange={(value) => setFrequency(value as BackupFrequency)}>
+              <SelectTrigger className="h-12">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="daily">Tous les jours</SelectItem>
+                <SelectItem value="weekly">Toutes les semaines</SelectItem>
+                <SelectItem value="documents">Après plusieurs nouveaux documents</SelectItem>
+              </SelectContent>
+            </Select>
+            {frequency === 'documents' && (
+              <Input
+                type="number"
+                min={1}
+                value={documentThreshold}
+                onChange={(e) => setDocumentThreshold(e.target.value)}
+                placeholder="Nombre de documents"
+                className="h-12"
+              />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Sauvegardes conservées</Label>
+            <Select value={keep} onValueChange={setKeep}>
+              <SelectTrigger className="h-12">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="3">3 dernières</SelectItem>
+                <SelectItem value="5">5 dernières</SelectItem>
+                <SelectItem value="10">10 dernières</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Emplacement</Label>
+            {onDevice ? (
+              <Select value={deviceDirectory} onValueChange={(value) => setDeviceDirectory(value as DeviceBackupDirectory)}>
+                <SelectTrigger className="h-12">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={Directory.Documents}>Documents/DocSafe</SelectItem>
+                  <SelectItem value={Directory.ExternalStorage}>Stockage externe/DocSafe</SelectItem>
+                </SelectContent>
+              </Select>
+            ) : (
+              <Button variant="outline" onClick={handleChooseFolder} className="w-full h-12 justify-start">
+                <FolderOpen className="w-5 h-5 mr-2" />
+                {folderName ?? 'Choisir un dossier'}
+              </Button>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Phrase de passe</Label>
+            <Input
+              type="password"
+              placeholder="Phrase de passe des sauvegardes"
+              value={passphrase}
+              onChange={(e) => {
+                setPassphrase(e.target.value);
+                setErrors([]);
+              }}
+              className="h-12"
+            />
+            <Input
+              type="password"
+              placeholder="Confirmez la phrase de passe"
+              value={confirmPassphrase}
+              onChange={(e) => {
+                setConfirmPassphrase(e.target.value);
+                setErrors([]);
+              }}
+              className="h-12"
+            />
+          </div>
+
+          {errors.length > 0 && (
+            <div className="text-sm space-y-1">
+              {errors.map((err, i) => (
+                <p key={i} className="text-destructive flex items-center gap-2">
+                  <span className="w-1.5 h-1.5 rounded-full bg-destructive" />
+                  {err}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            Annuler
+          </Button>
+          <Button
+            onClick={handleEnable}
+            disabled={!passphrase || !confirmPassphrase || isSaving}
+            className="gradient-primary"
+          >
+            {isSaving ? (
+              <div className="w-4 h-4 border-2 border-primary-foreground border-t-transparent rounded-full animate-spin" />
+            ) : (
+              'Activer'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Archive } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { createBackup, deriveBackupKey, backupFileName, BACKUP_MIME_TYPE } from '@/lib/backup';
+import { shareFile } from '@/lib/share';
+import { recordBackup } from '@/lib/autoBackup';
+import { validatePassword, hasSpecialChar } from '@/lib/password';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+interface BackupExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onExported?: () => void;
+}
+
+export function BackupExportDialog({ open, onOpenChange, onExported }: BackupExportDialogProps) {
+  const { getVaultKeys } = useAuth();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const close = () => {
+    onOpenChange(false);
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setErrors([]);
+  };
+
+  const handleExport = async () => {
+    const validation = validatePassword(passphrase);
+    if (!validation.valid) {
+      setErrors(validation.errors);
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setErrors(['Les phrases de passe ne correspondent pas']);
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const backup = await createBackup(await deriveBackupKey(passphrase), getVaultKeys());
+      const file = new File([backup], backupFileName(), { type: BACKUP_MIME_TYPE });
+      close();
+
+      const result = await shareFile(file, {
+        title: 'Sauvegarde DocSafe',
+        text: 'Sauvegarde chiffrée de mon coffre DocSafe'
+      });
+      await recordBackup();
+      onExported?.();
+      toast({
+        title: 'Sauvegarde exportée',
+        description: result === 'shared'
+          ? 'Votre sauvegarde chiffrée a été partagée.'
+          : 'Votre sauvegarde chiffrée a été téléchargée. Conservez-la en lieu sûr.'
+      });
+    } catch (error) {
+      console.error('Backup export error:', error);
+      if ((error as Error).name !== 'AbortError') {
+        toast({
+          title: 'Erreur',
+          description: 'Impossible de créer la sauvegarde.',
+          variant: 'destructive'
+        });
+      }
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && close()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Archive className="w-5 h-5 text-primary" />
+            Exporter une sauvegarde
+          </DialogTitle>
+          <DialogDescription>
+            Tous vos documents, dossiers, contacts et l'historique des partages sont regroupés dans un fichier chiffré.
+            Choisissez une phrase de passe différente de votre mot de passe : sans elle, la sauvegarde est illisible.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="py-4 space-y-3">
+          <Input
+            type="password"
+            placeholder="Phrase de passe de la sauvegarde"
+            value={passphrase}
+            onChange={(e) => {
+              setPassphrase(e.target.value);
+              setErrors([]);
+            }}
+            className="h-12"
+          />
+          <Input
+            type="password"
+            placeholder="Confirmez la phrase de passe"
+            value={confirmPassphrase}
+            onChange={(e) => {
+              setConfirmPassphrase(e.target.value);
+              setErrors([]);
+            }}
+            className="h-12"
+          />
+          {errors.length > 0 ? (
+            <div className="text-sm space-y-1">
+              {errors.map((err, i) => (
+                <p key={i} className="text-destructive flex items-center gap-2">
+                  <span className="w-1.5 h-1.5 rounded-full bg-destructive" />
+                  {err}
+                </p>
+              ))}
+            </div>
+          ) : (
+            <div className="text-xs text-muted-foreground space-y-1">
+              <p className={cn(passphrase.length >= 8 && "text-green-500")}>
+                • Au moins 8 caractères
+              </p>
+              <p className={cn(/[A-Z]/.test(passphrase) && "text-green-500")}>
+                • Au moins une majuscule
+              </p>
+              <p className={cn(hasSpecialChar(passphrase) && "text-green-500")}>
+                • Au moins un caractère spécial
+              </p>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            Annuler
+          </Button>
+          <Button
+            onClick={handleExport}
+            disabled={!passphrase || !confirmPassphrase || isExporting}
+            className="gradient-primary"
+          >
+            {isExporting ? (
+              <div className="w-4 h-4 border-2 border-primary-foreground border-t-transparent rounded-full animate-spin" />
+            ) : (
+              'Exporter'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
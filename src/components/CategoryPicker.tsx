@@ -0,0 +1,50 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Check } from 'lucide-react';
+import { categories } from '@/lib/categories';
+import { cn } from '@/lib/utils';
+
+interface CategoryPickerProps {
+  selectedCategory: string;
+  onSelect: (categoryId: string) => void;
+}
+
+export function CategoryPicker({ selectedCategory, onSelect }: CategoryPickerProps) {
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      {categories.map((category, index) => {
+        const Icon = category.icon;
+        const isSelected = selectedCategory === category.id;
+
+        return (
+          <motion.button
+            key={category.id}
+            initial={{ opacity: 0, scale: 0.9 }}
+            animate={{ opacity: 1, scale: 1 }}
+            transition={{ delay: index * 0.03 }}
+            onClick={() => onSelect(category.id)}
+            className={cn(
+              "flex items-center gap-3 p-4 rounded-xl border transition-all text-left",
+              isSelected
+                ? "border-primary bg-primary/10"
+                : "border-border bg-card hover:border-primary/30"
+            )}
+          >
+            <div
+              className="w-10 h-10 rounded-lg flex items-center justify-center shrink-0"
+              style={{ backgroundColor: category.color + '20', color: category.color }}
+            >
+              <Icon className="w-5 h-5" />
+            </div>
+            <span className="font-medium text-foreground text-sm truncate">
+              {category.name}
+            </span>
+            {isSelected && (
+              <Check className="w-5 h-5 text-primary ml-auto shrink-0" />
+            )}
+          </motion.button>
+        );
+      })}
+    </div>
+  );
+}
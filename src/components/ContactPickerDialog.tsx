@@ -0,0 +1,76 @@
+import React, { useState, useEffect } from 'react';
+import { UserCheck } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { getAllContacts, Contact } from '@/lib/storage';
+
+interface ContactPickerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (contact: Contact) => void;
+}
+
+export function ContactPickerDialog({ open, onOpenChange, onSelect }: ContactPickerDialogProps) {
+  const navigate = useNavigate();
+  const [contacts, setContacts] = useState<Contact[] | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      loadContacts();
+    }
+  }, [open]);
+
+  const loadContacts = async () => {
+    const data = await getAllContacts();
+    setContacts(data.sort((a, b) => a.name.localeCompare(b.name, 'fr')));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <UserCheck className="w-5 h-5 text-primary" />
+            Chiffrer pour un contact
+          </DialogTitle>
+          <DialogDescription>
+            Seul le DocSafe de ce contact pourra ouvrir le fichier, quel que soit le moyen utilisé pour l'envoyer.
+          </DialogDescription>
+        </DialogHeader>
+
+        {contacts?.length === 0 ? (
+          <div className="space-y-4 text-center">
+            <p className="text-sm text-muted-foreground">
+              Vous n'avez encore aucun contact. Scannez le code contact de la personne pour l'ajouter.
+            </p>
+            <Button onClick={() => navigate('/contacts')} className="w-full">
+              Ajouter un contact
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {contacts?.map(contact => (
+              <button
+                key={contact.id}
+                onClick={() => onSelect(contact)}
+                className="w-full flex items-center gap-3 p-3 rounded-xl border border-border bg-card hover:border-primary/30 transition-all text-left"
+              >
+                <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center shrink-0">
+                  <span className="font-semibold text-primary">{contact.name.charAt(0).toUpperCase()}</span>
+                </div>
+                <span className="font-medium text-foreground truncate">{contact.name}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,6 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { FileText, Image as ImageIcon, MoreVertical, Share2, Trash2, Eye } from 'lucide-react';
+import { FileText, Image as ImageIcon, MoreVertical, Share2, Trash2, Eye, CheckCircle2, Circle } from 'lucide-react';
 import { Document } from '@/lib/storage';
 import { getCategoryById } from '@/lib/categories';
 import { cn } from '@/lib/utils';
@@ -17,9 +17,12 @@ interface DocumentCardProps {
   onShare: (doc: Document) => void;
   onDelete: (doc: Document) => void;
   delay?: number;
+  // When set, the card is in selection mode: a tap toggles it instead of opening it
+  onSelect?: (doc: Document) => void;
+  selected?: boolean;
 }
 
-export function DocumentCard({ document, onView, onShare, onDelete, delay = 0 }: DocumentCardProps) {
+export function DocumentCard({ document, onView, onShare, onDelete, delay = 0, onSelect, selected = false }: DocumentCardProps) {
   const category = getCategoryById(document.category);
   const Icon = document.type === 'pdf' ? FileText : ImageIcon;
   
@@ -42,8 +45,11 @@ export function DocumentCard({ document, onView, onShare, onDelete, delay = 0 }:
       initial={{ opacity: 0, y: 20 }}
       animate={{ opacity: 1, y: 0 }}
       transition={{ delay: delay * 0.05 }}
-      className="bg-card rounded-xl p-4 border border-border hover:border-primary/30 transition-all duration-200 group"
-      onClick={() => onView(document)}
+      className={cn(
+        "bg-card rounded-xl p-4 border hover:border-primary/30 transition-all duration-200 group",
+        selected ? "border-primary bg-primary/5" : "border-border"
+      )}
+      onClick={() => onSelect ? onSelect(document) : onView(document)}
     >
       <div className="flex items-start gap-3">
         {/* Thumbnail or Icon */}
@@ -82,33 +88,43 @@ export function DocumentCard({ document, onView, onShare, onDelete, delay = 0 }:
         </div>
 
         {/* Actions */}
-        <DropdownMenu>
-          <DropdownMenuTrigger asChild>
-            <button 
-              className="p-2 rounded-lg hover:bg-secondary transition-colors"
-              onClick={(e) => e.stopPropagation()}
-            >
-              <MoreVertical className="w-5 h-5 text-muted-foreground" />
-            </button>
-          </DropdownMenuTrigger>
-          <DropdownMenuContent align="end" className="w-48">
-            <DropdownMenuItem onClick={() => onView(document)}>
-              <Eye className="w-4 h-4 mr-2" />
-              Voir
-            </DropdownMenuItem>
-            <DropdownMenuItem onClick={() => onShare(document)}>
-              <Share2 className="w-4 h-4 mr-2" />
-              Partager
-            </DropdownMenuItem>
-            <DropdownMenuItem 
-              onClick={() => onDelete(document)}
-              className="text-destructive focus:text-destructive"
-            >
-              <Trash2 className="w-4 h-4 mr-2" />
-              Supprimer
-            </DropdownMenuItem>
-          </DropdownMenuContent>
-        </DropdownMenu>
+        {onSelect ? (
+          <div className="p-2">
+            {selected ? (
+              <CheckCircle2 className="w-5 h-5 text-primary" />
+            ) : (
+              <Circle className="w-5 h-5 text-muted-foreground" />
+            )}
+          </div>
+        ) : (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button 
+                className="p-2 rounded-lg hover:bg-secondary transition-colors"
+                onClick={(e) => e.stopPropagation()}
+              >
+                <MoreVertical className="w-5 h-5 text-muted-foreground" />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-48">
+              <DropdownMenuItem onClick={() => onView(document)}>
+                <Eye className="w-4 h-4 mr-2" />
+                Voir
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onShare(document)}>
+                <Share2 className="w-4 h-4 mr-2" />
+                Partager
+              </DropdownMenuItem>
+              <DropdownMenuItem 
+                onClick={() => onDelete(document)}
+                className="text-destructive focus:text-destructive"
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Supprimer
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
       </div>
     </motion.div>
   );
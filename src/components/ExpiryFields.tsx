@@ -0,0 +1,62 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Document } from '@/lib/storage';
+
+export type ExpiryValues = Pick<Document, 'issuedAt' | 'expiresAt' | 'documentNumber'>;
+
+interface ExpiryFieldsProps {
+  value: ExpiryValues;
+  onChange: (value: ExpiryValues) => void;
+}
+
+// Optional validity details of an identity document
+export function ExpiryFields({ value, onChange }: ExpiryFieldsProps) {
+  // Cleared fields are dropped rather than kept as empty strings
+  const update = (field: keyof ExpiryValues, fieldValue: string) => {
+    onChange({ ...value, [field]: fieldValue || undefined });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label htmlFor="document-number" className="text-foreground">
+          Numéro du document (optionnel)
+        </Label>
+        <Input
+          id="document-number"
+          value={value.documentNumber ?? ''}
+          onChange={(e) => update('documentNumber', e.target.value)}
+          className="mt-2 h-12 bg-secondary border-0"
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label htmlFor="issued-at" className="text-foreground">
+            Délivré le
+          </Label>
+          <Input
+            id="issued-at"
+            type="date"
+            value={value.issuedAt ?? ''}
+            onChange={(e) => update('issuedAt', e.target.value)}
+            className="mt-2 h-12 bg-secondary border-0"
+          />
+        </div>
+        <div>
+          <Label htmlFor="expires-at" className="text-foreground">
+            Expire le
+          </Label>
+          <Input
+            id="expires-at"
+            type="date"
+            value={value.expiresAt ?? ''}
+            min={value.issuedAt}
+            onChange={(e) => update('expiresAt', e.target.value)}
+            className="mt-2 h-12 bg-secondary border-0"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { ResetPassword } from '@/components/ResetPassword';
+import { validatePassword, hasSpecialChar } from '@/lib/password';
 import { cn } from '@/lib/utils';
 
 interface LockScreenProps {
@@ -22,23 +23,6 @@ const SECRET_QUESTIONS = [
   "Quel est votre plat préféré ?",
 ];
 
-// Validation du mot de passe: au moins 8 caractères, 1 majuscule, 1 caractère spécial AZERTY
-const validatePassword = (password: string): { valid: boolean; errors: string[] } => {
-  const errors: string[] = [];
-  
-  if (password.length < 8) {
-    errors.push('Au moins 8 caractères');
-  }
-  if (!/[A-Z]/.test(password)) {
-    errors.push('Au moins une majuscule');
-  }
-  if (!/[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?€£µ§²°`~]/.test(password)) {
-    errors.push('Au moins un caractère spécial (!@#$%&*...)');
-  }
-  
-  return { valid: errors.length === 0, errors };
-};
-
 type SetupStep = 'password' | 'confirm' | 'secret';
 
 export function LockScreen({ isSetup = false, onReset }: LockScreenProps) {
@@ -255,7 +239,7 @@ export function LockScreen({ isSetup = false, onReset }: LockScreenProps) {
             <p className={cn(/[A-Z]/.test(password) && "text-green-500")}>
               • Au moins une majuscule
             </p>
-            <p className={cn(/[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?€£µ§²°`~]/.test(password) && "text-green-500")}>
+            <p className={cn(hasSpecialChar(password) && "text-green-500")}>
               • Au moins un caractère spécial
             </p>
           </div>
@@ -0,0 +1,207 @@
+import React, { useRef, useState, useEffect } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { CheckCircle, WifiOff } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { QRScanner } from '@/components/QRScanner';
+import { PeerTransferList } from '@/components/PeerTransferList';
+import { saveDocument, getAllFolders, saveFolder, Document } from '@/lib/storage';
+import { encryptDocumentFile } from '@/lib/documentCrypto';
+import {
+  createPeerReceiver,
+  isPeerSignal,
+  PeerManifest,
+  PeerReceiver,
+  PeerStatus,
+  PeerTransferError,
+  ReceivedPeerFile
+} from '@/lib/peerTransfer';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+
+interface NearbyReceiverProps {
+  // The sender's offer code, as scanned
+  offer: string;
+  onError: (error: unknown) => void;
+}
+
+// Colour of folders created for a received folder
+const RECEIVED_FOLDER_COLOR = '#3b82f6';
+
+function readAsDataURL(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Receive documents from a nearby DocSafe: answer its offer code, then save
+// each verified file into the vault as it arrives
+export function NearbyReceiver({ offer, onError }: NearbyReceiverProps) {
+  const navigate = useNavigate();
+  const { getCurrentKey } = useAuth();
+  const receiver = useRef<PeerReceiver | null>(null);
+  const folderId = useRef<Promise<string | undefined>>(Promise.resolve(undefined));
+  const isAnswering = useRef(false);
+  const [answer, setAnswer] = useState('');
+  const [status, setStatus] = useState<PeerStatus>('connecting');
+  const [manifest, setManifest] = useState<PeerManifest | null>(null);
+  const [progress, setProgress] = useState<number[]>([]);
+  const [results, setResults] = useState<(boolean | undefined)[]>([]);
+
+  // Received folders go into the folder of the same name, created if needed
+  const resolveFolder = async (name: string) => {
+    const existing = (await getAllFolders()).find(folder => folder.name === name);
+    if (existing) return existing.id;
+
+    const folder = { id: crypto.randomUUID(), name, color: RECEIVED_FOLDER_COLOR, createdAt: new Date() };
+    await saveFolder(folder);
+    return folder.id;
+  };
+
+  const saveReceivedFile = async (file: ReceivedPeerFile) => {
+    const currentKey = getCurrentKey();
+    if (!currentKey) throw new Error('Vault is locked');
+
+    const id = crypto.randomUUID();
+    const blob = new Blob([file.data], { type: file.mimeType });
+    const payload = await encryptDocumentFile(id, blob, currentKey.key);
+    const doc: Document = {
+      id,
+      name: file.name,
+      category: file.category,
+      type: file.type,
+      mimeType: file.mimeType,
+      size: file.size,
+      ...payload,
+      thumbnail: file.type === 'image' ? await readAsDataURL(blob) : undefined,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      folderId: await folderId.current,
+      keyGeneration: currentKey.keyGeneration
+    };
+    await saveDocument(doc);
+  };
+
+  const setAt = <T,>(setter: React.Dispatch<React.SetStateAction<T[]>>, index: number, value: T) => {
+    setter(values => {
+      const next = [...values];
+      next[index] = value;
+      return next;
+    });
+  };
+
+  const answerOffer = async (text: string) => {
+    if (!receiver.current || isAnswering.current) return;
+    isAnswering.current = true;
+    try {
+      setAnswer(await receiver.current.answer(text));
+    } catch (error) {
+      if (error instanceof PeerTransferError && error.reason === 'session') {
+        toast({
+          title: 'Autre transfert',
+          description: 'Ce code appartient à un autre transfert.',
+          variant: 'destructive'
+        });
+      } else {
+        onError(error);
+      }
+    } finally {
+      isAnswering.current = false;
+    }
+  };
+
+  useEffect(() => {
+    receiver.current = createPeerReceiver({
+      onStatus: setStatus,
+      onManifest: (received) => {
+        if (received.folderName) {
+          folderId.current = resolveFolder(received.folderName);
+        }
+        setManifest(received);
+      },
+      onProgress: (index, bytes) => setAt(setProgress, index, bytes),
+      onFile: async (index, file) => {
+        await saveReceivedFile(file);
+        setAt(setResults, index, true);
+      },
+      onFailed: (index) => setAt(setResults, index, false)
+    });
+    answerOffer(offer);
+
+    return () => receiver.current?.close();
+  }, []);
+
+  const savedCount = results.filter(Boolean).length;
+
+  if (status === 'complete') {
+    return (
+      <div className="flex flex-col items-center justify-center py-8 space-y-6">
+        <div className="w-20 h-20 rounded-full bg-green-500/20 flex items-center justify-center">
+          <CheckCircle className="w-10 h-10 text-green-500" />
+        </div>
+        <div className="text-center">
+          <h2 className="text-xl font-bold text-foreground mb-2">Transfert terminé</h2>
+          <p className="text-muted-foreground">
+            {savedCount} document{savedCount > 1 ? 's' : ''} ajouté{savedCount > 1 ? 's' : ''} à votre coffre
+          </p>
+        </div>
+        {manifest && <PeerTransferList files={manifest.files} progress={progress} results={results} />}
+        <Button onClick={() => navigate('/home')} className="w-full">
+          Voir mes documents
+        </Button>
+      </div>
+    );
+  }
+
+  if (status === 'interrupted') {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-start gap-3 p-4 bg-warning/10 rounded-xl">
+          <WifiOff className="w-5 h-5 text-warning shrink-0 mt-0.5" />
+          <div>
+            <p className="text-sm font-medium text-foreground">Connexion interrompue</p>
+            <p className="text-xs text-muted-foreground mt-1">
+              Sur l'autre appareil, touchez « Reprendre » puis scannez le nouveau code : le transfert repartira où il s'est arrêté.
+            </p>
+          </div>
+        </div>
+        <QRScanner onScan={(text) => isPeerSignal(text) && answerOffer(text)} />
+        {manifest && <PeerTransferList files={manifest.files} progress={progress} results={results} />}
+      </div>
+    );
+  }
+
+  if (status === 'connected' && manifest) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground text-center">
+          Réception de {manifest.files.length} document{manifest.files.length > 1 ? 's' : ''}
+          {manifest.folderName && <> dans « {manifest.folderName} »</>}
+        </p>
+        <PeerTransferList files={manifest.files} progress={progress} results={results} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center space-y-4">
+      {answer ? (
+        <>
+          <div className="p-4 bg-card rounded-2xl border border-border">
+            <QRCodeSVG value={answer} size={260} level="L" includeMargin className="rounded-lg" />
+          </div>
+          <p className="text-sm text-muted-foreground text-center">
+            Montrez ce code à l'appareil qui envoie : il le scanne pour établir la connexion.
+          </p>
+        </>
+      ) : (
+        <div className="flex items-center justify-center h-64">
+          <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import React from 'react';
+import { CheckCircle, XCircle, FileText, Image as ImageIcon } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { PeerManifestEntry } from '@/lib/peerTransfer';
+
+interface PeerTransferListProps {
+  files: Pick<PeerManifestEntry, 'name' | 'type' | 'size'>[];
+  // Bytes transferred per file
+  progress: number[];
+  // Per file: true once verified, false if it failed, undefined while pending
+  results: (boolean | undefined)[];
+}
+
+export function PeerTransferList({ files, progress, results }: PeerTransferListProps) {
+  return (
+    <div className="space-y-2">
+      {files.map((file, index) => {
+        const result = results[index];
+        const percent = file.size ? Math.round((progress[index] ?? 0) / file.size * 100) : 0;
+
+        return (
+          <div key={index} className="flex items-center gap-3 p-3 bg-card rounded-xl border border-border">
+            <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center shrink-0">
+              {file.type === 'pdf' ? (
+                <FileText className="w-5 h-5 text-primary" />
+              ) : (
+                <ImageIcon className="w-5 h-5 text-primary" />
+              )}
+            </div>
+            <div className="flex-1 min-w-0 space-y-1">
+              <p className="text-sm font-medium text-foreground truncate">{file.name}</p>
+              {result === undefined ? (
+                <Progress value={percent} className="h-1.5" />
+              ) : (
+                <p className={`text-xs ${result ? 'text-muted-foreground' : 'text-destructive'}`}>
+                  {result ? 'Vérifié' : 'Non transféré'}
+                </p>
+              )}
+            </div>
+            {result === true && <CheckCircle className="w-5 h-5 text-green-500 shrink-0" />}
+            {result === false && <XCircle className="w-5 h-5 text-destructive shrink-0" />}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
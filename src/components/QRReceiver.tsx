@@ -0,0 +1,104 @@
+import React, { useRef, useState, useEffect } from 'react';
+import { QrCode } from 'lucide-react';
+import { QRScanner } from '@/components/QRScanner';
+import { Progress } from '@/components/ui/progress';
+import { openShareLink, decryptSharePayload, SharedFile } from '@/lib/shareLink';
+import { parseTransferFrame, createQrTransferReceiver } from '@/lib/qrTransfer';
+import { isPeerSignal } from '@/lib/peerTransfer';
+
+interface QRReceiverProps {
+  // A frame already read, e.g. from the link that opened the page
+  initialFrame?: string;
+  onReceived: (shared: SharedFile) => void;
+  onError: (error: unknown) => void;
+  // Offer code of a nearby transfer; such codes are ignored without it
+  onPeerOffer?: (offer: string) => void;
+}
+
+// Reads DocSafe QR codes: a single share link, or the frames of an animated transfer
+export function QRReceiver({ initialFrame, onReceived, onError, onPeerOffer }: QRReceiverProps) {
+  const receiver = useRef(createQrTransferReceiver());
+  const lastScan = useRef('');
+  const done = useRef(false);
+  const [progress, setProgress] = useState(0);
+  const [isReceiving, setIsReceiving] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+
+  useEffect(() => {
+    if (initialFrame) {
+      handleScan(initialFrame);
+    }
+  }, [initialFrame]);
+
+  const finish = async (open: () => Promise<SharedFile>) => {
+    done.current = true;
+    setIsDone(true);
+    try {
+      onReceived(await open());
+    } catch (error) {
+      onError(error);
+    }
+  };
+
+  const handleScan = (text: string) => {
+    // Scanned codes are untrusted input: a failure must not take the page down
+    try {
+      readCode(text);
+    } catch (error) {
+      onError(error);
+    }
+  };
+
+  const readCode = (text: string) => {
+    if (done.current || text === lastScan.current) return;
+    lastScan.current = text;
+
+    if (onPeerOffer && isPeerSignal(text)) {
+      done.current = true;
+      setIsDone(true);
+      onPeerOffer(text);
+      return;
+    }
+
+    const frame = parseTransferFrame(text);
+    if (frame) {
+      if (!receiver.current.add(frame)) return;
+      setIsReceiving(true);
+      setProgress(receiver.current.progress());
+      const share = receiver.current.result();
+      if (share) {
+        finish(() => decryptSharePayload(share));
+      }
+      return;
+    }
+
+    // A single-code share link
+    try {
+      const url = new URL(text);
+      if (url.pathname === '/receive' && url.searchParams.has('d')) {
+        finish(() => openShareLink(url.searchParams.get('d'), url.hash));
+      }
+    } catch {
+      // Not a DocSafe code
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <QRScanner onScan={handleScan} paused={isDone} />
+      {isReceiving ? (
+        <div className="space-y-2">
+          <Progress value={progress * 100} className="h-2" />
+          <p className="text-sm text-muted-foreground text-center">
+            {isDone ? 'Déchiffrement…' : `Réception… ${Math.round(progress * 100)} %`}
+          </p>
+        </div>
+      ) : (
+        <p className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+          <QrCode className="w-4 h-4" />
+          Pointez la caméra vers le QR code DocSafe
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import React, { useRef, useState, useEffect } from 'react';
+import Webcam from 'react-webcam';
+import jsQR from 'jsqr';
+import { AlertCircle, RotateCcw, Settings } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { requestCameraPermission, openAppSettings } from '@/lib/permissions';
+
+interface QRScannerProps {
+  // Called for every code read, including repeats of the same code
+  onScan: (text: string) => void;
+  paused?: boolean;
+}
+
+const SCAN_INTERVAL_MS = 100;
+// Frames are scaled down before decoding; QR codes stay readable well below this
+const SCAN_MAX_WIDTH = 800;
+
+export function QRScanner({ onScan, paused = false }: QRScannerProps) {
+  const webcamRef = useRef<Webcam>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const onScanRef = useRef(onScan);
+  const [hasPermission, setHasPermission] = useState<boolean | null>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [isRequestingPermission, setIsRequestingPermission] = useState(false);
+
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    requestPermission();
+  }, []);
+
+  useEffect(() => {
+    if (!hasPermission || paused) return;
+
+    const timer = setInterval(() => {
+      const video = webcamRef.current?.video;
+      if (!video || video.readyState < video.HAVE_CURRENT_DATA || !video.videoWidth) return;
+
+      const scale = Math.min(1, SCAN_MAX_WIDTH / video.videoWidth);
+      const width = Math.round(video.videoWidth * scale);
+      const height = Math.round(video.videoHeight * scale);
+      canvasRef.current ??= window.document.createElement('canvas');
+      const canvas = canvasRef.current;
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext('2d', { willReadFrequently: true });
+      if (!context) return;
+
+      context.drawImage(video, 0, 0, width, height);
+      const code = jsQR(context.getImageData(0, 0, width, height).data, width, height, {
+        inversionAttempts: 'dontInvert'
+      });
+      if (code?.data) {
+        onScanRef.current(code.data);
+      }
+    }, SCAN_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [hasPermission, paused]);
+
+  const requestPermission = async () => {
+    setIsRequestingPermission(true);
+    const result = await requestCameraPermission();
+    setHasPermission(result.granted);
+    if (!result.granted) {
+      setCameraError('Accès à la caméra refusé. Ouvrez les paramètres de votre téléphone pour autoriser l\'accès à DocSafe.');
+    } else {
+      setCameraError(null);
+    }
+    setIsRequestingPermission(false);
+  };
+
+  const handleUserMediaError = (error: string | DOMException) => {
+    console.error('Webcam error:', error);
+    setHasPermission(false);
+    setCameraError('Accès à la caméra refusé. Ouvrez les paramètres pour autoriser l\'accès.');
+  };
+
+  if (cameraError) {
+    return (
+      <div className="flex flex-col items-center gap-4 p-6 text-center">
+        <div className="w-16 h-16 rounded-full bg-destructive/20 flex items-center justify-center">
+          <AlertCircle className="w-8 h-8 text-destructive" />
+        </div>
+        <p className="text-sm text-muted-foreground max-w-xs">{cameraError}</p>
+        <div className="flex flex-col gap-3">
+          <Button variant="outline" onClick={requestPermission} disabled={isRequestingPermission}>
+            {isRequestingPermission ? (
+              <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin mr-2" />
+            ) : (
+              <RotateCcw className="w-4 h-4 mr-2" />
+            )}
+            Réessayer
+          </Button>
+          <Button variant="outline" onClick={openAppSettings}>
+            <Settings className="w-4 h-4 mr-2" />
+            Ouvrir les paramètres
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative w-full aspect-square rounded-2xl overflow-hidden bg-black">
+      {hasPermission && (
+        <Webcam
+          ref={webcamRef}
+          audio={false}
+          videoConstraints={{ facingMode: { ideal: 'environment' } }}
+          className="w-full h-full object-cover"
+          onUserMediaError={handleUserMediaError}
+        />
+      )}
+      {/* Scan overlay guide */}
+      <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+        <div className="relative w-[70%] aspect-square border-2 border-white/50 rounded-lg">
+          <div className="absolute top-0 left-0 w-8 h-8 border-t-4 border-l-4 border-primary rounded-tl-lg" />
+          <div className="absolute top-0 right-0 w-8 h-8 border-t-4 border-r-4 border-primary rounded-tr-lg" />
+          <div className="absolute bottom-0 left-0 w-8 h-8 border-b-4 border-l-4 border-primary rounded-bl-lg" />
+          <div className="absolute bottom-0 right-0 w-8 h-8 border-b-4 border-r-4 border-primary rounded-br-lg" />
+        </div>
+      </div>
+    </div>
+  );
+}
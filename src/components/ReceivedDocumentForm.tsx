@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import { Check, FileText, Image as ImageIcon, Folder } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { FolderManager } from '@/components/FolderManager';
+import { CategoryPicker } from '@/components/CategoryPicker';
+import { saveDocument, Document } from '@/lib/storage';
+import { encryptDocumentFile } from '@/lib/documentCrypto';
+import { SharedFile } from '@/lib/shareLink';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+
+// A decrypted file received from another DocSafe, by share link or sealed file
+export type ReceivedFile = Pick<SharedFile, 'name' | 'type' | 'mimeType' | 'size' | 'data'>;
+
+interface ReceivedDocumentFormProps {
+  shared: ReceivedFile;
+  onSaved: (doc: Document) => void;
+}
+
+// Save a document received from another DocSafe into the vault. The file only
+// exists in memory until it is encrypted like any added document.
+export function ReceivedDocumentForm({ shared, onSaved }: ReceivedDocumentFormProps) {
+  const { getCurrentKey } = useAuth();
+  const [documentName, setDocumentName] = useState(shared.name.replace(/\.[^/.]+$/, ''));
+  const [selectedCategory, setSelectedCategory] = useState('');
+  const [selectedFolderId, setSelectedFolderId] = useState<string | undefined>(undefined);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Images get a preview, which is also kept as the thumbnail
+  useEffect(() => {
+    if (shared.type !== 'image') return;
+    const reader = new FileReader();
+    reader.onload = (e) => setPreview(e.target?.result as string);
+    reader.readAsDataURL(new Blob([shared.data], { type: shared.mimeType }));
+  }, [shared]);
+
+  const handleSave = async () => {
+    const currentKey = getCurrentKey();
+    if (!selectedCategory || !documentName || !currentKey) return;
+
+    setIsSaving(true);
+    try {
+      const id = crypto.randomUUID();
+      const payload = await encryptDocumentFile(id, new Blob([shared.data], { type: shared.mimeType }), currentKey.key);
+
+      const doc: Document = {
+        id,
+        name: documentName,
+        category: selectedCategory,
+        type: shared.type,
+        mimeType: shared.mimeType,
+        size: shared.size,
+        ...payload,
+        thumbnail: preview || undefined,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        folderId: selectedFolderId,
+        keyGeneration: currentKey.keyGeneration
+      };
+      await saveDocument(doc);
+
+      toast({
+        title: 'Document reçu',
+        description: 'Le document a été chiffré et ajouté à votre coffre.'
+      });
+      onSaved(doc);
+    } catch (error) {
+      console.error('Error saving received document:', error);
+      toast({
+        title: 'Erreur',
+        description: 'Impossible d\'enregistrer le document.',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {preview ? (
+        <div className="aspect-video rounded-xl overflow-hidden bg-secondary">
+          <img src={preview} alt="Aperçu" className="w-full h-full object-cover" />
+        </div>
+      ) : (
+        <div className="flex items-center gap-4 p-4 bg-card rounded-xl border border-border">
+          <div className="w-12 h-12 rounded-lg bg-primary/10 flex items-center justify-center shrink-0">
+            {shared.type === 'pdf' ? (
+              <FileText className="w-6 h-6 text-primary" />
+            ) : (
+              <ImageIcon className="w-6 h-6 text-primary" />
+            )}
+          </div>
+          <div className="flex-1 min-w-0">
+            <p className="font-medium text-foreground truncate">{shared.name}</p>
+            <p className="text-sm text-muted-foreground">
+              {(shared.size / 1024).toFixed(1)} KB
+            </p>
+          </div>
+        </div>
+      )}
+
+      <div>
+        <Label htmlFor="received-name" className="text-foreground">
+          Nom du document
+        </Label>
+        <Input
+          id="received-name"
+          value={documentName}
+          onChange={(e) => setDocumentName(e.target.value)}
+          placeholder="Mon document"
+          className="mt-2 h-12 bg-secondary border-0"
+        />
+      </div>
+
+      <div>
+        <h2 className="text-lg font-semibold text-foreground mb-4">
+          Choisissez une catégorie
+        </h2>
+        <CategoryPicker selectedCategory={selectedCategory} onSelect={setSelectedCategory} />
+      </div>
+
+      <div>
+        <Label className="text-foreground mb-2 block">
+          Dossier (optionnel)
+        </Label>
+        <FolderManager
+          selectedFolderId={selectedFolderId}
+          onFolderSelect={setSelectedFolderId}
+          mode="select"
+        />
+        {selectedFolderId && (
+          <div className="mt-2 flex items-center gap-2 text-sm text-muted-foreground">
+            <Folder className="w-4 h-4" />
+            <span>Document sera ajouté au dossier sélectionné</span>
+            <button
+              onClick={() => setSelectedFolderId(undefined)}
+              className="text-primary hover:underline ml-auto"
+            >
+              Retirer
+            </button>
+          </div>
+        )}
+      </div>
+
+      <Button
+        onClick={handleSave}
+        disabled={!documentName || !selectedCategory || isSaving}
+        className="w-full gradient-primary h-12 text-base"
+      >
+        {isSaving ? (
+          <div className="w-5 h-5 border-2 border-primary-foreground border-t-transparent rounded-full animate-spin" />
+        ) : (
+          <>
+            <Check className="w-5 h-5 mr-2" />
+            Ajouter à mon coffre
+          </>
+        )}
+      </Button>
+
+      <p className="text-xs text-muted-foreground text-center">
+        🔒 Ce document sera chiffré en AES-256 et stocké uniquement sur votre appareil.
+      </p>
+    </div>
+  );
+}
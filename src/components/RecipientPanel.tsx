@@ -0,0 +1,106 @@
+import React, { useState, useEffect } from 'react';
+import { Stamp, User } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { getWatermarkPresets, watermarkText, WatermarkChoice, WatermarkPreset } from '@/lib/watermark';
+import { getShareLog } from '@/lib/storage';
+import { logRecipients } from '@/lib/shareLog';
+import { useAuth } from '@/contexts/AuthContext';
+
+interface RecipientPanelProps {
+  value: WatermarkChoice;
+  onChange: (value: WatermarkChoice) => void;
+  disabled?: boolean;
+}
+
+// Who a document is going to, kept in the share log, and the optional
+// "Copie destinée à …" stamp on the shared copy
+export function RecipientPanel({ value, onChange, disabled = false }: RecipientPanelProps) {
+  const { encryptionKey } = useAuth();
+  const [presets, setPresets] = useState<WatermarkPreset[]>([]);
+  const [recipients, setRecipients] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (encryptionKey) {
+      loadRecipients(encryptionKey);
+    }
+  }, [encryptionKey]);
+
+  const loadRecipients = async (masterKey: CryptoKey) => {
+    try {
+      const [watermarkPresets, log] = await Promise.all([getWatermarkPresets(masterKey), getShareLog()]);
+      setPresets(watermarkPresets);
+      setRecipients(logRecipients([...watermarkPresets, ...log]));
+    } catch (error) {
+      console.error('Error loading recipients:', error);
+    }
+  };
+
+  // Picking a known recipient brings back the purpose used for them last time
+  const handleRecipientChange = (recipient: string) => {
+    const preset = presets.find(p => p.recipient.toLowerCase() === recipient.trim().toLowerCase());
+    onChange({ ...value, recipient, purpose: preset ? preset.purpose : value.purpose });
+  };
+
+  return (
+    <div className="p-4 bg-card rounded-xl border border-border space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center shrink-0">
+          <User className="w-5 h-5 text-primary" />
+        </div>
+        <Input
+          list="share-recipients"
+          placeholder="Destinataire (facultatif)"
+          value={value.recipient}
+          onChange={(e) => handleRecipientChange(e.target.value)}
+          disabled={disabled}
+          className="h-12 bg-secondary border-0"
+        />
+        <datalist id="share-recipients">
+          {recipients.map(recipient => (
+            <option key={recipient} value={recipient} />
+          ))}
+        </datalist>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center shrink-0">
+          <Stamp className="w-5 h-5 text-primary" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="font-medium text-foreground">Filigrane</p>
+          <p className="text-sm text-muted-foreground">Marquer la copie partagée</p>
+        </div>
+        <Switch
+          checked={value.enabled}
+          onCheckedChange={(enabled) => onChange({ ...value, enabled })}
+          disabled={disabled}
+        />
+      </div>
+
+      {value.enabled && (
+        <div className="space-y-3">
+          <Input
+            placeholder="Objet (ex. dossier de location)"
+            value={value.purpose}
+            onChange={(e) => onChange({ ...value, purpose: e.target.value })}
+            disabled={disabled}
+            className="h-12 bg-secondary border-0"
+          />
+          {value.recipient.trim() && (
+            <p className="text-xs text-muted-foreground italic">
+              « {watermarkText(value.recipient, value.purpose)} »
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Le texte est répété en diagonale sur chaque page. Le document conservé dans votre coffre n'est pas modifié.
+          </p>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Chaque partage est noté dans l'historique du document, chiffré dans votre coffre.
+      </p>
+    </div>
+  );
+}
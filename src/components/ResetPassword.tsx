@@ -6,6 +6,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from '@/hooks/use-toast';
+import { validatePassword, hasSpecialChar } from '@/lib/password';
 import { cn } from '@/lib/utils';
 
 interface ResetPasswordProps {
@@ -13,20 +14,10 @@ interface ResetPasswordProps {
   onReset: () => void;
 }
 
-const validatePassword = (password: string): { valid: boolean; errors: string[] } => {
-  const errors: string[] = [];
-  if (password.length < 8) errors.push('Au moins 8 caractères');
-  if (!/[A-Z]/.test(password)) errors.push('Au moins une majuscule');
-  if (!/[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?€£µ§²°`~]/.test(password)) {
-    errors.push('Au moins un caractère spécial');
-  }
-  return { valid: errors.length === 0, errors };
-};
-
 type Step = 'question' | 'newPassword' | 'confirm';
 
 export function ResetPassword({ onBack, onReset }: ResetPasswordProps) {
-  const { verifySecretAnswer, resetPasswordWithSecret, getSecretQuestion, login } = useAuth();
+  const { verifySecretAnswer, resetPasswordWithSecret, getSecretQuestion } = useAuth();
   const [step, setStep] = useState<Step>('question');
   const [secretQuestion, setSecretQuestion] = useState<string>('');
   const [secretAnswer, setSecretAnswer] = useState('');
@@ -86,28 +77,16 @@ export function ResetPassword({ onBack, onReset }: ResetPasswordProps) {
       }
       
       setIsLoading(true);
-      const success = await resetPasswordWithSecret(newPassword);
+      const success = await resetPasswordWithSecret(secretAnswer, newPassword);
+      setIsLoading(false);
       
       if (success) {
-        // Try to login with new password
-        const loginSuccess = await login(newPassword);
-        setIsLoading(false);
-        
-        if (loginSuccess) {
-          toast({
-            title: 'Mot de passe réinitialisé',
-            description: 'Votre nouveau mot de passe a été configuré avec succès.'
-          });
-          onReset();
-        } else {
-          toast({
-            title: 'Mot de passe mis à jour',
-            description: 'Veuillez vous reconnecter avec votre nouveau mot de passe.'
-          });
-          onBack();
-        }
+        toast({
+          title: 'Mot de passe réinitialisé',
+          description: 'Votre nouveau mot de passe a été configuré avec succès.'
+        });
+        onReset();
       } else {
-        setIsLoading(false);
         setError('Erreur lors de la réinitialisation');
       }
     }
@@ -245,7 +224,7 @@ export function ResetPassword({ onBack, onReset }: ResetPasswordProps) {
             <p className={cn(/[A-Z]/.test(newPassword) && "text-green-500")}>
               • Au moins une majuscule
             </p>
-            <p className={cn(/[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?€£µ§²°`~]/.test(newPassword) && "text-green-500")}>
+            <p className={cn(hasSpecialChar(newPassword) && "text-green-500")}>
               • Au moins un caractère spécial
             </p>
           </div>
@@ -0,0 +1,41 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Share2, X } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+
+interface SelectionBarProps {
+  selectedIds: string[];
+  onCancel: () => void;
+}
+
+// Shown above the bottom navigation while documents are being picked
+export function SelectionBar({ selectedIds, onCancel }: SelectionBarProps) {
+  const navigate = useNavigate();
+  const count = selectedIds.length;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="fixed bottom-20 left-4 right-4 z-40 flex items-center gap-3 p-3 bg-card rounded-2xl border border-border shadow-lg"
+    >
+      <button
+        onClick={onCancel}
+        className="p-2 rounded-lg hover:bg-secondary transition-colors"
+      >
+        <X className="w-5 h-5 text-muted-foreground" />
+      </button>
+      <span className="flex-1 text-sm font-medium text-foreground">
+        {count} sélectionné{count > 1 ? 's' : ''}
+      </span>
+      <Button
+        onClick={() => navigate(`/share-bundle?ids=${selectedIds.join(',')}`)}
+        disabled={count === 0}
+      >
+        <Share2 className="w-4 h-4 mr-2" />
+        Partager
+      </Button>
+    </motion.div>
+  );
+}
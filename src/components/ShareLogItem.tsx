@@ -0,0 +1,50 @@
+import React from 'react';
+import { Send, Stamp } from 'lucide-react';
+import { ShareLogEntry } from '@/lib/storage';
+import { shareMethodLabels } from '@/lib/shareLog';
+import { cn } from '@/lib/utils';
+
+interface ShareLogItemProps {
+  entry: ShareLogEntry;
+  // Lead with the document rather than the recipient, in the global history
+  showDocument?: boolean;
+  onClick?: () => void;
+}
+
+export function ShareLogItem({ entry, showDocument = false, onClick }: ShareLogItemProps) {
+  const recipient = entry.recipient || 'Destinataire non précisé';
+  const sharedAt = new Date(entry.sharedAt);
+
+  return (
+    <div
+      onClick={onClick}
+      className={cn(
+        "flex items-start gap-3 p-3 bg-card rounded-xl border border-border",
+        onClick && "cursor-pointer hover:border-primary/30 transition-all"
+      )}
+    >
+      <div className="w-9 h-9 rounded-full bg-primary/10 flex items-center justify-center shrink-0">
+        <Send className="w-4 h-4 text-primary" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className={cn("font-medium truncate", entry.recipient || showDocument ? "text-foreground" : "text-muted-foreground")}>
+          {showDocument ? entry.documentName : recipient}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {showDocument && `${recipient} • `}
+          {shareMethodLabels[entry.method] || entry.method} • {sharedAt.toLocaleDateString('fr-FR')} à{' '}
+          {sharedAt.toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })}
+        </p>
+        {entry.note && (
+          <p className="text-xs text-muted-foreground mt-1">{entry.note}</p>
+        )}
+        {entry.watermark && (
+          <p className="flex items-center gap-1.5 text-xs text-muted-foreground italic mt-1">
+            <Stamp className="w-3 h-3 shrink-0" />
+            {entry.watermark}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
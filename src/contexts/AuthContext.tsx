@@ -1,7 +1,42 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
-import { hashPin, deriveKeyFromPin, generateKey, exportKey, importKey, encryptString, decryptString } from '@/lib/crypto';
-import { getSetting, saveSetting } from '@/lib/storage';
-import { checkBiometricAvailability, authenticateWithBiometrics, isBiometricsEnabled, setBiometricsEnabled as saveBiometricsSetting } from '@/lib/biometrics';
+import {
+  generateKey,
+  exportKey,
+  importKey,
+  encryptString,
+  decryptString,
+  createKdfParams,
+  isKdfOutdated,
+  wrapKeyWithPassword
+} from '@/lib/crypto';
+import { getSetting, saveSettings, deleteSetting, setMetadataKeys, migrateLegacyMetadata, Document } from '@/lib/storage';
+import {
+  getKeyGeneration,
+  getKeyRotationState,
+  saveKeyRotationState,
+  getDocumentKeyGeneration,
+  rotateDocuments,
+  verifyDocuments,
+  KeyRotationState,
+  KeyRotationProgress,
+  KeyRotationReport
+} from '@/lib/keyRotation';
+import { migrateDocumentsToEnvelope } from '@/lib/documentCrypto';
+import {
+  LEGACY_VERIFIER_SETTINGS,
+  getKdfParams,
+  normalizeSecretAnswer,
+  unlockMetadata,
+  createVaultKey,
+  unwrapMainKey,
+  unwrapRecoveryKey,
+  rewrapMainKey,
+  resetPasswordWithRecovery
+} from '@/lib/vaultKey';
+import { discardMigrationSnapshot } from '@/lib/migrations';
+import { runAutoBackupIfDue } from '@/lib/autoBackup';
+import { runExpiryReminders } from '@/lib/expiry';
+import { checkBiometricAvailability, registerBiometricCredential, deriveBiometricKey, getBiometricCredential, isBiometricsEnabled } from '@/lib/biometrics';
 
 interface AuthContextType {
   isAuthenticated: boolean;
@@ -17,7 +52,13 @@ interface AuthContextType {
   logout: () => void;
   resetApp: () => Promise<void>;
   verifySecretAnswer: (answer: string) => Promise<boolean>;
-  resetPasswordWithSecret: (newPassword: string) => Promise<boolean>;
+  resetPasswordWithSecret: (secretAnswer: string, newPassword: string) => Promise<boolean>;
+  changePassword: (oldPassword: string, newPassword: string) => Promise<boolean>;
+  rotateMasterKey: (password: string, secretAnswer: string) => Promise<boolean>;
+  keyRotationProgress: KeyRotationProgress | null;
+  getDocumentKey: (doc: Document) => CryptoKey | null;
+  getCurrentKey: () => { key: CryptoKey; keyGeneration: number } | null;
+  getVaultKeys: () => { key: CryptoKey; keyGeneration: number }[];
   getSecretQuestion: () => Promise<string | undefined>;
   enableBiometrics: (password: string) => Promise<boolean>;
   disableBiometrics: () => Promise<void>;
@@ -28,6 +69,21 @@ interface AuthContextType {
 const AuthContext = createContext<AuthContextType | null>(null);
 
 const INACTIVITY_TIMEOUT = 5 * 60 * 1000; // 5 minutes
+const AUTO_BACKUP_CHECK_INTERVAL = 15 * 60 * 1000; // 15 minutes
+const EXPIRY_CHECK_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+async function clearBiometricSettings(): Promise<void> {
+  await saveSettings({
+    biometricsEnabled: 'false',
+    encryptedKeyBiometrics: '',
+    biometricsCredentialId: '',
+    biometricsPrfSalt: ''
+  });
+  await deleteSetting('biometricsPassword');
+}
+
+// Settings encrypted with the master key, re-encrypted when it is rotated
+const MASTER_WRAPPED_SETTINGS = ['encryptedMetadataKey', 'autoBackupKey', 'encryptedIdentityKey', 'encryptedWatermarkPresets'];
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
@@ -38,6 +94,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [isBiometricsAvailable, setIsBiometricsAvailable] = useState(false);
   const [biometryType, setBiometryType] = useState<'fingerprint' | 'faceId' | 'none'>('none');
   const [biometricsEnabled, setBiometricsEnabled] = useState(false);
+  const [keyGeneration, setKeyGeneration] = useState(0);
+  const [pendingKey, setPendingKey] = useState<{ key: CryptoKey; keyGeneration: number } | null>(null);
+  const [keyRotationProgress, setKeyRotationProgress] = useState<KeyRotationProgress | null>(null);
+  const [keyRotationRequest, setKeyRotationRequest] = useState(0);
 
   // Check if biometrics is available
   useEffect(() => {
@@ -47,8 +107,16 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         setIsBiometricsAvailable(result.available);
         setBiometryType(result.biometryType);
         
+        // Older versions kept the password in clear for biometric unlock:
+        // drop it and require biometrics to be enabled again.
+        const legacyPassword = await getSetting('biometricsPassword');
+        if (legacyPassword !== undefined) {
+          await clearBiometricSettings();
+        }
+        
         const enabled = await isBiometricsEnabled();
-        setBiometricsEnabled(enabled && result.available);
+        const credential = await getBiometricCredential();
+        setBiometricsEnabled(enabled && !!credential && result.available);
       } catch (error) {
         console.log('Biometrics not available:', error);
         setIsBiometricsAvailable(false);
@@ -61,8 +129,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   useEffect(() => {
     async function checkSetup() {
       try {
-        const passwordHash = await getSetting('passwordHash');
-        setIsSetup(!!passwordHash);
+        const encryptedMainKey = await getSetting('encryptedKey');
+        setIsSetup(!!encryptedMainKey);
       } catch (error) {
         console.error('Error checking setup:', error);
       } finally {
@@ -72,6 +140,145 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     checkSetup();
   }, []);
 
+  // Run (or resume) a pending master key rotation while the vault is unlocked,
+  // otherwise finish the lazy migrations to per-document data keys and encrypted metadata
+  useEffect(() => {
+    if (!encryptionKey) return;
+    const controller = new AbortController();
+    
+    async function runKeyRotation(oldKey: CryptoKey) {
+      try {
+        await migrateLegacyMetadata(controller.signal);
+        // The upgraded vault opened and decrypted fine: the pre-upgrade copy can go
+        await discardMigrationSnapshot();
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Metadata migration error:', error);
+        }
+      }
+      
+      try {
+        const generation = await getKeyGeneration();
+        setKeyGeneration(generation);
+        
+        const rotation = await getKeyRotationState();
+        if (controller.signal.aborted) return;
+        if (!rotation) {
+          // Nothing to rotate: move any remaining legacy records to their own data key
+          await migrateDocumentsToEnvelope(oldKey, controller.signal);
+          return;
+        }
+        
+        const newKey = await importKey(await decryptString(rotation.pendingKey, oldKey));
+        setPendingKey({ key: newKey, keyGeneration: rotation.generation });
+        setKeyRotationProgress({ done: 0, total: 0 });
+        
+        const { migrated, failed } = await rotateDocuments(
+          oldKey,
+          newKey,
+          rotation.generation,
+          setKeyRotationProgress,
+          controller.signal
+        );
+        const verification = await verifyDocuments(newKey, rotation.generation);
+        controller.signal.throwIfAborted();
+        
+        const report: KeyRotationReport = {
+          completedAt: new Date().toISOString(),
+          generation: rotation.generation,
+          total: verification.verified + verification.failed.length,
+          migrated,
+          verified: verification.verified,
+          failed: verification.failed.length > 0 ? verification.failed : failed
+        };
+        
+        // A document still readable only with the old key would be lost with it:
+        // keep the rotation pending, both keys in use, and try again on next unlock
+        if (failed.length > 0 || verification.failed.length > 0) {
+          await saveSettings({ keyRotationReport: JSON.stringify({ ...report, pending: true }) });
+          setKeyRotationProgress(null);
+          return;
+        }
+        
+        // Install the new wrappings in one go: until then the old key stays the vault key
+        const updates: Record<string, string> = {
+          encryptedKey: rotation.encryptedKey,
+          kdf: rotation.kdf,
+          encryptedKeyRecovery: rotation.encryptedKeyRecovery,
+          recoveryKdf: rotation.recoveryKdf,
+          keyGeneration: String(rotation.generation),
+          keyRotationReport: JSON.stringify(report)
+        };
+        for (const setting of MASTER_WRAPPED_SETTINGS) {
+          const wrapped = await getSetting(setting);
+          if (wrapped) {
+            updates[setting] = await encryptString(await decryptString(wrapped, oldKey), newKey);
+          }
+        }
+        if (rotation.encryptedKeyBiometrics) {
+          updates.encryptedKeyBiometrics = rotation.encryptedKeyBiometrics;
+        }
+        await saveSettings(updates, ['keyRotation', ...LEGACY_VERIFIER_SETTINGS]);
+        
+        // The biometric wrapping still holds the old key if it couldn't be renewed
+        if (!rotation.encryptedKeyBiometrics) {
+          await clearBiometricSettings();
+          setBiometricsEnabled(false);
+        }
+        
+        setKeyGeneration(rotation.generation);
+        setPendingKey(null);
+        setKeyRotationProgress(null);
+        setEncryptionKey(newKey);
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Key rotation error:', error);
+        }
+        setKeyRotationProgress(null);
+      }
+    }
+    
+    runKeyRotation(encryptionKey);
+    return () => controller.abort();
+  }, [encryptionKey, keyRotationRequest]);
+
+  // Write scheduled backups while the vault is unlocked. Skipped while a key
+  // rotation runs, since the job rewrites every record; a rotation left pending
+  // is backed up with both keys.
+  useEffect(() => {
+    if (!encryptionKey || keyRotationProgress) return;
+    let running = false;
+
+    async function backupIfDue() {
+      if (running) return;
+      running = true;
+      try {
+        await runAutoBackupIfDue(encryptionKey, getVaultKeys());
+      } catch (error) {
+        console.error('Automatic backup error:', error);
+      } finally {
+        running = false;
+      }
+    }
+
+    backupIfDue();
+    const interval = setInterval(backupIfDue, AUTO_BACKUP_CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [encryptionKey, keyGeneration, pendingKey, keyRotationProgress]);
+
+  // Notify identity documents due for renewal; their expiry dates can only be read while unlocked
+  useEffect(() => {
+    if (!encryptionKey || keyRotationProgress) return;
+
+    function remindIfDue() {
+      runExpiryReminders().catch(error => console.error('Expiry reminder error:', error));
+    }
+
+    remindIfDue();
+    const interval = setInterval(remindIfDue, EXPIRY_CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [encryptionKey, keyRotationProgress]);
+
   // Auto-lock on inactivity
   useEffect(() => {
     if (!isAuthenticated) return;
@@ -104,96 +311,38 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     };
   }, [updateActivity]);
 
-  const setup = async (password: string, secretQuestion: string, secretAnswer: string) => {
-    // Generate salt for key derivation
-    const salt = crypto.getRandomValues(new Uint8Array(16));
-    const saltBase64 = btoa(String.fromCharCode(...salt));
-    
-    // Hash password for verification
-    const passwordHash = await hashPin(password + saltBase64);
-    
-    // Hash secret answer for verification (case-insensitive)
-    const secretAnswerHash = await hashPin(secretAnswer.toLowerCase().trim() + saltBase64);
-    
-    // Generate encryption key
-    const key = await generateKey();
-    const exportedKey = await exportKey(key);
-    
-    // Derive key from password to encrypt the main key
-    const passwordKey = await deriveKeyFromPin(password, salt);
-    const encryptedMainKey = await encryptString(exportedKey, passwordKey);
-    
-    // Also encrypt main key with secret answer for recovery
-    const secretKey = await deriveKeyFromPin(secretAnswer.toLowerCase().trim(), salt);
-    const encryptedMainKeyForRecovery = await encryptString(exportedKey, secretKey);
-    
-    // Save settings
-    await saveSetting('passwordHash', passwordHash);
-    await saveSetting('salt', saltBase64);
-    await saveSetting('encryptedKey', encryptedMainKey);
-    await saveSetting('secretQuestion', secretQuestion);
-    await saveSetting('secretAnswerHash', secretAnswerHash);
-    await saveSetting('encryptedKeyRecovery', encryptedMainKeyForRecovery);
-    
-    // Store password hash for biometrics (encrypted in WebAuthn)
-    if (isBiometricsAvailable) {
-      await saveSetting('biometricsEnabled', 'true');
-    }
-    
-    setEncryptionKey(key);
-    setIsSetup(true);
+  const openVault = async (mainKey: CryptoKey) => {
+    await unlockMetadata(mainKey);
+    setEncryptionKey(mainKey);
     setIsAuthenticated(true);
     updateActivity();
   };
 
+  const setup = async (password: string, secretQuestion: string, secretAnswer: string) => {
+    const key = await createVaultKey(password, secretQuestion, secretAnswer);
+    await openVault(key);
+    setIsSetup(true);
+  };
+
   const getSecretQuestion = async (): Promise<string | undefined> => {
     return await getSetting('secretQuestion');
   };
 
   const verifySecretAnswer = async (answer: string): Promise<boolean> => {
     try {
-      const storedHash = await getSetting('secretAnswerHash');
-      const saltBase64 = await getSetting('salt');
-      
-      if (!storedHash || !saltBase64) return false;
-      
-      const inputHash = await hashPin(answer.toLowerCase().trim() + saltBase64);
-      return inputHash === storedHash;
+      return (await unwrapRecoveryKey(answer)) !== null;
     } catch (error) {
       console.error('Error verifying secret answer:', error);
       return false;
     }
   };
 
-  const resetPasswordWithSecret = async (newPassword: string): Promise<boolean> => {
+  const resetPasswordWithSecret = async (secretAnswer: string, newPassword: string): Promise<boolean> => {
     try {
-      const saltBase64 = await getSetting('salt');
-      const encryptedKeyRecovery = await getSetting('encryptedKeyRecovery');
-      const secretAnswerHash = await getSetting('secretAnswerHash');
-      
-      if (!saltBase64 || !encryptedKeyRecovery) return false;
-      
-      // Generate new salt for new password
-      const newSalt = crypto.getRandomValues(new Uint8Array(16));
-      const newSaltBase64 = btoa(String.fromCharCode(...newSalt));
-      
-      // Hash new password
-      const newPasswordHash = await hashPin(newPassword + newSaltBase64);
-      
-      // We need the old salt to decrypt the recovery key
-      const oldSalt = new Uint8Array(atob(saltBase64).split('').map(c => c.charCodeAt(0)));
-      
-      // Get the secret answer from the stored hash (we can't - need to get the key differently)
-      // Actually we need the user to provide the answer again, or we store the key encrypted with answer
-      // The encryptedKeyRecovery was encrypted with the secret answer
-      
-      // For now, we'll re-encrypt with the new password
-      // This requires verifySecretAnswer to be called first and answer stored temporarily
-      
-      // Save new password hash
-      await saveSetting('passwordHash', newPasswordHash);
-      await saveSetting('salt', newSaltBase64);
+      const mainKey = await resetPasswordWithRecovery(secretAnswer, newPassword);
+      if (!mainKey) return false;
       
+      await openVault(mainKey);
       return true;
     } catch (error) {
       console.error('Error resetting password:', error);
@@ -203,29 +352,21 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const login = async (password: string): Promise<boolean> => {
     try {
-      const storedHash = await getSetting('passwordHash');
-      const saltBase64 = await getSetting('salt');
-      const encryptedMainKey = await getSetting('encryptedKey');
+      const mainKeyExported = await unwrapMainKey(password);
+      if (!mainKeyExported) return false;
       
-      if (!storedHash || !saltBase64 || !encryptedMainKey) {
-        return false;
-      }
+      const mainKey = await importKey(mainKeyExported);
       
-      // Verify password
-      const inputHash = await hashPin(password + saltBase64);
-      if (inputHash !== storedHash) {
-        return false;
+      const kdf = await getKdfParams('kdf');
+      if (kdf && isKdfOutdated(kdf)) {
+        try {
+          await rewrapMainKey(password, mainKeyExported);
+        } catch (error) {
+          console.error('KDF upgrade error:', error);
+        }
       }
       
-      // Decrypt main key
-      const salt = new Uint8Array(atob(saltBase64).split('').map(c => c.charCodeAt(0)));
-      const passwordKey = await deriveKeyFromPin(password, salt);
-      const mainKeyExported = await decryptString(encryptedMainKey, passwordKey);
-      const mainKey = await importKey(mainKeyExported);
-      
-      setEncryptionKey(mainKey);
-      setIsAuthenticated(true);
-      updateActivity();
+      await openVault(mainKey);
       return true;
     } catch (error) {
       console.error('Login error:', error);
@@ -233,44 +374,104 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const loginWithBiometrics = async (): Promise<boolean> => {
+  // Only the wrapping changes: documents stay encrypted with the same main key,
+  // and the biometric wrapping doesn't depend on the password
+  const changePassword = async (oldPassword: string, newPassword: string): Promise<boolean> => {
     try {
-      if (!isBiometricsAvailable || !biometricsEnabled) return false;
+      const mainKeyExported = await unwrapMainKey(oldPassword);
+      if (!mainKeyExported) return false;
+      
+      await rewrapMainKey(newPassword, mainKeyExported);
+      updateActivity();
+      return true;
+    } catch (error) {
+      console.error('Change password error:', error);
+      return false;
+    }
+  };
 
-      const success = await authenticateWithBiometrics();
+  // Generate a new vault key and start re-encrypting every document with it.
+  // Both secrets are needed up front so the new key can be wrapped for unlock
+  // and recovery before the job starts.
+  const rotateMasterKey = async (password: string, secretAnswer: string): Promise<boolean> => {
+    try {
+      if (!encryptionKey || await getKeyRotationState()) return false;
       
-      if (success) {
-        // Get stored encrypted key with biometrics
-        const encryptedKeyBio = await getSetting('encryptedKeyBiometrics');
-        const saltBase64 = await getSetting('salt');
-        
-        if (encryptedKeyBio && saltBase64) {
-          try {
-            // Decrypt with stored biometric key
-            const storedPassword = await getSetting('biometricsPassword');
-            if (storedPassword) {
-              const salt = new Uint8Array(atob(saltBase64).split('').map(c => c.charCodeAt(0)));
-              const passwordKey = await deriveKeyFromPin(storedPassword, salt);
-              const mainKeyExported = await decryptString(encryptedKeyBio, passwordKey);
-              const mainKey = await importKey(mainKeyExported);
-              
-              setEncryptionKey(mainKey);
-              setIsAuthenticated(true);
-              updateActivity();
-              return true;
-            }
-          } catch {
-            console.log('Failed to decrypt with biometrics');
-          }
+      const mainKeyExported = await unwrapMainKey(password);
+      if (!mainKeyExported || !(await unwrapRecoveryKey(secretAnswer))) return false;
+      
+      const newKey = await generateKey();
+      const newKeyExported = await exportKey(newKey);
+      
+      const kdf = createKdfParams();
+      const recoveryKdf = createKdfParams();
+      const rotation: KeyRotationState = {
+        generation: keyGeneration + 1,
+        startedAt: new Date().toISOString(),
+        pendingKey: await encryptString(newKeyExported, encryptionKey),
+        encryptedKey: await wrapKeyWithPassword(newKeyExported, password, kdf),
+        kdf: JSON.stringify(kdf),
+        encryptedKeyRecovery: await wrapKeyWithPassword(newKeyExported, normalizeSecretAnswer(secretAnswer), recoveryKdf),
+        recoveryKdf: JSON.stringify(recoveryKdf)
+      };
+      
+      if (biometricsEnabled) {
+        const credential = await getBiometricCredential();
+        const wrappingKey = credential ? await deriveBiometricKey(credential) : null;
+        if (wrappingKey) {
+          rotation.encryptedKeyBiometrics = await encryptString(newKeyExported, wrappingKey);
         }
-        
-        // Fallback: just authenticate without encryption key
-        setIsAuthenticated(true);
-        updateActivity();
-        return true;
       }
       
+      await saveKeyRotationState(rotation);
+      setKeyRotationRequest(n => n + 1);
+      updateActivity();
+      return true;
+    } catch (error) {
+      console.error('Key rotation start error:', error);
       return false;
+    }
+  };
+
+  // Documents not yet migrated by a running rotation still use the previous key
+  const getDocumentKey = (doc: Document): CryptoKey | null => {
+    if (pendingKey && getDocumentKeyGeneration(doc) === pendingKey.keyGeneration) {
+      return pendingKey.key;
+    }
+    return encryptionKey;
+  };
+
+  // New documents go straight to the newest key
+  const getCurrentKey = (): { key: CryptoKey; keyGeneration: number } | null => {
+    if (pendingKey) return pendingKey;
+    return encryptionKey ? { key: encryptionKey, keyGeneration } : null;
+  };
+
+  // Every key documents may currently be encrypted with
+  const getVaultKeys = (): { key: CryptoKey; keyGeneration: number }[] => {
+    if (!encryptionKey) return [];
+    const keys = [{ key: encryptionKey, keyGeneration }];
+    if (pendingKey) keys.push(pendingKey);
+    return keys;
+  };
+
+  const loginWithBiometrics = async (): Promise<boolean> => {
+    try {
+      if (!isBiometricsAvailable || !biometricsEnabled) return false;
+
+      const credential = await getBiometricCredential();
+      const encryptedKeyBio = await getSetting('encryptedKeyBiometrics');
+      if (!credential || !encryptedKeyBio) return false;
+
+      // Without a PRF secret there is no key to unwrap, so refuse to unlock
+      const wrappingKey = await deriveBiometricKey(credential);
+      if (!wrappingKey) return false;
+
+      const mainKeyExported = await decryptString(encryptedKeyBio, wrappingKey);
+      const mainKey = await importKey(mainKeyExported);
+      
+      await openVault(mainKey);
+      return true;
     } catch (error) {
       console.error('Biometrics error:', error);
       return false;
@@ -280,19 +481,22 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const enableBiometrics = async (password: string): Promise<boolean> => {
     try {
       // Verify password first
-      const storedHash = await getSetting('passwordHash');
-      const saltBase64 = await getSetting('salt');
-      const encryptedMainKey = await getSetting('encryptedKey');
+      const mainKeyExported = await unwrapMainKey(password);
+      if (!mainKeyExported) return false;
       
-      if (!storedHash || !saltBase64 || !encryptedMainKey) return false;
+      const credential = await registerBiometricCredential();
+      if (!credential) return false;
       
-      const inputHash = await hashPin(password + saltBase64);
-      if (inputHash !== storedHash) return false;
+      const wrappingKey = await deriveBiometricKey(credential);
+      if (!wrappingKey) return false;
       
-      // Store password securely for biometric unlock
-      await saveSetting('biometricsPassword', password);
-      await saveSetting('encryptedKeyBiometrics', encryptedMainKey);
-      await saveBiometricsSetting(true);
+      const encryptedKeyBio = await encryptString(mainKeyExported, wrappingKey);
+      await saveSettings({
+        biometricsCredentialId: credential.credentialId,
+        biometricsPrfSalt: credential.prfSalt,
+        encryptedKeyBiometrics: encryptedKeyBio,
+        biometricsEnabled: 'true'
+      });
       
       setBiometricsEnabled(true);
       return true;
@@ -303,20 +507,22 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   const disableBiometrics = async (): Promise<void> => {
-    await saveBiometricsSetting(false);
-    await saveSetting('biometricsPassword', '');
-    await saveSetting('encryptedKeyBiometrics', '');
+    await clearBiometricSettings();
     setBiometricsEnabled(false);
   };
 
   const logout = () => {
+    setMetadataKeys(null);
     setIsAuthenticated(false);
     setEncryptionKey(null);
+    setPendingKey(null);
   };
 
   const resetApp = async () => {
+    setMetadataKeys(null);
     setIsAuthenticated(false);
     setEncryptionKey(null);
+    setPendingKey(null);
     setIsSetup(false);
   };
 
@@ -336,6 +542,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       resetApp,
       verifySecretAnswer,
       resetPasswordWithSecret,
+      changePassword,
+      rotateMasterKey,
+      keyRotationProgress,
+      getDocumentKey,
+      getCurrentKey,
+      getVaultKeys,
       getSecretQuestion,
       enableBiometrics,
       disableBiometrics,
@@ -0,0 +1,25 @@
+import { useState, useCallback } from 'react';
+import { Document } from '@/lib/storage';
+
+// Multi-select over document lists, for sharing several documents at once.
+// Ids are kept in the order they were picked, which is the order they are sent in.
+export function useDocumentSelection() {
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const toggle = useCallback((doc: Document) => {
+    setSelectedIds(ids => ids.includes(doc.id) ? ids.filter(id => id !== doc.id) : [...ids, doc.id]);
+  }, []);
+
+  const start = useCallback(() => {
+    setSelectedIds([]);
+    setIsSelecting(true);
+  }, []);
+
+  const cancel = useCallback(() => {
+    setSelectedIds([]);
+    setIsSelecting(false);
+  }, []);
+
+  return { isSelecting, selectedIds, toggle, start, cancel };
+}
@@ -0,0 +1,79 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { generateKey } from '@/lib/crypto';
+import { base64ToUint8Array } from '@/lib/base64';
+
+// Archives written to the device storage, by path
+const written = vi.hoisted(() => new Map<string, string>());
+
+vi.mock('@capacitor/core', () => ({
+  Capacitor: { isNativePlatform: () => true }
+}));
+
+vi.mock('@capacitor/filesystem', () => ({
+  Directory: { Documents: 'DOCUMENTS', ExternalStorage: 'EXTERNAL_STORAGE' },
+  Filesystem: {
+    requestPermissions: async () => ({}),
+    writeFile: async ({ path, data }: { path: string; data: string }) => {
+      written.set(path, data);
+    },
+    appendFile: async ({ path, data }: { path: string; data: string }) => {
+      written.set(path, written.get(path) + data);
+    },
+    readdir: async () => ({ files: [] }),
+    deleteFile: async () => {}
+  }
+}));
+
+// Each test gets an empty IndexedDB and fresh modules, so storage's cached connection doesn't leak
+beforeEach(() => {
+  globalThis.indexedDB = new IDBFactory();
+  vi.resetModules();
+  written.clear();
+});
+
+async function loadModules() {
+  return {
+    storage: await import('@/lib/storage'),
+    backup: await import('@/lib/backup'),
+    autoBackup: await import('@/lib/autoBackup'),
+    documentCrypto: await import('@/lib/documentCrypto'),
+    vaultKey: await import('@/lib/vaultKey')
+  };
+}
+
+describe('scheduled backups', () => {
+  it('backs up documents of both key generations while a rotation is pending', async () => {
+    const { storage, backup, autoBackup, documentCrypto, vaultKey } = await loadModules();
+    const masterKey = await generateKey();
+    const pendingKey = await generateKey();
+    await vaultKey.unlockMetadata(masterKey);
+
+    // One document still under the current key, one already moved to the new one
+    for (const [id, key, keyGeneration] of [['doc-1', masterKey, 0], ['doc-2', pendingKey, 1]] as const) {
+      await storage.saveDocument({
+        id,
+        name: id,
+        category: 'identity',
+        type: 'image',
+        mimeType: 'text/plain',
+        size: 4,
+        ...await documentCrypto.encryptDocumentFile(id, new Blob([id]), key),
+        keyGeneration,
+        createdAt: new Date('2025-01-01'),
+        updatedAt: new Date('2025-01-01')
+      });
+    }
+
+    const config = { frequency: 'daily' as const, documentThreshold: 10, keep: 3 };
+    await autoBackup.enableAutoBackup(config, 'Phrase-de-passe1', masterKey);
+    const vaultKeys = [{ key: masterKey, keyGeneration: 0 }, { key: pendingKey, keyGeneration: 1 }];
+    expect(await autoBackup.runAutoBackupIfDue(masterKey, vaultKeys)).toBe(true);
+
+    expect(written.size).toBe(1);
+    const [data] = written.values();
+    const opened = await backup.openBackup(new Blob([base64ToUint8Array(data)]), 'Phrase-de-passe1');
+    expect(opened.manifest.documents.map(doc => doc.id).sort()).toEqual(['doc-1', 'doc-2']);
+  });
+});
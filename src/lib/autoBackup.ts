@@ -0,0 +1,234 @@
+// Scheduled backups: while the vault is unlocked, a .docsafe archive is written
+// whenever one is due, to a folder picked by the user (File System Access API)
+// or, in the Android app, to the device storage. Only the latest few are kept.
+// The backup passphrase is asked once: the key derived from it is stored
+// wrapped by the master key, like the metadata key.
+import { Capacitor } from '@capacitor/core';
+import { Filesystem, Directory } from '@capacitor/filesystem';
+import {
+  getSetting,
+  saveSetting,
+  saveSettings,
+  countDocumentsCreatedSince,
+  saveDirectoryHandle,
+  getDirectoryHandle,
+  deleteDirectoryHandle
+} from '@/lib/storage';
+import { encryptString, decryptString, exportKey, importKey, KdfParams } from '@/lib/crypto';
+import { createBackup, deriveBackupKey, BackupKey, VaultKey, BACKUP_EXTENSION } from '@/lib/backup';
+import { uint8ArrayToBase64 } from '@/lib/base64';
+
+// File System Access API, not in the TypeScript DOM typings yet
+declare global {
+  interface Window {
+    showDirectoryPicker?: (options?: { mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+  }
+  interface FileSystemDirectoryHandle {
+    keys(): AsyncIterableIterator<string>;
+    queryPermission(descriptor: { mode: 'read' | 'readwrite' }): Promise<PermissionState>;
+    requestPermission(descriptor: { mode: 'read' | 'readwrite' }): Promise<PermissionState>;
+  }
+}
+
+export type BackupFrequency = 'daily' | 'weekly' | 'documents';
+
+export type DeviceBackupDirectory = Directory.Documents | Directory.ExternalStorage;
+
+export interface AutoBackupConfig {
+  frequency: BackupFrequency;
+  // With 'documents': back up once this many documents were added
+  documentThreshold: number;
+  // Number of archives kept in the backup folder
+  keep: number;
+  // Android app only; on the web the folder is a stored directory handle
+  deviceDirectory?: DeviceBackupDirectory;
+}
+
+const AUTO_BACKUP_FOLDER = 'DocSafe';
+const AUTO_BACKUP_PREFIX = 'docsafe-auto-';
+const DIRECTORY_HANDLE = 'autoBackup';
+// The native bridge only takes base64: archives are written in pieces of this size (a multiple of 3)
+const DEVICE_WRITE_SIZE = 3 * 256 * 1024;
+const DAY = 24 * 60 * 60 * 1000;
+
+// Past this age the last backup is reported as stale
+const STALE_AFTER_DAYS: Record<BackupFrequency | 'manual', number> = {
+  daily: 3,
+  weekly: 10,
+  documents: 30,
+  manual: 30
+};
+
+export function isDeviceBackupTarget(): boolean {
+  return Capacitor.isNativePlatform();
+}
+
+export function isFolderBackupSupported(): boolean {
+  return isDeviceBackupTarget() || typeof window.showDirectoryPicker === 'function';
+}
+
+export async function getAutoBackupConfig(): Promise<AutoBackupConfig | null> {
+  const value = await getSetting('autoBackup');
+  return value ? JSON.parse(value) : null;
+}
+
+export async function getLastBackupAt(): Promise<Date | null> {
+  const value = await getSetting('lastBackupAt');
+  return value ? new Date(value) : null;
+}
+
+// Called after every successful backup, manual ones included
+export async function recordBackup(date = new Date()): Promise<void> {
+  await saveSetting('lastBackupAt', date.toISOString());
+}
+
+export function isBackupStale(lastBackupAt: Date | null, config: AutoBackupConfig | null, now = new Date()): boolean {
+  if (!lastBackupAt) return true;
+  const days = STALE_AFTER_DAYS[config?.frequency ?? 'manual'];
+  return now.getTime() - lastBackupAt.getTime() > days * DAY;
+}
+
+// Ask for a folder on the web; must run from a user gesture
+export async function chooseBackupFolder(): Promise<string | null> {
+  if (!window.showDirectoryPicker) return null;
+  const handle = await window.showDirectoryPicker({ mode: 'readwrite' });
+  await saveDirectoryHandle(DIRECTORY_HANDLE, handle);
+  return handle.name;
+}
+
+export async function getBackupFolderName(): Promise<string | null> {
+  if (isDeviceBackupTarget()) return AUTO_BACKUP_FOLDER;
+  return (await getDirectoryHandle(DIRECTORY_HANDLE))?.name ?? null;
+}
+
+// Browsers drop folder access between sessions; it can only be granted back from a user gesture
+export async function hasBackupFolderAccess(): Promise<boolean> {
+  if (isDeviceBackupTarget()) return true;
+  const handle = await getDirectoryHandle(DIRECTORY_HANDLE);
+  return !!handle && await handle.queryPermission({ mode: 'readwrite' }) === 'granted';
+}
+
+export async function requestBackupFolderAccess(): Promise<boolean> {
+  const handle = await getDirectoryHandle(DIRECTORY_HANDLE);
+  return !!handle && await handle.requestPermission({ mode: 'readwrite' }) === 'granted';
+}
+
+export async function enableAutoBackup(config: AutoBackupConfig, passphrase: string, masterKey: CryptoKey): Promise<void> {
+  if (isDeviceBackupTarget()) {
+    await Filesystem.requestPermissions();
+  }
+  const backupKey = await deriveBackupKey(passphrase);
+  const autoBackupKey = await encryptString(
+    JSON.stringify({ kdf: backupKey.kdf, key: await exportKey(backupKey.key) }),
+    masterKey
+  );
+  await saveSettings({ autoBackup: JSON.stringify(config), autoBackupKey });
+}
+
+export async function updateAutoBackupConfig(config: AutoBackupConfig): Promise<void> {
+  await saveSetting('autoBackup', JSON.stringify(config));
+}
+
+export async function disableAutoBackup(): Promise<void> {
+  await saveSettings({}, ['autoBackup', 'autoBackupKey']);
+  await deleteDirectoryHandle(DIRECTORY_HANDLE);
+}
+
+async function getAutoBackupKey(masterKey: CryptoKey): Promise<BackupKey | null> {
+  const value = await getSetting('autoBackupKey');
+  if (!value) return null;
+  const { kdf, key } = JSON.parse(await decryptString(value, masterKey)) as { kdf: KdfParams; key: string };
+  return { kdf, key: await importKey(key) };
+}
+
+export async function isAutoBackupDue(config: AutoBackupConfig, now = new Date()): Promise<boolean> {
+  const lastBackupAt = await getLastBackupAt();
+  if (!lastBackupAt) return true;
+
+  switch (config.frequency) {
+    case 'daily':
+      return now.getTime() - lastBackupAt.getTime() >= DAY;
+    case 'weekly':
+      return now.getTime() - lastBackupAt.getTime() >= 7 * DAY;
+    case 'documents':
+      return await countDocumentsCreatedSince(lastBackupAt) >= config.documentThreshold;
+  }
+}
+
+function autoBackupFileName(date: Date): string {
+  // Sortable, and safe on every file system
+  return `${AUTO_BACKUP_PREFIX}${date.toISOString().replace(/[:.]/g, '-')}${BACKUP_EXTENSION}`;
+}
+
+function isAutoBackupFile(name: string): boolean {
+  return name.startsWith(AUTO_BACKUP_PREFIX) && name.endsWith(BACKUP_EXTENSION);
+}
+
+// Oldest archives first
+function archivesToDelete(names: string[], keep: number): string[] {
+  const archives = names.filter(isAutoBackupFile).sort();
+  return archives.slice(0, Math.max(0, archives.length - keep));
+}
+
+async function writeToFolder(handle: FileSystemDirectoryHandle, name: string, archive: Blob, keep: number): Promise<void> {
+  const fileHandle = await handle.getFileHandle(name, { create: true });
+  const writable = await fileHandle.createWritable();
+  await writable.write(archive);
+  await writable.close();
+
+  const names: string[] = [];
+  for await (const entry of handle.keys()) {
+    names.push(entry);
+  }
+  for (const old of archivesToDelete(names, keep)) {
+    await handle.removeEntry(old);
+  }
+}
+
+async function writeToDevice(directory: DeviceBackupDirectory, name: string, archive: Blob, keep: number): Promise<void> {
+  const path = `${AUTO_BACKUP_FOLDER}/${name}`;
+  for (let offset = 0; offset < archive.size || offset === 0; offset += DEVICE_WRITE_SIZE) {
+    const piece = new Uint8Array(await archive.slice(offset, offset + DEVICE_WRITE_SIZE).arrayBuffer());
+    const data = uint8ArrayToBase64(piece);
+    if (offset === 0) {
+      await Filesystem.writeFile({ path, data, directory, recursive: true });
+    } else {
+      await Filesystem.appendFile({ path, data, directory });
+    }
+  }
+
+  const { files } = await Filesystem.readdir({ path: AUTO_BACKUP_FOLDER, directory });
+  for (const old of archivesToDelete(files.map(file => file.name), keep)) {
+    await Filesystem.deleteFile({ path: `${AUTO_BACKUP_FOLDER}/${old}`, directory });
+  }
+}
+
+/**
+ * Write a backup if one is due. Returns false when nothing was written:
+ * not configured, not due yet, or the folder needs to be granted again.
+ */
+export async function runAutoBackupIfDue(masterKey: CryptoKey, vaultKeys: VaultKey[]): Promise<boolean> {
+  const config = await getAutoBackupConfig();
+  if (!config || !(await isAutoBackupDue(config))) return false;
+
+  const backupKey = await getAutoBackupKey(masterKey);
+  if (!backupKey) return false;
+
+  let handle: FileSystemDirectoryHandle | undefined;
+  if (!isDeviceBackupTarget()) {
+    handle = await getDirectoryHandle(DIRECTORY_HANDLE);
+    if (!handle || await handle.queryPermission({ mode: 'readwrite' }) !== 'granted') return false;
+  }
+
+  const now = new Date();
+  const archive = await createBackup(backupKey, vaultKeys);
+  const name = autoBackupFileName(now);
+  if (handle) {
+    await writeToFolder(handle, name, archive, config.keep);
+  } else {
+    await writeToDevice(config.deviceDirectory ?? Directory.Documents, name, archive, config.keep);
+  }
+
+  await recordBackup(now);
+  return true;
+}
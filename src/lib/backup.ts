@@ -0,0 +1,341 @@
+// Full-vault backups. A .docsafe archive is a small header in clear followed by
+// one segmented ciphertext (see streamCrypto) holding a JSON manifest and the
+// document payloads as stored, still encrypted under their data keys. The vault
+// keys travel inside the manifest, so the archive opens with the backup
+// passphrase alone, whatever the unlock password is at that point.
+import {
+  getAllDocuments,
+  getAllFolders,
+  getAllContacts,
+  getShareLog,
+  getSetting,
+  getDocumentChunk,
+  Document,
+  Folder,
+  Contact,
+  ShareLogEntry
+} from '@/lib/storage';
+import {
+  generateKey,
+  exportKey,
+  importKey,
+  encryptString,
+  decryptString,
+  decryptData,
+  createKdfParams,
+  deriveKeyFromPassword,
+  isSupportedKdfParams,
+  KdfParams
+} from '@/lib/crypto';
+import { base64ToUint8Array, uint8ArrayToBase64 } from '@/lib/base64';
+import { createStreamHeader, encryptSegment, decryptSegment, StreamHeader } from '@/lib/streamCrypto';
+import { getDataKey } from '@/lib/documentCrypto';
+
+export const BACKUP_FORMAT = 'docsafe-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+export const BACKUP_EXTENSION = '.docsafe';
+export const BACKUP_MIME_TYPE = 'application/octet-stream';
+const BACKUP_MAGIC = 'DOCSAFE\n';
+const GCM_TAG_LENGTH = 16;
+
+// Settings worth carrying over; the vault's own key wrappings and KDF records never
+// leave the device, nor does state kept per device (reminders sent, backup folder…)
+export const BACKUP_SETTINGS = ['qrDuration', 'identityPublicKey', 'theme', 'expiryReminders'];
+
+// Settings encrypted with the master key. They travel decrypted inside the
+// archive and are encrypted again under the key of the vault they are restored to.
+export const BACKUP_WRAPPED_SETTINGS = ['encryptedIdentityKey', 'encryptedWatermarkPresets'];
+
+export interface BackupKey {
+  key: CryptoKey;
+  kdf: KdfParams;
+}
+
+export interface VaultKey {
+  key: CryptoKey;
+  keyGeneration: number;
+}
+
+export interface BackupHeader {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  kdf: KdfParams;
+  // Random archive key, wrapped by the passphrase key
+  wrappedKey: string;
+  iv: string;
+  stream: StreamHeader;
+  // Size of the decrypted body
+  size: number;
+}
+
+export interface BackupDocument extends Omit<Document, 'encryptedData' | 'createdAt' | 'updatedAt'> {
+  createdAt: string;
+  updatedAt: string;
+  // Where the stored payload sits after the manifest: one length per segment
+  payload: { offset: number; lengths: number[] };
+}
+
+export interface BackupFolder extends Omit<Folder, 'createdAt'> {
+  createdAt: string;
+}
+
+export interface BackupContact extends Omit<Contact, 'createdAt'> {
+  createdAt: string;
+}
+
+export interface BackupShareLogEntry extends Omit<ShareLogEntry, 'sharedAt'> {
+  sharedAt: string;
+}
+
+export interface BackupManifest {
+  createdAt: string;
+  masterKeys: { keyGeneration: number; key: string }[];
+  documents: BackupDocument[];
+  folders: BackupFolder[];
+  settings: Record<string, string>;
+  // Missing from archives written before contacts and the share log were backed up
+  wrappedSettings?: Record<string, string>;
+  contacts?: BackupContact[];
+  shareLog?: BackupShareLogEntry[];
+}
+
+// Why an archive couldn't be opened
+export class BackupError extends Error {
+  constructor(public reason: 'format' | 'version' | 'passphrase' | 'integrity', message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+export interface OpenedBackup {
+  header: BackupHeader;
+  manifest: BackupManifest;
+  // Decrypted body; document payload offsets start at `payloadStart`
+  body: Blob;
+  payloadStart: number;
+}
+
+export async function deriveBackupKey(passphrase: string, kdf: KdfParams = createKdfParams()): Promise<BackupKey> {
+  return { key: await deriveKeyFromPassword(passphrase, kdf), kdf };
+}
+
+export function backupFileName(date = new Date()): string {
+  return `docsafe-${date.toISOString().slice(0, 10)}${BACKUP_EXTENSION}`;
+}
+
+function uint32(value: number): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+}
+
+async function readStoredPayload(doc: Document): Promise<ArrayBuffer[]> {
+  if (!doc.stream) return [doc.encryptedData];
+
+  const segments: ArrayBuffer[] = [];
+  for (let index = 0; index < doc.stream.segmentCount; index++) {
+    const chunk = await getDocumentChunk(doc.id, index);
+    if (!chunk) {
+      throw new Error(`Missing segment ${index} of document ${doc.id}`);
+    }
+    segments.push(chunk.data);
+  }
+  return segments;
+}
+
+/**
+ * Build an encrypted archive of every document, folder, contact, share log entry
+ * and portable setting.
+ * `vaultKeys` must cover every key generation in use (two during a rotation),
+ * starting with the current vault key, which encrypts settings.
+ */
+export async function createBackup(backupKey: BackupKey, vaultKeys: VaultKey[]): Promise<Blob> {
+  const createdAt = new Date().toISOString();
+  const payloads: ArrayBuffer[] = [];
+  const documents: BackupDocument[] = [];
+  let offset = 0;
+
+  for (const doc of await getAllDocuments()) {
+    if (!vaultKeys.some(({ keyGeneration }) => keyGeneration === (doc.keyGeneration ?? 0))) {
+      throw new Error(`No vault key for document ${doc.id}`);
+    }
+    const parts = await readStoredPayload(doc);
+    const { encryptedData, ...fields } = doc;
+    documents.push({
+      ...fields,
+      createdAt: doc.createdAt.toISOString(),
+      updatedAt: doc.updatedAt.toISOString(),
+      payload: { offset, lengths: parts.map(part => part.byteLength) }
+    });
+    for (const part of parts) {
+      payloads.push(part);
+      offset += part.byteLength;
+    }
+  }
+
+  const settings: Record<string, string> = {};
+  for (const key of BACKUP_SETTINGS) {
+    const value = await getSetting(key);
+    if (value !== undefined) settings[key] = value;
+  }
+  const wrappedSettings: Record<string, string> = {};
+  for (const key of BACKUP_WRAPPED_SETTINGS) {
+    const value = await getSetting(key);
+    if (value) wrappedSettings[key] = await decryptString(value, vaultKeys[0].key);
+  }
+
+  const manifest: BackupManifest = {
+    createdAt,
+    masterKeys: await Promise.all(vaultKeys.map(async ({ key, keyGeneration }) => ({
+      keyGeneration,
+      key: await exportKey(key)
+    }))),
+    documents,
+    folders: (await getAllFolders()).map(folder => ({ ...folder, createdAt: new Date(folder.createdAt).toISOString() })),
+    settings,
+    wrappedSettings,
+    contacts: (await getAllContacts()).map(contact => ({ ...contact, createdAt: new Date(contact.createdAt).toISOString() })),
+    shareLog: (await getShareLog()).map(entry => ({ ...entry, sharedAt: new Date(entry.sharedAt).toISOString() }))
+  };
+
+  const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest));
+  const body = new Blob([uint32(manifestBytes.length), manifestBytes, ...payloads]);
+
+  // Encrypt the body one segment at a time under a fresh archive key
+  const archiveKey = await generateKey();
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const stream = createStreamHeader(body.size);
+  const segments: ArrayBuffer[] = [];
+  for (let index = 0; index < stream.segmentCount; index++) {
+    const start = index * stream.segmentSize;
+    const segment = await body.slice(start, start + stream.segmentSize).arrayBuffer();
+    segments.push(await encryptSegment(segment, archiveKey, iv, stream, index));
+  }
+
+  const header: BackupHeader = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_FORMAT_VERSION,
+    createdAt,
+    kdf: backupKey.kdf,
+    wrappedKey: await encryptString(await exportKey(archiveKey), backupKey.key),
+    iv: uint8ArrayToBase64(iv),
+    stream,
+    size: body.size
+  };
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+
+  return new Blob(
+    [new TextEncoder().encode(BACKUP_MAGIC), uint32(headerBytes.length), headerBytes, ...segments],
+    { type: BACKUP_MIME_TYPE }
+  );
+}
+
+async function readUint32(blob: Blob, offset: number): Promise<number> {
+  const bytes = await blob.slice(offset, offset + 4).arrayBuffer();
+  if (bytes.byteLength < 4) {
+    throw new BackupError('format', 'Truncated archive');
+  }
+  return new DataView(bytes).getUint32(0);
+}
+
+// Check the magic and format version, without needing the passphrase
+export async function readBackupHeader(file: Blob): Promise<{ header: BackupHeader; dataStart: number }> {
+  const magic = new TextDecoder().decode(await file.slice(0, BACKUP_MAGIC.length).arrayBuffer());
+  if (magic !== BACKUP_MAGIC) {
+    throw new BackupError('format', 'Not a DocSafe backup');
+  }
+
+  const headerStart = BACKUP_MAGIC.length + 4;
+  const dataStart = headerStart + await readUint32(file, BACKUP_MAGIC.length);
+  let header: BackupHeader;
+  try {
+    header = JSON.parse(new TextDecoder().decode(await file.slice(headerStart, dataStart).arrayBuffer()));
+  } catch {
+    throw new BackupError('format', 'Unreadable archive header');
+  }
+
+  if (header.format !== BACKUP_FORMAT) {
+    throw new BackupError('format', `Unknown archive format: ${header.format}`);
+  }
+  if (header.version !== BACKUP_FORMAT_VERSION) {
+    throw new BackupError('version', `Unsupported archive version: ${header.version}`);
+  }
+  if (!isSupportedKdfParams(header.kdf)) {
+    throw new BackupError('format', 'Unsupported key derivation parameters');
+  }
+  return { header, dataStart };
+}
+
+/**
+ * Decrypt an archive with its passphrase. Every segment is authenticated, and
+ * the archive must end exactly after the last one, so any truncation or
+ * modification is reported as an integrity error.
+ */
+export async function openBackup(file: Blob, passphrase: string): Promise<OpenedBackup> {
+  const { header, dataStart } = await readBackupHeader(file);
+
+  const { key } = await deriveBackupKey(passphrase, header.kdf);
+  let archiveKey: CryptoKey;
+  try {
+    archiveKey = await importKey(await decryptString(header.wrappedKey, key));
+  } catch {
+    throw new BackupError('passphrase', 'Wrong backup passphrase');
+  }
+
+  const iv = base64ToUint8Array(header.iv);
+  const { segmentSize, segmentCount } = header.stream;
+  const segments: ArrayBuffer[] = [];
+  let position = dataStart;
+  try {
+    for (let index = 0; index < segmentCount; index++) {
+      const plainLength = Math.max(0, Math.min(segmentSize, header.size - index * segmentSize));
+      const end = position + plainLength + GCM_TAG_LENGTH;
+      const encrypted = await file.slice(position, end).arrayBuffer();
+      segments.push(await decryptSegment(encrypted, archiveKey, iv, header.stream, index));
+      position = end;
+    }
+  } catch {
+    throw new BackupError('integrity', 'Archive content was modified or truncated');
+  }
+  if (position !== file.size) {
+    throw new BackupError('integrity', 'Unexpected data after the archive content');
+  }
+
+  const body = new Blob(segments);
+  const manifestLength = await readUint32(body, 0);
+  const payloadStart = 4 + manifestLength;
+  let manifest: BackupManifest;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(await body.slice(4, payloadStart).arrayBuffer()));
+  } catch {
+    throw new BackupError('integrity', 'Unreadable archive manifest');
+  }
+  // The header is only authenticated through the manifest
+  if (manifest.createdAt !== header.createdAt) {
+    throw new BackupError('integrity', 'Archive header does not match its content');
+  }
+
+  return { header, manifest, body, payloadStart };
+}
+
+// Decrypt one document of an opened archive
+export async function readBackupDocument(backup: OpenedBackup, entry: BackupDocument): Promise<Blob> {
+  const masterKey = backup.manifest.masterKeys.find(key => key.keyGeneration === (entry.keyGeneration ?? 0));
+  if (!masterKey) {
+    throw new BackupError('integrity', `No key for document ${entry.id}`);
+  }
+  const dataKey = await getDataKey(entry, await importKey(masterKey.key));
+  const iv = base64ToUint8Array(entry.iv);
+
+  const parts: ArrayBuffer[] = [];
+  let position = backup.payloadStart + entry.payload.offset;
+  for (const [index, length] of entry.payload.lengths.entries()) {
+    const encrypted = await backup.body.slice(position, position + length).arrayBuffer();
+    parts.push(entry.stream
+      ? await decryptSegment(encrypted, dataKey, iv, entry.stream, index)
+      : await decryptData(encrypted, dataKey, iv));
+    position += length;
+  }
+  return new Blob(parts, { type: entry.mimeType });
+}
@@ -54,3 +54,18 @@ export function base64ToUint8Array(base64: string): Uint8Array {
   }
   return bytes;
 }
+
+/**
+ * URL-safe base64 without padding, for values carried in links
+ */
+export function uint8ArrayToBase64Url(bytes: Uint8Array): string {
+  return uint8ArrayToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Convert URL-safe base64 (padded or not) to Uint8Array
+ */
+export function base64UrlToUint8Array(base64Url: string): Uint8Array {
+  const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/');
+  return base64ToUint8Array(base64 + '='.repeat((4 - base64.length % 4) % 4));
+}
@@ -1,4 +1,7 @@
 // Biometric authentication utilities using WebAuthn
+// The vault key is wrapped with a secret from the WebAuthn PRF extension,
+// so no password is ever stored for biometric unlock.
+import { base64ToUint8Array, uint8ArrayToBase64 } from '@/lib/base64';
 
 export interface BiometricResult {
   available: boolean;
@@ -51,40 +54,124 @@ async function detectBiometryType(): Promise<'fingerprint' | 'faceId' | 'none'>
   return 'fingerprint';
 }
 
-export async function authenticateWithBiometrics(): Promise<boolean> {
+export interface BiometricCredential {
+  credentialId: string;
+  prfSalt: string;
+}
+
+/**
+ * Register a platform credential with the PRF extension.
+ * Returns null when the authenticator can't produce a PRF secret,
+ * in which case biometric unlock must not be offered.
+ */
+export async function registerBiometricCredential(): Promise<BiometricCredential | null> {
   try {
     if (!window.PublicKeyCredential) {
       console.log('WebAuthn not available');
-      return false;
+      return null;
     }
 
     const available = await PublicKeyCredential.isUserVerifyingPlatformAuthenticatorAvailable();
     if (!available) {
       console.log('Platform authenticator not available');
-      return false;
+      return null;
+    }
+
+    const credential = await navigator.credentials.create({
+      publicKey: {
+        challenge: crypto.getRandomValues(new Uint8Array(32)),
+        rp: { name: 'DocSafe', id: window.location.hostname },
+        user: {
+          id: crypto.getRandomValues(new Uint8Array(16)),
+          name: 'docsafe',
+          displayName: 'DocSafe'
+        },
+        pubKeyCredParams: [
+          { type: 'public-key', alg: -7 },
+          { type: 'public-key', alg: -257 }
+        ],
+        authenticatorSelection: {
+          authenticatorAttachment: 'platform',
+          userVerification: 'required',
+          residentKey: 'discouraged'
+        },
+        timeout: 60000,
+        extensions: { prf: {} }
+      }
+    }) as PublicKeyCredential | null;
+
+    if (!credential || !credential.getClientExtensionResults().prf?.enabled) {
+      console.log('PRF extension not supported by this authenticator');
+      return null;
+    }
+
+    const prfSalt = crypto.getRandomValues(new Uint8Array(32));
+    return {
+      credentialId: uint8ArrayToBase64(new Uint8Array(credential.rawId)),
+      prfSalt: uint8ArrayToBase64(prfSalt)
+    };
+  } catch (error) {
+    console.log('Biometric registration error:', error);
+    return null;
+  }
+}
+
+/**
+ * Ask the user to verify with the platform authenticator and derive
+ * the AES key that wraps the vault key from the credential's PRF output.
+ */
+export async function deriveBiometricKey(credential: BiometricCredential): Promise<CryptoKey | null> {
+  try {
+    if (!window.PublicKeyCredential) {
+      console.log('WebAuthn not available');
+      return null;
     }
 
-    const challenge = crypto.getRandomValues(new Uint8Array(32));
-    
-    // Create credential options for authentication
-    const credential = await navigator.credentials.get({
+    const prfSalt = base64ToUint8Array(credential.prfSalt);
+    const assertion = await navigator.credentials.get({
       publicKey: {
-        challenge,
+        challenge: crypto.getRandomValues(new Uint8Array(32)),
         timeout: 60000,
         userVerification: 'required',
         rpId: window.location.hostname,
+        allowCredentials: [{
+          type: 'public-key',
+          id: base64ToUint8Array(credential.credentialId) as Uint8Array<ArrayBuffer>,
+          transports: ['internal']
+        }],
+        extensions: {
+          prf: { eval: { first: prfSalt as Uint8Array<ArrayBuffer> } }
+        }
       }
-    });
-    
-    return !!credential;
-  } catch (error: any) {
+    }) as PublicKeyCredential | null;
+
+    const secret = assertion?.getClientExtensionResults().prf?.results?.first;
+    if (!secret) {
+      console.log('No PRF output returned by the authenticator');
+      return null;
+    }
+
+    const baseKey = await crypto.subtle.importKey('raw', secret as BufferSource, 'HKDF', false, ['deriveKey']);
+    return await crypto.subtle.deriveKey(
+      {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: prfSalt as Uint8Array<ArrayBuffer>,
+        info: new TextEncoder().encode('docsafe-biometric-wrap')
+      },
+      baseKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  } catch (error) {
     // User cancelled or biometric failed
-    if (error.name === 'NotAllowedError') {
+    if ((error as Error).name === 'NotAllowedError') {
       console.log('Biometric authentication cancelled or failed');
     } else {
       console.log('Biometric authentication error:', error);
     }
-    return false;
+    return null;
   }
 }
 
@@ -99,6 +186,14 @@ export async function isBiometricsEnabled(): Promise<boolean> {
   return value === 'true';
 }
 
+export async function getBiometricCredential(): Promise<BiometricCredential | null> {
+  const { getSetting } = await import('@/lib/storage');
+  const credentialId = await getSetting('biometricsCredentialId');
+  const prfSalt = await getSetting('biometricsPrfSalt');
+  if (!credentialId || !prfSalt) return null;
+  return { credentialId, prfSalt };
+}
+
 /**
  * Get human-readable biometric type label
  */
@@ -4,6 +4,14 @@
 const ALGORITHM = 'AES-GCM';
 const KEY_LENGTH = 256;
 
+export const KDF_VERSION = 2;
+const KDF_ITERATIONS = 600000;
+const LEGACY_KDF_ITERATIONS = 100000;
+// Bounds for parameters read from files, so that a crafted header can neither
+// weaken the derivation nor make it run for hours
+const MIN_KDF_ITERATIONS = LEGACY_KDF_ITERATIONS;
+const MAX_KDF_ITERATIONS = 2000000;
+
 // Generate a random encryption key
 export async function generateKey(): Promise<CryptoKey> {
   return await crypto.subtle.generateKey(
@@ -94,16 +102,8 @@ function base64ToArrayBuffer(base64: string): ArrayBuffer {
   return bytes.buffer;
 }
 
-// Hash PIN for verification (never store plain PIN)
-export async function hashPin(pin: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(pin);
-  const hash = await crypto.subtle.digest('SHA-256', data);
-  return arrayBufferToBase64(hash);
-}
-
 // Derive key from PIN (for key encryption)
-export async function deriveKeyFromPin(pin: string, salt: Uint8Array): Promise<CryptoKey> {
+export async function deriveKeyFromPin(pin: string, salt: Uint8Array, iterations: number = LEGACY_KDF_ITERATIONS): Promise<CryptoKey> {
   const encoder = new TextEncoder();
   const pinData = encoder.encode(pin);
   
@@ -119,7 +119,7 @@ export async function deriveKeyFromPin(pin: string, salt: Uint8Array): Promise<C
     {
       name: 'PBKDF2',
       salt: salt as Uint8Array<ArrayBuffer>,
-      iterations: 100000,
+      iterations,
       hash: 'SHA-256'
     },
     baseKey,
@@ -128,3 +128,75 @@ export async function deriveKeyFromPin(pin: string, salt: Uint8Array): Promise<C
     ['encrypt', 'decrypt']
   );
 }
+
+// Versioned key-derivation record, stored as JSON next to each wrapped key
+export interface KdfParams {
+  version: number;
+  algorithm: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string;
+}
+
+// Fresh parameters with a new random salt
+export function createKdfParams(): KdfParams {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return {
+    version: KDF_VERSION,
+    algorithm: 'PBKDF2-SHA256',
+    iterations: KDF_ITERATIONS,
+    salt: arrayBufferToBase64(salt.buffer as ArrayBuffer)
+  };
+}
+
+// Parameters implied by vaults created before KDF records existed
+export function legacyKdfParams(salt: string): KdfParams {
+  return {
+    version: 1,
+    algorithm: 'PBKDF2-SHA256',
+    iterations: LEGACY_KDF_ITERATIONS,
+    salt
+  };
+}
+
+function isIntegerBetween(value: unknown, min: number, max: number): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+// Whether parameters read from a file are ones DocSafe could have written
+export function isSupportedKdfParams(params: unknown): params is KdfParams {
+  if (!params || typeof params !== 'object') return false;
+  const { version, algorithm, iterations, salt } = params as Record<string, unknown>;
+  return isIntegerBetween(version, 1, KDF_VERSION) &&
+    algorithm === 'PBKDF2-SHA256' &&
+    isIntegerBetween(iterations, MIN_KDF_ITERATIONS, MAX_KDF_ITERATIONS) &&
+    typeof salt === 'string' && salt.length > 0;
+}
+
+export function isKdfOutdated(params: KdfParams): boolean {
+  return params.version < KDF_VERSION || params.iterations < KDF_ITERATIONS;
+}
+
+export async function deriveKeyFromPassword(password: string, params: KdfParams): Promise<CryptoKey> {
+  if (params.algorithm !== 'PBKDF2-SHA256') {
+    throw new Error(`Unsupported KDF algorithm: ${params.algorithm}`);
+  }
+  const salt = new Uint8Array(base64ToArrayBuffer(params.salt));
+  return await deriveKeyFromPin(password, salt, params.iterations);
+}
+
+// Wrap an exported key under a password
+export async function wrapKeyWithPassword(exportedKey: string, password: string, params: KdfParams): Promise<string> {
+  const passwordKey = await deriveKeyFromPassword(password, params);
+  return await encryptString(exportedKey, passwordKey);
+}
+
+// Unwrap an exported key; the GCM tag check doubles as password verification,
+// so a wrong password returns null instead of throwing
+export async function unwrapKeyWithPassword(wrappedKey: string, password: string, params: KdfParams): Promise<string | null> {
+  const passwordKey = await deriveKeyFromPassword(password, params);
+  try {
+    return await decryptString(wrappedKey, passwordKey);
+  } catch {
+    return null;
+  }
+}
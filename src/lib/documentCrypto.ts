@@ -0,0 +1,187 @@
+// Envelope encryption for documents: each payload is encrypted with its own
+// random data key, and only that small key is wrapped by the master key.
+// Rotating the master key, sharing one document or crypto-shredding a record
+// then only touches the wrapped data key.
+import {
+  getDocument,
+  getDocumentIdsByEncryption,
+  replaceDocumentPayload,
+  saveDocumentChunk,
+  getDocumentChunk,
+  deleteDocumentChunks,
+  Document,
+  DocumentPayload
+} from '@/lib/storage';
+import { generateKey, exportKey, importKey, encryptData, decryptData, encryptString, decryptString } from '@/lib/crypto';
+import { base64ToUint8Array, uint8ArrayToBase64 } from '@/lib/base64';
+import { createStreamHeader, encryptSegment, decryptSegment } from '@/lib/streamCrypto';
+
+// Resolve the key that encrypts the payload itself
+export async function getDataKey(doc: Pick<Document, 'encryption' | 'wrappedKey'>, masterKey: CryptoKey): Promise<CryptoKey> {
+  if (doc.encryption === 'envelope' && doc.wrappedKey) {
+    return await importKey(await decryptString(doc.wrappedKey, masterKey));
+  }
+  return masterKey;
+}
+
+// Encrypt a new payload under a fresh data key
+export async function encryptDocumentData(
+  data: ArrayBuffer,
+  masterKey: CryptoKey
+): Promise<Pick<DocumentPayload, 'encryptedData' | 'iv' | 'encryption' | 'wrappedKey'>> {
+  const dataKey = await generateKey();
+  const { encrypted, iv } = await encryptData(data, dataKey);
+  return {
+    encryptedData: encrypted,
+    iv: uint8ArrayToBase64(iv),
+    encryption: 'envelope',
+    wrappedKey: await encryptString(await exportKey(dataKey), masterKey)
+  };
+}
+
+/**
+ * Encrypt a file segment by segment into the chunks store, reading one
+ * segment at a time so large scans never have to be loaded whole.
+ * The returned payload must then be saved with the document record.
+ */
+export async function encryptDocumentFile(
+  documentId: string,
+  file: Blob,
+  masterKey: CryptoKey
+): Promise<Pick<DocumentPayload, 'iv' | 'encryption' | 'wrappedKey' | 'stream'>> {
+  const dataKey = await generateKey();
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const header = createStreamHeader(file.size);
+
+  try {
+    for (let index = 0; index < header.segmentCount; index++) {
+      const start = index * header.segmentSize;
+      const segment = await file.slice(start, start + header.segmentSize).arrayBuffer();
+      await saveDocumentChunk({
+        documentId,
+        index,
+        data: await encryptSegment(segment, dataKey, iv, header, index)
+      });
+    }
+  } catch (error) {
+    await deleteDocumentChunks(documentId);
+    throw error;
+  }
+
+  return {
+    iv: uint8ArrayToBase64(iv),
+    encryption: 'envelope',
+    wrappedKey: await encryptString(await exportKey(dataKey), masterKey),
+    stream: header
+  };
+}
+
+// Decrypt a segmented payload one segment at a time, as they are read
+export function decryptDocumentStream(doc: Document, masterKey: CryptoKey): ReadableStream<Uint8Array> {
+  const header = doc.stream;
+  const iv = base64ToUint8Array(doc.iv);
+  let dataKey: CryptoKey | null = null;
+  let index = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!header) {
+        throw new Error('Document is not segmented');
+      }
+      dataKey ??= await getDataKey(doc, masterKey);
+
+      const chunk = await getDocumentChunk(doc.id, index);
+      if (!chunk) {
+        throw new Error(`Missing segment ${index} of document ${doc.id}`);
+      }
+      controller.enqueue(new Uint8Array(await decryptSegment(chunk.data, dataKey, iv, header, index)));
+
+      index++;
+      if (index === header.segmentCount) {
+        controller.close();
+      }
+    }
+  });
+}
+
+// Decrypted file, ready for an object URL or a File. Segmented payloads are
+// streamed into the Blob, which the browser can keep out of the JS heap.
+export async function decryptDocumentBlob(doc: Document, masterKey: CryptoKey): Promise<Blob> {
+  if (doc.stream) {
+    const blob = await new Response(decryptDocumentStream(doc, masterKey)).blob();
+    return new Blob([blob], { type: doc.mimeType });
+  }
+  const dataKey = await getDataKey(doc, masterKey);
+  const data = await decryptData(doc.encryptedData, dataKey, base64ToUint8Array(doc.iv));
+  return new Blob([data], { type: doc.mimeType });
+}
+
+export async function decryptDocumentData(doc: Document, masterKey: CryptoKey): Promise<ArrayBuffer> {
+  if (doc.stream) {
+    return await (await decryptDocumentBlob(doc, masterKey)).arrayBuffer();
+  }
+  const dataKey = await getDataKey(doc, masterKey);
+  return await decryptData(doc.encryptedData, dataKey, base64ToUint8Array(doc.iv));
+}
+
+// Decrypt the whole payload without keeping it, to check its integrity
+export async function verifyDocumentData(doc: Document, masterKey: CryptoKey): Promise<void> {
+  if (!doc.stream) {
+    await decryptDocumentData(doc, masterKey);
+    return;
+  }
+  const reader = decryptDocumentStream(doc, masterKey).getReader();
+  while (!(await reader.read()).done) {
+    // Each segment is authenticated as it is decrypted
+  }
+}
+
+/**
+ * Move a document under `newMasterKey`. Envelope documents only have their data
+ * key re-wrapped; older records are re-encrypted under a new data key.
+ */
+export async function rewrapDocument(
+  doc: Document,
+  oldMasterKey: CryptoKey,
+  newMasterKey: CryptoKey,
+  keyGeneration: number
+): Promise<boolean> {
+  if (doc.encryption === 'envelope' && doc.wrappedKey) {
+    const exportedDataKey = await decryptString(doc.wrappedKey, oldMasterKey);
+    return await replaceDocumentPayload(doc.id, doc, {
+      wrappedKey: await encryptString(exportedDataKey, newMasterKey),
+      keyGeneration
+    });
+  }
+
+  const data = await decryptDocumentData(doc, oldMasterKey);
+  return await replaceDocumentPayload(doc.id, doc, {
+    ...await encryptDocumentData(data, newMasterKey),
+    keyGeneration
+  });
+}
+
+/**
+ * Lazily move records encrypted directly with the master key to their own
+ * data key. Safe to interrupt: each record is replaced atomically.
+ */
+export async function migrateDocumentsToEnvelope(masterKey: CryptoKey, signal?: AbortSignal): Promise<number> {
+  let migrated = 0;
+
+  for (const id of await getDocumentIdsByEncryption('master')) {
+    signal?.throwIfAborted();
+    const doc = await getDocument(id);
+    if (!doc || doc.encryption === 'envelope') continue;
+
+    try {
+      const data = await decryptDocumentData(doc, masterKey);
+      if (await replaceDocumentPayload(id, doc, await encryptDocumentData(data, masterKey))) {
+        migrated++;
+      }
+    } catch (error) {
+      console.error('Envelope migration failed for document:', id, error);
+    }
+  }
+
+  return migrated;
+}
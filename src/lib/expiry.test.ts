@@ -0,0 +1,151 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { generateKey } from '@/lib/crypto';
+import type { Document } from '@/lib/storage';
+import type { LocalNotificationSchema } from '@capacitor/local-notifications';
+
+// What the device has been asked to show, now or later
+const device = vi.hoisted(() => ({
+  native: false,
+  pending: new Map<number, LocalNotificationSchema>(),
+  shown: [] as LocalNotificationSchema[]
+}));
+
+vi.mock('@capacitor/core', () => ({
+  Capacitor: { isNativePlatform: () => device.native }
+}));
+
+vi.mock('@capacitor/local-notifications', () => ({
+  LocalNotifications: {
+    checkPermissions: async () => ({ display: 'granted' }),
+    requestPermissions: async () => ({ display: 'granted' }),
+    schedule: async ({ notifications }: { notifications: LocalNotificationSchema[] }) => {
+      for (const notification of notifications) {
+        if (notification.schedule) {
+          device.pending.set(notification.id, notification);
+        } else {
+          device.shown.push(notification);
+        }
+      }
+      return { notifications };
+    },
+    getPending: async () => ({ notifications: Array.from(device.pending.values()) }),
+    cancel: async ({ notifications }: { notifications: { id: number }[] }) => {
+      for (const { id } of notifications) device.pending.delete(id);
+    }
+  }
+}));
+
+// Browser notifications shown
+const webShown: string[] = [];
+
+class FakeNotification {
+  static permission = 'granted';
+  constructor(title: string) {
+    webShown.push(title);
+  }
+}
+
+// Each test gets an empty IndexedDB and fresh modules, so storage's cached connection doesn't leak
+beforeEach(() => {
+  globalThis.indexedDB = new IDBFactory();
+  vi.resetModules();
+  vi.stubGlobal('Notification', FakeNotification);
+  vi.stubGlobal('window', { Notification: FakeNotification });
+  device.native = false;
+  device.pending.clear();
+  device.shown = [];
+  webShown.length = 0;
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+function passport(expiresAt: string): Document {
+  return {
+    id: 'doc-1',
+    name: 'Passeport',
+    category: 'passport',
+    type: 'image',
+    mimeType: 'image/jpeg',
+    size: 0,
+    encryptedData: new ArrayBuffer(0),
+    iv: '',
+    expiresAt,
+    createdAt: new Date('2025-01-01'),
+    updatedAt: new Date('2025-01-01')
+  };
+}
+
+// An unlocked vault holding a passport, with reminders turned on
+async function openVault(expiresAt: string) {
+  const storage = await import('@/lib/storage');
+  const expiry = await import('@/lib/expiry');
+  const { unlockMetadata } = await import('@/lib/vaultKey');
+  await unlockMetadata(await generateKey());
+  await storage.saveDocument(passport(expiresAt));
+  await expiry.saveExpiryReminderConfig({ enabled: true, leadMonths: { identity: 3, passport: 6, driving: 3 } });
+  return expiry;
+}
+
+describe('expiry status', () => {
+  it('stops the lead time at the end of a shorter month', async () => {
+    const { expiryStatus } = await import('@/lib/expiry');
+    const now = new Date(2025, 7, 31);
+    expect(expiryStatus(passport('2026-02-28'), { passport: 6 }, now)).toBe('soon');
+    expect(expiryStatus(passport('2026-03-01'), { passport: 6 }, now)).toBeNull();
+  });
+});
+
+describe('expiry reminders', () => {
+  it('notifies each stage once in the browser', async () => {
+    const expiry = await openVault('2026-06-30');
+
+    await expiry.runExpiryReminders(new Date(2026, 0, 5));
+    await expiry.runExpiryReminders(new Date(2026, 0, 6));
+    expect(webShown).toEqual(['Document à renouveler']);
+
+    await expiry.runExpiryReminders(new Date(2026, 6, 2));
+    expect(webShown).toEqual(['Document à renouveler', 'Document expiré']);
+  });
+
+  it('schedules the coming stages on the device and does not repeat those it showed', async () => {
+    device.native = true;
+    const expiry = await openVault('2026-06-30');
+
+    await expiry.runExpiryReminders(new Date(2025, 11, 1));
+    expect(device.shown).toHaveLength(0);
+    expect(Array.from(device.pending.values(), ({ title, schedule }) => [title, schedule?.at])).toEqual([
+      ['Document à renouveler', new Date(2025, 11, 30, 9)],
+      ['Document expiré', new Date(2026, 6, 1, 9)]
+    ]);
+
+    // The device showed the first one while the app was closed
+    device.pending.delete(Array.from(device.pending.keys())[0]);
+    await expiry.runExpiryReminders(new Date(2026, 0, 5));
+    expect(device.shown).toHaveLength(0);
+    expect(Array.from(device.pending.values(), ({ title }) => title)).toEqual(['Document expiré']);
+  });
+
+  it('shows a stage reached without a scheduled reminder right away', async () => {
+    device.native = true;
+    const expiry = await openVault('2026-03-31');
+
+    await expiry.runExpiryReminders(new Date(2026, 0, 5));
+    expect(device.shown.map(({ title }) => title)).toEqual(['Document à renouveler']);
+    expect(Array.from(device.pending.values(), ({ title }) => title)).toEqual(['Document expiré']);
+  });
+
+  it('cancels the scheduled reminders once turned off', async () => {
+    device.native = true;
+    const expiry = await openVault('2026-06-30');
+    await expiry.runExpiryReminders(new Date(2025, 11, 1));
+    expect(device.pending.size).toBe(2);
+
+    await expiry.saveExpiryReminderConfig({ enabled: false, leadMonths: { identity: 3, passport: 6, driving: 3 } });
+    await expiry.runExpiryReminders(new Date(2025, 11, 2));
+    expect(device.pending.size).toBe(0);
+  });
+});
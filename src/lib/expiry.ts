@@ -0,0 +1,262 @@
+// Validity of identity documents: expiry dates, the "Expire bientôt" list on the
+// home page and local renewal reminders. Expiry dates are part of the encrypted
+// metadata, so reminders are worked out while the vault is unlocked: in the
+// browser they only go out then, while the Android app also schedules the
+// upcoming ones on the device, which shows them even when DocSafe is closed.
+import { Capacitor } from '@capacitor/core';
+import { LocalNotifications, LocalNotificationSchema } from '@capacitor/local-notifications';
+import { getAllDocuments, getSetting, saveSetting, Document } from '@/lib/storage';
+import { getCategoryById } from '@/lib/categories';
+
+export const EXPIRING_CATEGORIES = ['identity', 'passport', 'driving'];
+
+export interface ExpiryReminderConfig {
+  enabled: boolean;
+  // How long before expiry a document counts as expiring soon, per category
+  leadMonths: Record<string, number>;
+}
+
+export type ExpiryStatus = 'soon' | 'expired';
+
+export interface ExpiringDocument {
+  document: Document;
+  status: ExpiryStatus;
+}
+
+// Renewing a passport can take months
+const DEFAULT_CONFIG: ExpiryReminderConfig = {
+  enabled: false,
+  leadMonths: { identity: 3, passport: 6, driving: 3 }
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+// Time of day scheduled reminders go out
+const REMINDER_HOUR = 9;
+
+export function hasExpiry(category: string): boolean {
+  return EXPIRING_CATEGORIES.includes(category);
+}
+
+export function isReminderSupported(): boolean {
+  return Capacitor.isNativePlatform() || 'Notification' in window;
+}
+
+export async function getExpiryReminderConfig(): Promise<ExpiryReminderConfig> {
+  const value = await getSetting('expiryReminders');
+  if (!value) return DEFAULT_CONFIG;
+  const config = JSON.parse(value) as ExpiryReminderConfig;
+  return { ...config, leadMonths: { ...DEFAULT_CONFIG.leadMonths, ...config.leadMonths } };
+}
+
+export async function saveExpiryReminderConfig(config: ExpiryReminderConfig): Promise<void> {
+  await saveSetting('expiryReminders', JSON.stringify(config));
+}
+
+// Must run from a user gesture
+export async function requestReminderPermission(): Promise<boolean> {
+  if (Capacitor.isNativePlatform()) {
+    return (await LocalNotifications.requestPermissions()).display === 'granted';
+  }
+  if (!isReminderSupported()) return false;
+  if (Notification.permission === 'granted') return true;
+  return await Notification.requestPermission() === 'granted';
+}
+
+async function hasReminderPermission(): Promise<boolean> {
+  if (Capacitor.isNativePlatform()) {
+    return (await LocalNotifications.checkPermissions()).display === 'granted';
+  }
+  return isReminderSupported() && Notification.permission === 'granted';
+}
+
+// Local midnight, so that a document stays valid for the whole of its last day
+function parseDay(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+// Same day `months` later, on the last day of the month when it has fewer days
+function addMonths(date: Date, months: number): Date {
+  const lastDay = new Date(date.getFullYear(), date.getMonth() + months + 1, 0).getDate();
+  return new Date(date.getFullYear(), date.getMonth() + months, Math.min(date.getDate(), lastDay));
+}
+
+export function daysUntil(value: string, now = new Date()): number {
+  return Math.round((parseDay(value).getTime() - startOfDay(now).getTime()) / DAY);
+}
+
+// First day of each stage: expiring soon from the lead date on, expired after the last valid day
+function stageDates(expiresAt: string, leadMonths: number): Record<ExpiryStatus, Date> {
+  const lastDay = parseDay(expiresAt);
+  return {
+    soon: addMonths(lastDay, -leadMonths),
+    expired: new Date(lastDay.getFullYear(), lastDay.getMonth(), lastDay.getDate() + 1)
+  };
+}
+
+export function expiryStatus(doc: Document, leadMonths: Record<string, number>, now = new Date()): ExpiryStatus | null {
+  if (!doc.expiresAt || !hasExpiry(doc.category)) return null;
+
+  const dates = stageDates(doc.expiresAt, leadMonths[doc.category] ?? 0);
+  const today = startOfDay(now);
+  if (today >= dates.expired) return 'expired';
+  return today >= dates.soon ? 'soon' : null;
+}
+
+// Expired or expiring documents, the most urgent first
+export function getExpiringDocuments(
+  documents: Document[],
+  leadMonths: Record<string, number>,
+  now = new Date()
+): ExpiringDocument[] {
+  return documents
+    .map(document => ({ document, status: expiryStatus(document, leadMonths, now) }))
+    .filter((item): item is ExpiringDocument => item.status !== null)
+    .sort((a, b) => a.document.expiresAt!.localeCompare(b.document.expiresAt!));
+}
+
+export function formatDay(value: string): string {
+  return new Intl.DateTimeFormat('fr-FR', { day: 'numeric', month: 'long', year: 'numeric' }).format(parseDay(value));
+}
+
+// "Expire dans 4 mois", "Expiré depuis 3 jours"...
+export function describeExpiry(value: string, now = new Date()): string {
+  const days = daysUntil(value, now);
+  if (days === 0) return 'Expire aujourd\'hui';
+
+  const count = Math.abs(days);
+  const span = count < 60
+    ? `${count} jour${count > 1 ? 's' : ''}`
+    : `${Math.round(count / 30)} mois`;
+  return days > 0 ? `Expire dans ${span}` : `Expiré depuis ${span}`;
+}
+
+// Reminders already shown, by document id, so that each stage is notified once
+async function getSentReminders(): Promise<Record<string, ExpiryStatus>> {
+  const value = await getSetting('expiryRemindersSent');
+  return value ? JSON.parse(value) : {};
+}
+
+// Reminders scheduled on the device, with the time each goes out
+type ScheduledReminders = Record<string, Partial<Record<ExpiryStatus, string>>>;
+
+async function getScheduledReminders(): Promise<ScheduledReminders> {
+  const value = await getSetting('expiryRemindersScheduled');
+  return value ? JSON.parse(value) : {};
+}
+
+// Native notification ids are 32-bit integers: one per document and stage
+function notificationId(documentId: string, status: ExpiryStatus): number {
+  let hash = 0;
+  for (const char of documentId) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return (hash & 0x3fffffff) * 2 + (status === 'expired' ? 1 : 0);
+}
+
+// Notifications show on the lock screen: name the kind of document, not the document itself
+function reminderContent(document: Document, status: ExpiryStatus, at: Date): { title: string; body: string } {
+  const category = getCategoryById(document.category)?.name ?? 'Document';
+  return {
+    title: status === 'expired' ? 'Document expiré' : 'Document à renouveler',
+    body: `${category} : ${describeExpiry(document.expiresAt!, at).toLowerCase()} (${formatDay(document.expiresAt!)}).`
+  };
+}
+
+async function showReminder(document: Document, status: ExpiryStatus, now: Date): Promise<void> {
+  const { title, body } = reminderContent(document, status, now);
+  if (Capacitor.isNativePlatform()) {
+    await LocalNotifications.schedule({
+      notifications: [{ id: notificationId(document.id, status), title, body, extra: { expiry: true } }]
+    });
+  } else {
+    new Notification(title, { body, tag: `expiry-${document.id}` });
+  }
+}
+
+async function cancelScheduledReminders(): Promise<void> {
+  const { notifications } = await LocalNotifications.getPending();
+  const reminders = notifications.filter(notification => notification.extra?.expiry);
+  if (reminders.length > 0) {
+    await LocalNotifications.cancel({ notifications: reminders.map(({ id }) => ({ id })) });
+  }
+  await saveSetting('expiryRemindersScheduled', JSON.stringify({}));
+}
+
+// Replace the scheduled reminders with the stages still to come. `reached` is
+// the stage each document has already been reminded of.
+async function scheduleReminders(
+  documents: Document[],
+  leadMonths: Record<string, number>,
+  reached: Record<string, ExpiryStatus>,
+  now: Date
+): Promise<void> {
+  await cancelScheduledReminders();
+
+  const scheduled: ScheduledReminders = {};
+  const notifications: LocalNotificationSchema[] = [];
+  for (const document of documents) {
+    if (!document.expiresAt || !hasExpiry(document.category) || reached[document.id] === 'expired') continue;
+
+    const dates = stageDates(document.expiresAt, leadMonths[document.category] ?? 0);
+    for (const status of ['soon', 'expired'] as const) {
+      const at = new Date(dates[status].getFullYear(), dates[status].getMonth(), dates[status].getDate(), REMINDER_HOUR);
+      if (reached[document.id] === status || at <= now) continue;
+
+      notifications.push({
+        id: notificationId(document.id, status),
+        ...reminderContent(document, status, at),
+        schedule: { at, allowWhileIdle: true },
+        extra: { expiry: true }
+      });
+      scheduled[document.id] = { ...scheduled[document.id], [status]: at.toISOString() };
+    }
+  }
+
+  if (notifications.length > 0) {
+    await LocalNotifications.schedule({ notifications });
+  }
+  await saveSetting('expiryRemindersScheduled', JSON.stringify(scheduled));
+}
+
+/**
+ * Notify the stages documents have reached since the last run, and on Android
+ * schedule the upcoming ones. Turning reminders off cancels those scheduled.
+ */
+export async function runExpiryReminders(now = new Date()): Promise<void> {
+  const config = await getExpiryReminderConfig();
+  const isNative = Capacitor.isNativePlatform();
+  if (!config.enabled || !isReminderSupported() || !await hasReminderPermission()) {
+    if (isNative) await cancelScheduledReminders();
+    return;
+  }
+
+  const documents = await getAllDocuments();
+  const sent = await getSentReminders();
+  const scheduled = await getScheduledReminders();
+  const expiring = getExpiringDocuments(documents, config.leadMonths, now);
+
+  // Documents renewed or deleted since drop out, and are reminded again if they come back
+  const next: Record<string, ExpiryStatus> = {};
+  for (const { document, status } of expiring) {
+    next[document.id] = status;
+    if (sent[document.id] === status) continue;
+
+    // Already shown by the device while the app was closed
+    const scheduledAt = scheduled[document.id]?.[status];
+    if (scheduledAt && new Date(scheduledAt) <= now) continue;
+
+    await showReminder(document, status, now);
+  }
+
+  if (isNative) {
+    await scheduleReminders(documents, config.leadMonths, next, now);
+  }
+  if (JSON.stringify(next) !== JSON.stringify(sent)) {
+    await saveSetting('expiryRemindersSent', JSON.stringify(next));
+  }
+}
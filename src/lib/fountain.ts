@@ -0,0 +1,188 @@
+// LT fountain code: data is cut into K blocks, and the sender can produce an
+// endless stream of encoded blocks, each the XOR of a few source blocks picked
+// from its sequence number. Any set of a little more than K of them rebuilds the data,
+// whichever ones they are, so a receiver can join late or miss frames.
+//
+// The first K blocks are the source blocks themselves (systematic encoding):
+// a receiver that sees every frame needs no decoding at all.
+
+// Robust soliton parameters (Luby): c tunes the spike, delta the failure bound
+const SOLITON_C = 0.1;
+const SOLITON_DELTA = 0.5;
+
+// Small deterministic PRNG, so both sides derive the same blocks from a seed
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Cumulative robust soliton distribution over degrees 1..k
+function solitonCdf(k: number): Float64Array {
+  const r = SOLITON_C * Math.log(k / SOLITON_DELTA) * Math.sqrt(k);
+  const spike = Math.max(1, Math.min(k, Math.round(k / r)));
+  const weights = new Float64Array(k + 1);
+  let total = 0;
+  for (let d = 1; d <= k; d++) {
+    const rho = d === 1 ? 1 / k : 1 / (d * (d - 1));
+    let tau = 0;
+    if (d < spike) tau = r / (d * k);
+    else if (d === spike) tau = (r * Math.log(r / SOLITON_DELTA)) / k;
+    weights[d] = rho + Math.max(0, tau);
+    total += weights[d];
+  }
+  const cdf = new Float64Array(k + 1);
+  let sum = 0;
+  for (let d = 1; d <= k; d++) {
+    sum += weights[d] / total;
+    cdf[d] = sum;
+  }
+  return cdf;
+}
+
+/**
+ * Source block indices combined into encoded block `seq`. Both sides must
+ * pass the same seed (the transfer session) and block count.
+ */
+function blockIndices(seq: number, blockCount: number, seed: number, cdf: Float64Array): number[] {
+  if (seq < blockCount) return [seq];
+
+  const random = mulberry32(seed ^ Math.imul(seq, 0x9e3779b1));
+  const draw = random();
+  let degree = 1;
+  while (degree < blockCount && cdf[degree] < draw) degree++;
+
+  const picked = new Set<number>();
+  while (picked.size < degree) {
+    picked.add(Math.floor(random() * blockCount));
+  }
+  return [...picked];
+}
+
+export function blockCountFor(length: number, blockSize: number): number {
+  return Math.max(1, Math.ceil(length / blockSize));
+}
+
+function xorInto(target: Uint8Array, source: Uint8Array): void {
+  for (let i = 0; i < target.length; i++) {
+    target[i] ^= source[i];
+  }
+}
+
+export class FountainEncoder {
+  readonly blockCount: number;
+  private readonly blocks: Uint8Array[];
+  private readonly cdf: Float64Array;
+
+  constructor(data: Uint8Array, readonly blockSize: number, readonly seed: number) {
+    this.blockCount = blockCountFor(data.length, blockSize);
+    this.cdf = solitonCdf(this.blockCount);
+    this.blocks = [];
+    for (let i = 0; i < this.blockCount; i++) {
+      // The last block is zero-padded to the block size
+      const block = new Uint8Array(blockSize);
+      block.set(data.subarray(i * blockSize, (i + 1) * blockSize));
+      this.blocks.push(block);
+    }
+  }
+
+  encode(seq: number): Uint8Array {
+    const block = new Uint8Array(this.blockSize);
+    for (const index of blockIndices(seq, this.blockCount, this.seed, this.cdf)) {
+      xorInto(block, this.blocks[index]);
+    }
+    return block;
+  }
+}
+
+/**
+ * Peeling decoder: every block reduced to a single unknown source block
+ * solves it, which in turn may reduce other pending blocks.
+ */
+export class FountainDecoder {
+  readonly blockCount: number;
+  private readonly cdf: Float64Array;
+  private readonly solved: (Uint8Array | undefined)[];
+  private solvedCount = 0;
+  // Pending encoded blocks, and which of them wait on each source block
+  private readonly pending = new Map<number, { indices: Set<number>; data: Uint8Array }>();
+  private readonly waiting = new Map<number, Set<number>>();
+  private readonly seen = new Set<number>();
+
+  constructor(readonly length: number, readonly blockSize: number, readonly seed: number) {
+    this.blockCount = blockCountFor(length, blockSize);
+    this.cdf = solitonCdf(this.blockCount);
+    this.solved = new Array(this.blockCount);
+  }
+
+  get progress(): number {
+    return this.solvedCount / this.blockCount;
+  }
+
+  get isComplete(): boolean {
+    return this.solvedCount === this.blockCount;
+  }
+
+  // Returns false for blocks already received
+  add(seq: number, block: Uint8Array): boolean {
+    if (this.seen.has(seq) || this.isComplete) return false;
+    this.seen.add(seq);
+
+    const data = new Uint8Array(block);
+    const indices = new Set<number>();
+    for (const index of blockIndices(seq, this.blockCount, this.seed, this.cdf)) {
+      const known = this.solved[index];
+      if (known) xorInto(data, known);
+      else indices.add(index);
+    }
+    if (indices.size === 0) return true;
+
+    this.pending.set(seq, { indices, data });
+    for (const index of indices) {
+      if (!this.waiting.has(index)) this.waiting.set(index, new Set());
+      this.waiting.get(index).add(seq);
+    }
+    this.peel(seq);
+    return true;
+  }
+
+  private peel(start: number): void {
+    const queue = [start];
+    while (queue.length > 0) {
+      const seq = queue.pop();
+      const entry = this.pending.get(seq);
+      if (!entry || entry.indices.size !== 1) continue;
+
+      const [index] = entry.indices;
+      this.pending.delete(seq);
+      this.waiting.get(index)?.delete(seq);
+      if (this.solved[index]) continue;
+      this.solved[index] = entry.data;
+      this.solvedCount++;
+
+      for (const other of this.waiting.get(index) ?? []) {
+        const dependent = this.pending.get(other);
+        if (!dependent) continue;
+        xorInto(dependent.data, entry.data);
+        dependent.indices.delete(index);
+        if (dependent.indices.size === 1) queue.push(other);
+        else if (dependent.indices.size === 0) this.pending.delete(other);
+      }
+      this.waiting.delete(index);
+    }
+  }
+
+  result(): Uint8Array {
+    if (!this.isComplete) {
+      throw new Error('Transfer is not complete');
+    }
+    const data = new Uint8Array(this.blockCount * this.blockSize);
+    this.solved.forEach((block, index) => data.set(block, index * this.blockSize));
+    return data.slice(0, this.length);
+  }
+}
@@ -0,0 +1,16 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import { generateKey } from '@/lib/crypto';
+import { unlockMetadata } from '@/lib/vaultKey';
+import { getIdentity } from '@/lib/identity';
+
+describe('vault identity', () => {
+  it('creates a single key pair for concurrent first uses', async () => {
+    const masterKey = await generateKey();
+    await unlockMetadata(masterKey);
+
+    const [first, second] = await Promise.all([getIdentity(masterKey), getIdentity(masterKey)]);
+    expect(second.publicKey).toEqual(first.publicKey);
+    expect((await getIdentity(masterKey)).publicKey).toEqual(first.publicKey);
+  });
+});
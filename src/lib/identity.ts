@@ -0,0 +1,82 @@
+// Vault identity: an X25519 key pair that lets other DocSafe users encrypt
+// documents for this vault (see sealed). The private key is stored wrapped by
+// the master key, like the metadata key; the public key is handed out as a
+// contact code, scanned into the other person's contacts.
+//
+//   DOCSAFE-ID:<public key>
+import { encryptString, decryptString } from '@/lib/crypto';
+import { getSetting, saveSettings } from '@/lib/storage';
+import { uint8ArrayToBase64, base64ToUint8Array, uint8ArrayToBase64Url, base64UrlToUint8Array } from '@/lib/base64';
+
+export const IDENTITY_ALGORITHM = 'X25519';
+export const CONTACT_CODE_PREFIX = 'DOCSAFE-ID:';
+export const PUBLIC_KEY_LENGTH = 32;
+
+export interface Identity {
+  privateKey: CryptoKey;
+  // Raw public key
+  publicKey: Uint8Array;
+}
+
+// Lookup in progress, shared by concurrent callers so that only one of them
+// creates the key pair. Not kept once settled: a restore may replace the identity.
+let pendingIdentity: Promise<Identity> | null = null;
+
+/**
+ * The vault's identity key pair, created on first use.
+ */
+export async function getIdentity(masterKey: CryptoKey): Promise<Identity> {
+  if (!pendingIdentity) {
+    pendingIdentity = loadOrCreateIdentity(masterKey).finally(() => {
+      pendingIdentity = null;
+    });
+  }
+  return await pendingIdentity;
+}
+
+async function loadOrCreateIdentity(masterKey: CryptoKey): Promise<Identity> {
+  const wrapped = await getSetting('encryptedIdentityKey');
+  const publicKey = await getSetting('identityPublicKey');
+  if (wrapped && publicKey) {
+    const pkcs8 = base64ToUint8Array(await decryptString(wrapped, masterKey));
+    return {
+      privateKey: await crypto.subtle.importKey('pkcs8', pkcs8, IDENTITY_ALGORITHM, false, ['deriveBits']),
+      publicKey: base64UrlToUint8Array(publicKey)
+    };
+  }
+
+  const pair = await crypto.subtle.generateKey({ name: IDENTITY_ALGORITHM }, true, ['deriveBits']) as CryptoKeyPair;
+  const pkcs8 = new Uint8Array(await crypto.subtle.exportKey('pkcs8', pair.privateKey));
+  const raw = new Uint8Array(await crypto.subtle.exportKey('raw', pair.publicKey));
+  await saveSettings({
+    encryptedIdentityKey: await encryptString(uint8ArrayToBase64(pkcs8), masterKey),
+    identityPublicKey: uint8ArrayToBase64Url(raw)
+  });
+  return { privateKey: pair.privateKey, publicKey: raw };
+}
+
+export function importPublicKey(raw: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', raw, IDENTITY_ALGORITHM, true, []);
+}
+
+export function contactCode(publicKey: Uint8Array): string {
+  return CONTACT_CODE_PREFIX + uint8ArrayToBase64Url(publicKey);
+}
+
+// The public key in a scanned contact code, or null for anything else
+export function parseContactCode(text: string): Uint8Array | null {
+  if (!text.startsWith(CONTACT_CODE_PREFIX)) return null;
+  try {
+    const publicKey = base64UrlToUint8Array(text.slice(CONTACT_CODE_PREFIX.length));
+    return publicKey.length === PUBLIC_KEY_LENGTH ? publicKey : null;
+  } catch {
+    return null;
+  }
+}
+
+// Short digest of a public key, compared on both screens when adding a contact
+export async function keyFingerprint(publicKey: Uint8Array): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', publicKey));
+  const hex = Array.from(digest.slice(0, 8), byte => byte.toString(16).padStart(2, '0')).join('').toUpperCase();
+  return hex.match(/.{4}/g)!.join(' ');
+}
@@ -0,0 +1,52 @@
+// Metadata encryption: document names, tags, thumbnails and folder names are
+// encrypted under a vault-wide metadata key, itself wrapped by the master key.
+// Categories are stored as keyed hashes so the category index keeps working
+// without revealing which kind of document a record is.
+import { encryptString, decryptString } from '@/lib/crypto';
+import { uint8ArrayToBase64 } from '@/lib/base64';
+
+export interface MetadataKeys {
+  encryptionKey: CryptoKey;
+  indexKey: CryptoKey;
+}
+
+export function generateMetadataSecret(): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(32));
+}
+
+export async function deriveMetadataKeys(secret: Uint8Array): Promise<MetadataKeys> {
+  const baseKey = await crypto.subtle.importKey('raw', secret as Uint8Array<ArrayBuffer>, 'HKDF', false, ['deriveKey']);
+  const salt = new Uint8Array(32);
+  const encoder = new TextEncoder();
+
+  const encryptionKey = await crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: encoder.encode('docsafe-metadata') },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+  const indexKey = await crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: encoder.encode('docsafe-index') },
+    baseKey,
+    { name: 'HMAC', hash: 'SHA-256', length: 256 },
+    false,
+    ['sign']
+  );
+
+  return { encryptionKey, indexKey };
+}
+
+export async function encryptMetadata(value: unknown, keys: MetadataKeys): Promise<string> {
+  return await encryptString(JSON.stringify(value), keys.encryptionKey);
+}
+
+export async function decryptMetadata<T>(data: string, keys: MetadataKeys): Promise<T> {
+  return JSON.parse(await decryptString(data, keys.encryptionKey));
+}
+
+// Stable, opaque index value for a category id
+export async function categoryToken(categoryId: string, keys: MetadataKeys): Promise<string> {
+  const mac = await crypto.subtle.sign('HMAC', keys.indexKey, new TextEncoder().encode(categoryId));
+  return uint8ArrayToBase64(new Uint8Array(mac));
+}
@@ -0,0 +1,176 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { openDB, IDBPDatabase } from 'idb';
+import { uint8ArrayToBase64 } from '@/lib/base64';
+
+const PAYLOAD = new Uint8Array([1, 2, 3, 4, 5, 250]);
+
+// Each test gets an empty IndexedDB and fresh modules, so storage's cached connection doesn't leak
+beforeEach(() => {
+  globalThis.indexedDB = new IDBFactory();
+  vi.resetModules();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+async function loadModules() {
+  const migrations = await import('@/lib/migrations');
+  const storage = await import('@/lib/storage');
+  return { migrations, storage };
+}
+
+// A vault as an older release left it, records in that version's format
+async function createFixture(version: number): Promise<void> {
+  const { migrations } = await loadModules();
+  const database = await openDB(migrations.DB_NAME, version, {
+    async upgrade(database, oldVersion, _newVersion, transaction) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await migrations.runMigrations(database as any, oldVersion, transaction as any, version);
+    }
+  });
+
+  await database.put('documents', {
+    id: 'doc-1',
+    name: 'Passeport',
+    category: 'passport',
+    type: 'image',
+    mimeType: 'image/jpeg',
+    size: PAYLOAD.byteLength,
+    iv: 'aXY=',
+    // Base64 strings before version 3, tagged with their scheme from version 2
+    encryptedData: version < 3 ? uint8ArrayToBase64(PAYLOAD) : PAYLOAD.buffer.slice(0),
+    ...(version >= 2 && { encryption: 'master' }),
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01')
+  });
+  await database.put('folders', { id: 'folder-1', name: 'Voyages', createdAt: new Date('2024-01-01') });
+  await database.put('settings', { key: 'encryptedKey', value: 'wrapped-key' });
+  if (version >= 4) {
+    await database.put('chunks', { documentId: 'doc-2', index: 0, data: PAYLOAD.buffer.slice(0) });
+  }
+  if (version >= 6) {
+    await database.put('contacts', { id: 'contact-1', createdAt: new Date('2024-01-01'), metadata: 'sealed' });
+  }
+  database.close();
+}
+
+async function openRaw(): Promise<IDBPDatabase> {
+  const { migrations } = await loadModules();
+  return await openDB(migrations.DB_NAME);
+}
+
+async function expectFixtureData(database: IDBPDatabase, version: number): Promise<void> {
+  const doc = await database.get('documents', 'doc-1');
+  expect(doc.name).toBe('Passeport');
+  expect(doc.encryption).toBe('master');
+  expect(doc.encryptedData).toBeInstanceOf(ArrayBuffer);
+  expect(new Uint8Array(doc.encryptedData)).toEqual(PAYLOAD);
+  expect((await database.get('folders', 'folder-1')).name).toBe('Voyages');
+  expect((await database.get('settings', 'encryptedKey')).value).toBe('wrapped-key');
+  if (version >= 4) {
+    expect(await database.get('chunks', ['doc-2', 0])).toBeDefined();
+  }
+  if (version >= 6) {
+    expect(await database.get('contacts', 'contact-1')).toBeDefined();
+  }
+}
+
+async function getSnapshotFromVersion(): Promise<number | undefined> {
+  const snapshot = await openDB('docwallet-snapshot');
+  try {
+    if (!snapshot.objectStoreNames.contains('snapshot-info')) return undefined;
+    return (await snapshot.get('snapshot-info', 'info'))?.fromVersion;
+  } finally {
+    snapshot.close();
+  }
+}
+
+describe('database migrations', () => {
+  it.each([1, 2, 3, 4, 5, 6])('upgrades a version %i vault without losing records', async version => {
+    await createFixture(version);
+
+    const { migrations, storage } = await loadModules();
+    const database = await storage.initDB();
+    expect(database.version).toBe(migrations.DB_VERSION);
+    expect(Array.from(database.objectStoreNames).sort()).toEqual(
+      ['chunks', 'contacts', 'documents', 'folders', 'handles', 'settings', 'shareLog']
+    );
+    expect(Array.from(database.transaction('documents').store.indexNames).sort()).toEqual(
+      ['by-category', 'by-date', 'by-encryption', 'by-folder']
+    );
+    database.close();
+
+    const upgraded = await openRaw();
+    await expectFixtureData(upgraded, version);
+    upgraded.close();
+
+    expect(await getSnapshotFromVersion()).toBe(version);
+  });
+
+  it('creates a new vault without leaving a snapshot', async () => {
+    const { migrations, storage } = await loadModules();
+    const database = await storage.initDB();
+    expect(database.version).toBe(migrations.DB_VERSION);
+    database.close();
+
+    expect((await indexedDB.databases()).map(info => info.name)).not.toContain('docwallet-snapshot');
+  });
+
+  it('keeps the previous version when a migration fails', async () => {
+    await createFixture(6);
+
+    const { migrations, storage } = await loadModules();
+    const last = migrations.MIGRATIONS[migrations.MIGRATIONS.length - 1];
+    vi.spyOn(last, 'migrate').mockImplementation(async (_database, transaction) => {
+      await transaction.objectStore('documents').delete('doc-1');
+      throw new Error('Interrupted upgrade');
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(storage.initDB()).rejects.toThrow();
+
+    const database = await openRaw();
+    expect(database.version).toBe(6);
+    await expectFixtureData(database, 6);
+    database.close();
+    expect(await getSnapshotFromVersion()).toBe(6);
+  });
+
+  it('finishes an interrupted restore before upgrading', async () => {
+    await createFixture(5);
+    const { migrations } = await loadModules();
+    await migrations.snapshotBeforeMigration();
+
+    // Cut short after the vault was dropped
+    const snapshot = await openDB('docwallet-snapshot');
+    const info = await snapshot.get('snapshot-info', 'info');
+    await snapshot.put('snapshot-info', { ...info, restoring: true }, 'info');
+    snapshot.close();
+    await indexedDB.deleteDatabase(migrations.DB_NAME);
+
+    const { storage } = await loadModules();
+    (await storage.initDB()).close();
+
+    const database = await openRaw();
+    await expectFixtureData(database, 5);
+    database.close();
+  });
+
+  it('snapshots the vault in browsers without indexedDB.databases()', async () => {
+    await createFixture(3);
+    const factory = Object.getPrototypeOf(indexedDB);
+    const databases = factory.databases;
+    delete factory.databases;
+
+    try {
+      const { storage } = await loadModules();
+      (await storage.initDB()).close();
+      expect(await getSnapshotFromVersion()).toBe(3);
+    } finally {
+      factory.databases = databases;
+    }
+  });
+});
@@ -0,0 +1,286 @@
+// Schema migrations for the docwallet database. Each step upgrades the schema
+// from the previous version and may rewrite existing records; steps run in
+// order inside the single versionchange transaction, which is aborted if one
+// fails, so an upgrade either completes entirely or leaves the database at its
+// previous version. A copy taken beforehand is put back if opening still fails.
+import { openDB, deleteDB, IDBPDatabase, IDBPTransaction, StoreNames } from 'idb';
+import type { DocWalletDB } from '@/lib/storage';
+import { base64ToArrayBuffer } from '@/lib/base64';
+
+export const DB_NAME = 'docwallet';
+
+type UpgradeTransaction = IDBPTransaction<DocWalletDB, ArrayLike<StoreNames<DocWalletDB>>, 'versionchange'>;
+
+export interface Migration {
+  version: number;
+  description: string;
+  // Only IndexedDB requests may be awaited here, or the transaction commits early
+  migrate: (database: IDBPDatabase<DocWalletDB>, transaction: UpgradeTransaction) => Promise<void>;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create the documents, folders and settings stores',
+    async migrate(database) {
+      const docStore = database.createObjectStore('documents', { keyPath: 'id' });
+      docStore.createIndex('by-category', 'category');
+      docStore.createIndex('by-folder', 'folderId');
+      docStore.createIndex('by-date', 'createdAt');
+
+      database.createObjectStore('folders', { keyPath: 'id' });
+      database.createObjectStore('settings', { keyPath: 'key' });
+    }
+  },
+  {
+    version: 2,
+    description: 'Index documents by encryption scheme',
+    async migrate(_database, transaction) {
+      // Tag records encrypted directly with the master key so they can be
+      // moved to per-document data keys after the next unlock
+      const docStore = transaction.objectStore('documents');
+      docStore.createIndex('by-encryption', 'encryption');
+
+      let cursor = await docStore.openCursor();
+      while (cursor) {
+        if (!cursor.value.encryption) {
+          await cursor.update({ ...cursor.value, encryption: 'master' });
+        }
+        cursor = await cursor.continue();
+      }
+    }
+  },
+  {
+    version: 3,
+    description: 'Store payloads as raw bytes instead of base64',
+    async migrate(_database, transaction) {
+      let cursor = await transaction.objectStore('documents').openCursor();
+      while (cursor) {
+        const encryptedData: unknown = cursor.value.encryptedData;
+        if (typeof encryptedData === 'string') {
+          await cursor.update({ ...cursor.value, encryptedData: base64ToArrayBuffer(encryptedData) });
+        }
+        cursor = await cursor.continue();
+      }
+    }
+  },
+  {
+    version: 4,
+    description: 'Add the store for segmented payloads',
+    async migrate(database) {
+      database.createObjectStore('chunks', { keyPath: ['documentId', 'index'] });
+    }
+  },
+  {
+    version: 5,
+    description: 'Add the store for file system handles',
+    async migrate(database) {
+      database.createObjectStore('handles');
+    }
+  },
+  {
+    version: 6,
+    description: 'Add the store for contacts',
+    async migrate(database) {
+      database.createObjectStore('contacts', { keyPath: 'id' });
+    }
+  },
+  {
+    version: 7,
+    description: 'Add the store for the share log',
+    async migrate(database) {
+      database.createObjectStore('shareLog', { keyPath: 'id' });
+    }
+  }
+];
+
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export async function runMigrations(
+  database: IDBPDatabase<DocWalletDB>,
+  oldVersion: number,
+  transaction: UpgradeTransaction,
+  toVersion = DB_VERSION
+): Promise<void> {
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= oldVersion || migration.version > toVersion) continue;
+
+    try {
+      await migration.migrate(database, transaction);
+    } catch (error) {
+      // idb ignores errors thrown by upgrade callbacks: abort so that none of
+      // the upgrade is kept, and opening the database fails
+      console.error(`Migration to version ${migration.version} failed:`, error);
+      // The abort is reported through openDB instead
+      transaction.done.catch(() => {});
+      try {
+        transaction.abort();
+      } catch {
+        // Already finished: the caller restores the snapshot
+      }
+      return;
+    }
+  }
+}
+
+// Pre-migration safety copy. Records are copied as stored (still encrypted)
+// to a separate database, which is kept until the upgraded vault has been
+// unlocked successfully.
+const SNAPSHOT_DB_NAME = 'docwallet-snapshot';
+const SNAPSHOT_INFO_STORE = 'snapshot-info';
+const COPY_BATCH_SIZE = 50;
+
+export interface MigrationSnapshotInfo {
+  fromVersion: number;
+  toVersion: number;
+  createdAt: string;
+  // Set while the copy is put back, so that an interrupted restore is finished first
+  restoring?: boolean;
+}
+
+// Version of an existing database, or 0 if there is none
+async function getInstalledVersion(name: string): Promise<number> {
+  if ('databases' in indexedDB) {
+    const databases = await indexedDB.databases();
+    return databases.find(info => info.name === name)?.version ?? 0;
+  }
+
+  // Opening without a version reads the installed one, but creates an empty
+  // database when there is none: drop that one again
+  const database = await openDB(name);
+  const { version } = database;
+  const isNew = database.objectStoreNames.length === 0;
+  database.close();
+  if (isNew) {
+    await deleteDB(name);
+    return 0;
+  }
+  return version;
+}
+
+async function getSnapshotInfo(): Promise<MigrationSnapshotInfo | null> {
+  if (!await getInstalledVersion(SNAPSHOT_DB_NAME)) return null;
+
+  const snapshot = await openDB(SNAPSHOT_DB_NAME);
+  try {
+    if (!snapshot.objectStoreNames.contains(SNAPSHOT_INFO_STORE)) return null;
+    return (await snapshot.get(SNAPSHOT_INFO_STORE, 'info')) ?? null;
+  } finally {
+    snapshot.close();
+  }
+}
+
+async function copyStore(source: IDBPDatabase, target: IDBPDatabase, storeName: string): Promise<void> {
+  let range: IDBKeyRange | undefined;
+
+  for (;;) {
+    const readTx = source.transaction(storeName);
+    const [keys, values] = await Promise.all([
+      readTx.store.getAllKeys(range, COPY_BATCH_SIZE),
+      readTx.store.getAll(range, COPY_BATCH_SIZE)
+    ]);
+    if (values.length === 0) return;
+
+    const writeTx = target.transaction(storeName, 'readwrite');
+    const inlineKeys = writeTx.store.keyPath !== null;
+    await Promise.all([
+      ...values.map((value, i) => inlineKeys ? writeTx.store.put(value) : writeTx.store.put(value, keys[i])),
+      writeTx.done
+    ]);
+
+    if (values.length < COPY_BATCH_SIZE) return;
+    range = IDBKeyRange.lowerBound(keys[keys.length - 1], true);
+  }
+}
+
+/**
+ * Copy the installed database before it gets upgraded. Does nothing when no
+ * upgrade is pending. The snapshot is only marked complete once every store
+ * has been copied.
+ */
+export async function snapshotBeforeMigration(): Promise<void> {
+  const existing = await getSnapshotInfo();
+  if (existing?.restoring) {
+    await restoreMigrationSnapshot();
+  }
+  // Not unlocked since the last upgrade: the copy already kept is the one to trust
+  if (existing) return;
+
+  const installedVersion = await getInstalledVersion(DB_NAME);
+  if (!installedVersion || installedVersion >= DB_VERSION) return;
+
+  const source = await openDB(DB_NAME, installedVersion);
+  try {
+    const storeNames = Array.from(source.objectStoreNames);
+    const layouts = storeNames.map(name => {
+      const store = source.transaction(name).store;
+      return { name, keyPath: store.keyPath, autoIncrement: store.autoIncrement };
+    });
+
+    await deleteDB(SNAPSHOT_DB_NAME);
+    const target = await openDB(SNAPSHOT_DB_NAME, 1, {
+      upgrade(database) {
+        for (const { name, keyPath, autoIncrement } of layouts) {
+          database.createObjectStore(name, { keyPath: keyPath ?? undefined, autoIncrement });
+        }
+        database.createObjectStore(SNAPSHOT_INFO_STORE);
+      }
+    });
+
+    try {
+      for (const name of storeNames) {
+        await copyStore(source, target, name);
+      }
+      const info: MigrationSnapshotInfo = {
+        fromVersion: installedVersion,
+        toVersion: DB_VERSION,
+        createdAt: new Date().toISOString()
+      };
+      await target.put(SNAPSHOT_INFO_STORE, info, 'info');
+    } finally {
+      target.close();
+    }
+  } finally {
+    source.close();
+  }
+}
+
+/**
+ * Put the vault back as it was before the upgrade, at its previous version.
+ * Returns false when there is no complete snapshot to restore from.
+ */
+export async function restoreMigrationSnapshot(): Promise<boolean> {
+  const info = await getSnapshotInfo();
+  if (!info) return false;
+
+  const snapshot = await openDB(SNAPSHOT_DB_NAME);
+  try {
+    await snapshot.put(SNAPSHOT_INFO_STORE, { ...info, restoring: true }, 'info');
+
+    await deleteDB(DB_NAME);
+    // The earlier migrations rebuild the stores and indexes of that version
+    const target = await openDB<DocWalletDB>(DB_NAME, info.fromVersion, {
+      async upgrade(database, oldVersion, _newVersion, transaction) {
+        await runMigrations(database, oldVersion, transaction, info.fromVersion);
+      }
+    });
+    try {
+      for (const name of Array.from(snapshot.objectStoreNames)) {
+        if (name !== SNAPSHOT_INFO_STORE) {
+          await copyStore(snapshot, target as unknown as IDBPDatabase, name);
+        }
+      }
+    } finally {
+      target.close();
+    }
+
+    await snapshot.put(SNAPSHOT_INFO_STORE, info, 'info');
+    return true;
+  } finally {
+    snapshot.close();
+  }
+}
+
+export async function discardMigrationSnapshot(): Promise<void> {
+  await deleteDB(SNAPSHOT_DB_NAME);
+}
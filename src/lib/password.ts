@@ -0,0 +1,25 @@
+// Password rules shared by setup, recovery and password change
+
+// Special characters available on an AZERTY keyboard
+const SPECIAL_CHAR_REGEX = /[!@#$%^&*()_+\-=[\]{};':"\\|,.<>/?€£µ§²°`~]/;
+
+export function hasSpecialChar(password: string): boolean {
+  return SPECIAL_CHAR_REGEX.test(password);
+}
+
+// Validation du mot de passe: au moins 8 caractères, 1 majuscule, 1 caractère spécial AZERTY
+export function validatePassword(password: string): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  
+  if (password.length < 8) {
+    errors.push('Au moins 8 caractères');
+  }
+  if (!/[A-Z]/.test(password)) {
+    errors.push('Au moins une majuscule');
+  }
+  if (!hasSpecialChar(password)) {
+    errors.push('Au moins un caractère spécial (!@#$%&*...)');
+  }
+  
+  return { valid: errors.length === 0, errors };
+}
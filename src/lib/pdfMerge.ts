@@ -0,0 +1,161 @@
+// Merge documents into a single PDF for sharing, or flatten one into a stamped
+// copy. jsPDF can only draw images, so PDF pages are rendered first (with the
+// bundled pdf.js worker) and their text is no longer selectable,
+// nor recoverable from under anything drawn over them.
+import { jsPDF } from 'jspdf';
+import { pdfjs } from '@/lib/pdfWorker';
+
+// About 150 dpi for rendered PDF pages
+const PDF_RENDER_SCALE = 2;
+const JPEG_QUALITY = 0.85;
+const IMAGE_JPEG_QUALITY = 0.9;
+// Images get pages as wide as A4, in points
+const IMAGE_PAGE_WIDTH = 595;
+
+export interface MergeSource {
+  type: 'pdf' | 'image';
+  data: ArrayBuffer;
+  mimeType: string;
+}
+
+// Drawn over every page before it is added, like a watermark. Pages are
+// numbered from 0 across all merged documents.
+export type PageDecorator = (context: CanvasRenderingContext2D, width: number, height: number, page: number) => void;
+
+export interface MergeOptions {
+  decorate?: PageDecorator;
+}
+
+export interface PageImage {
+  dataUrl: string;
+  // Page size in points
+  width: number;
+  height: number;
+}
+
+function canvasToJpeg(canvas: HTMLCanvasElement): string {
+  const dataUrl = canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+  // Release the bitmap now rather than whenever the canvas is collected
+  canvas.width = 0;
+  canvas.height = 0;
+  return dataUrl;
+}
+
+/**
+ * Draw an image document on a canvas at its full size, so any format the
+ * browser reads can be re-encoded.
+ */
+export async function imageToCanvas(source: Omit<MergeSource, 'type'>): Promise<HTMLCanvasElement> {
+  const url = URL.createObjectURL(new Blob([source.data], { type: source.mimeType }));
+  try {
+    const img = new Image();
+    await new Promise<void>((resolve, reject) => {
+      img.onload = () => resolve();
+      img.onerror = () => reject(new Error('Failed to load image'));
+      img.src = url;
+    });
+
+    const canvas = window.document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    canvas.getContext('2d')!.drawImage(img, 0, 0);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+async function imagePage(source: MergeSource, decorate?: PageDecorator, first = 0): Promise<PageImage> {
+  const canvas = await imageToCanvas(source);
+  const { width, height } = canvas;
+  decorate?.(canvas.getContext('2d')!, width, height, first);
+  return {
+    dataUrl: canvasToJpeg(canvas),
+    width: IMAGE_PAGE_WIDTH,
+    height: IMAGE_PAGE_WIDTH * height / width
+  };
+}
+
+async function pdfPages(source: MergeSource, decorate?: PageDecorator, first = 0): Promise<PageImage[]> {
+  // pdf.js takes ownership of the buffer it is given
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(source.data.slice(0)) }).promise;
+  try {
+    const pages: PageImage[] = [];
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const page = await pdf.getPage(number);
+      const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+      const canvas = window.document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      const context = canvas.getContext('2d')!;
+      await page.render({ canvasContext: context, viewport }).promise;
+      decorate?.(context, canvas.width, canvas.height, first + number - 1);
+      pages.push({
+        dataUrl: canvasToJpeg(canvas),
+        width: viewport.width / PDF_RENDER_SCALE,
+        height: viewport.height / PDF_RENDER_SCALE
+      });
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Render each page of a decrypted document as a JPEG image, for previews.
+ */
+export async function renderPages(source: MergeSource): Promise<PageImage[]> {
+  return source.type === 'pdf' ? await pdfPages(source) : [await imagePage(source)];
+}
+
+/**
+ * Build one PDF from decrypted documents, in order. PDF pages keep their size.
+ */
+export async function mergeToPdf(sources: MergeSource[], options: MergeOptions = {}): Promise<Blob> {
+  let pdf: jsPDF | null = null;
+  let pageCount = 0;
+
+  for (const source of sources) {
+    const pages = source.type === 'pdf'
+      ? await pdfPages(source, options.decorate, pageCount)
+      : [await imagePage(source, options.decorate, pageCount)];
+    pageCount += pages.length;
+    for (const page of pages) {
+      const format = [page.width, page.height];
+      const orientation = page.width > page.height ? 'landscape' : 'portrait';
+      if (pdf) {
+        pdf.addPage(format, orientation);
+      } else {
+        pdf = new jsPDF({ orientation, unit: 'pt', format });
+      }
+      pdf.addImage(page.dataUrl, 'JPEG', 0, 0, page.width, page.height);
+    }
+  }
+
+  if (!pdf) {
+    throw new Error('Nothing to merge');
+  }
+  return pdf.output('blob');
+}
+
+/**
+ * A copy of one decrypted document with something drawn over every page.
+ * Images stay images (as JPEG); PDFs come back as PDFs of flattened pages.
+ */
+export async function flattenDocument(source: MergeSource, decorate: PageDecorator): Promise<MergeSource> {
+  if (source.type === 'pdf') {
+    const blob = await mergeToPdf([source], { decorate });
+    return { type: 'pdf', mimeType: 'application/pdf', data: await blob.arrayBuffer() };
+  }
+
+  const canvas = await imageToCanvas(source);
+  decorate(canvas.getContext('2d')!, canvas.width, canvas.height, 0);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', IMAGE_JPEG_QUALITY));
+  canvas.width = 0;
+  canvas.height = 0;
+  if (!blob) {
+    throw new Error('Failed to encode image');
+  }
+  return { type: 'image', mimeType: 'image/jpeg', data: await blob.arrayBuffer() };
+}
@@ -0,0 +1,9 @@
+// pdf.js renders in a worker, bundled with the app so that PDFs open and
+// flatten offline. Modules using pdf.js import it from here, which sets the
+// worker up whatever loads first. The worker must match react-pdf's pdf.js.
+import { pdfjs } from 'react-pdf';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+export { pdfjs };
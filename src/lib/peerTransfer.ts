@@ -0,0 +1,511 @@
+// Nearby transfer: two devices in the same room connect directly over WebRTC,
+// without any signaling server. The offer and the answer are exchanged as QR
+// codes, each device scanning the other's screen, then documents stream over
+// a data channel on the local network.
+//
+//   DOCSAFE-P2P:<deflated signal JSON>
+//
+// The offer also carries a one-time key. Every channel message is encrypted
+// under it on top of the channel's own DTLS, so only the device that scanned
+// the offer can read the documents. Each file is checked against the SHA-256
+// announced in the manifest before it's handed over, and after an
+// interruption a new offer for the same session resumes where it stopped.
+//
+// Message: iv + AES-GCM(kind (u8), then a control JSON or a chunk: file
+// index (u32), offset (u32), bytes).
+import { uint8ArrayToBase64Url, base64UrlToUint8Array } from '@/lib/base64';
+
+const PEER_VERSION = 1;
+export const PEER_SIGNAL_PREFIX = 'DOCSAFE-P2P:';
+const ALGORITHM = 'AES-GCM';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const PEER_AAD = new TextEncoder().encode(`docsafe-p2p:${PEER_VERSION}`);
+// Keeps every message under the 16 KiB all browsers accept
+const CHUNK_SIZE = 16 * 1024 - 64;
+// Sending pauses while this much is queued in the channel
+const MAX_BUFFERED = 1024 * 1024;
+// Only local candidates are gathered without STUN servers, which is quick
+const ICE_GATHERING_TIMEOUT_MS = 3000;
+// A file failing verification is sent again once before it's given up
+const MAX_ATTEMPTS = 2;
+
+const CONTROL = 0;
+const CHUNK = 1;
+
+export interface PeerManifestEntry {
+  name: string;
+  type: 'pdf' | 'image';
+  mimeType: string;
+  category: string;
+  size: number;
+  sha256: string;
+}
+
+export interface PeerManifest {
+  folderName?: string;
+  files: PeerManifestEntry[];
+}
+
+// A document to send; decrypted only when the receiver asks for it
+export interface PeerFile extends Omit<PeerManifestEntry, 'size' | 'sha256'> {
+  load: () => Promise<ArrayBuffer>;
+}
+
+export interface ReceivedPeerFile extends Omit<PeerManifestEntry, 'sha256'> {
+  data: ArrayBuffer;
+}
+
+export type PeerStatus = 'connecting' | 'connected' | 'interrupted' | 'complete';
+
+export interface PeerSignal {
+  kind: 'offer' | 'answer';
+  session: number;
+  // Offers only
+  key?: Uint8Array;
+  sdp: string;
+}
+
+// Why a scanned code or a connection was refused
+export class PeerTransferError extends Error {
+  constructor(public reason: 'format' | 'session', message: string) {
+    super(message);
+    this.name = 'PeerTransferError';
+  }
+}
+
+type ControlMessage =
+  | { type: 'manifest'; manifest: PeerManifest }
+  | { type: 'request'; index: number; offset: number }
+  | { type: 'verified'; index: number; ok: boolean }
+  | { type: 'done' };
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export async function encodePeerSignal(signal: PeerSignal): Promise<string> {
+  const json = JSON.stringify({
+    v: PEER_VERSION,
+    kind: signal.kind,
+    session: signal.session,
+    key: signal.key && uint8ArrayToBase64Url(signal.key),
+    sdp: signal.sdp
+  });
+  return PEER_SIGNAL_PREFIX + uint8ArrayToBase64Url(await deflate(new TextEncoder().encode(json)));
+}
+
+export function isPeerSignal(text: string): boolean {
+  return text.startsWith(PEER_SIGNAL_PREFIX);
+}
+
+export async function parsePeerSignal(text: string): Promise<PeerSignal> {
+  if (!isPeerSignal(text)) {
+    throw new PeerTransferError('format', 'Not a nearby transfer code');
+  }
+
+  let signal: PeerSignal;
+  try {
+    const json = new TextDecoder().decode(await inflate(base64UrlToUint8Array(text.slice(PEER_SIGNAL_PREFIX.length))));
+    const parsed = JSON.parse(json);
+    signal = {
+      kind: parsed.kind,
+      session: parsed.session,
+      key: parsed.key ? base64UrlToUint8Array(parsed.key) : undefined,
+      sdp: parsed.sdp
+    };
+    if (parsed.v !== PEER_VERSION) throw new Error(`Unsupported version: ${parsed.v}`);
+  } catch {
+    throw new PeerTransferError('format', 'Malformed nearby transfer code');
+  }
+
+  if (
+    (signal.kind !== 'offer' && signal.kind !== 'answer') ||
+    typeof signal.session !== 'number' ||
+    typeof signal.sdp !== 'string' ||
+    (signal.kind === 'offer' && signal.key?.length !== KEY_LENGTH)
+  ) {
+    throw new PeerTransferError('format', 'Incomplete nearby transfer code');
+  }
+  return signal;
+}
+
+async function sha256(data: ArrayBuffer | Uint8Array): Promise<string> {
+  return uint8ArrayToBase64Url(new Uint8Array(await crypto.subtle.digest('SHA-256', data)));
+}
+
+function importSessionKey(raw: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', raw, ALGORITHM, false, ['encrypt', 'decrypt']);
+}
+
+async function seal(key: CryptoKey, kind: number, body: Uint8Array): Promise<ArrayBuffer> {
+  const plaintext = new Uint8Array(1 + body.length);
+  plaintext[0] = kind;
+  plaintext.set(body, 1);
+
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt({ name: ALGORITHM, iv, additionalData: PEER_AAD }, key, plaintext);
+  const message = new Uint8Array(IV_LENGTH + ciphertext.byteLength);
+  message.set(iv, 0);
+  message.set(new Uint8Array(ciphertext), IV_LENGTH);
+  return message.buffer;
+}
+
+async function unseal(key: CryptoKey, message: ArrayBuffer): Promise<{ kind: number; body: Uint8Array }> {
+  const bytes = new Uint8Array(message);
+  const plaintext = new Uint8Array(await crypto.subtle.decrypt(
+    { name: ALGORITHM, iv: bytes.slice(0, IV_LENGTH), additionalData: PEER_AAD },
+    key,
+    bytes.slice(IV_LENGTH)
+  ));
+  return { kind: plaintext[0], body: plaintext.subarray(1) };
+}
+
+// Messages left over on a closed channel are dropped; the transfer resumes on
+// the next connection
+function send(channel: RTCDataChannel, message: ArrayBuffer): void {
+  if (channel.readyState === 'open') {
+    channel.send(message);
+  }
+}
+
+async function sendControl(channel: RTCDataChannel, key: CryptoKey, message: ControlMessage): Promise<void> {
+  send(channel, await seal(key, CONTROL, new TextEncoder().encode(JSON.stringify(message))));
+}
+
+// Wait for room in the channel's send buffer
+function drain(channel: RTCDataChannel): Promise<void> {
+  if (channel.bufferedAmount <= MAX_BUFFERED) return Promise.resolve();
+  return new Promise(resolve => {
+    channel.addEventListener('bufferedamountlow', () => resolve(), { once: true });
+    channel.addEventListener('close', () => resolve(), { once: true });
+  });
+}
+
+// Handle incoming messages one at a time, in order; a message that fails to
+// decrypt or to parse ends the connection
+function receiveMessages(
+  connection: RTCPeerConnection,
+  channel: RTCDataChannel,
+  key: CryptoKey,
+  handle: (kind: number, body: Uint8Array) => Promise<void>
+): void {
+  let queue = Promise.resolve();
+  channel.binaryType = 'arraybuffer';
+  channel.onmessage = (event: MessageEvent<ArrayBuffer>) => {
+    queue = queue
+      .then(async () => {
+        const { kind, body } = await unseal(key, event.data);
+        await handle(kind, body);
+      })
+      .catch(error => {
+        console.error('Nearby transfer error:', error);
+        connection.close();
+      });
+  };
+}
+
+function parseControl(body: Uint8Array): ControlMessage {
+  return JSON.parse(new TextDecoder().decode(body));
+}
+
+// The description once candidates are gathered, since there is no channel to
+// send them later
+async function gatherCandidates(connection: RTCPeerConnection): Promise<string> {
+  if (connection.iceGatheringState !== 'complete') {
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(resolve, ICE_GATHERING_TIMEOUT_MS);
+      connection.addEventListener('icegatheringstatechange', () => {
+        if (connection.iceGatheringState === 'complete') {
+          clearTimeout(timer);
+          resolve();
+        }
+      });
+    });
+  }
+  return connection.localDescription!.sdp;
+}
+
+function createConnection(): RTCPeerConnection {
+  // Local network only: no STUN or TURN server is ever contacted
+  return new RTCPeerConnection({ iceServers: [] });
+}
+
+export interface PeerSenderEvents {
+  onStatus: (status: PeerStatus) => void;
+  onProgress: (index: number, sent: number) => void;
+  onVerified: (index: number, ok: boolean) => void;
+}
+
+export interface PeerSender {
+  manifest: PeerManifest;
+  // Start a connection, or a new one after an interruption; returns the offer code
+  offer: () => Promise<string>;
+  // Complete the connection with the receiver's answer code
+  accept: (answer: string) => Promise<void>;
+  close: () => void;
+}
+
+/**
+ * Prepare files for a nearby transfer. Each file is decrypted once here to
+ * hash it for the manifest, then again when the receiver asks for it.
+ */
+export async function createPeerSender(
+  files: PeerFile[],
+  folderName: string | undefined,
+  events: PeerSenderEvents
+): Promise<PeerSender> {
+  const session = crypto.getRandomValues(new Uint32Array(1))[0];
+  const rawKey = crypto.getRandomValues(new Uint8Array(KEY_LENGTH));
+  const key = await importSessionKey(rawKey);
+
+  const entries: PeerManifestEntry[] = [];
+  for (const { load, ...file } of files) {
+    const data = await load();
+    entries.push({ ...file, size: data.byteLength, sha256: await sha256(data) });
+  }
+  const manifest: PeerManifest = { folderName, files: entries };
+
+  let connection: RTCPeerConnection | null = null;
+  let complete = false;
+  let loaded: { index: number; data: Uint8Array } | null = null;
+
+  const stream = async (channel: RTCDataChannel, index: number, offset: number) => {
+    if (!files[index]) return;
+    if (loaded?.index !== index) {
+      loaded = { index, data: new Uint8Array(await files[index].load()) };
+    }
+    const { data } = loaded;
+
+    for (let position = offset; position < data.length; position += CHUNK_SIZE) {
+      await drain(channel);
+      if (channel.readyState !== 'open') return;
+
+      const chunk = data.subarray(position, position + CHUNK_SIZE);
+      const body = new Uint8Array(8 + chunk.length);
+      const view = new DataView(body.buffer);
+      view.setUint32(0, index);
+      view.setUint32(4, position);
+      body.set(chunk, 8);
+      send(channel, await seal(key, CHUNK, body));
+      events.onProgress(index, position + chunk.length);
+    }
+  };
+
+  return {
+    manifest,
+    async offer() {
+      connection?.close();
+      const current = createConnection();
+      connection = current;
+
+      const interrupted = () => {
+        if (connection === current && !complete) events.onStatus('interrupted');
+      };
+      current.onconnectionstatechange = () => {
+        if (current.connectionState === 'failed') interrupted();
+      };
+
+      const channel = current.createDataChannel('docsafe', { ordered: true });
+      channel.bufferedAmountLowThreshold = MAX_BUFFERED / 2;
+      channel.onopen = () => {
+        events.onStatus('connected');
+        sendControl(channel, key, { type: 'manifest', manifest });
+      };
+      channel.onclose = interrupted;
+      receiveMessages(current, channel, key, async (kind, body) => {
+        if (kind !== CONTROL) return;
+        const message = parseControl(body);
+        if (message.type === 'request') {
+          await stream(channel, message.index, message.offset);
+        } else if (message.type === 'verified') {
+          events.onVerified(message.index, message.ok);
+        } else if (message.type === 'done') {
+          complete = true;
+          loaded = null;
+          events.onStatus('complete');
+          current.close();
+        }
+      });
+
+      events.onStatus('connecting');
+      await current.setLocalDescription(await current.createOffer());
+      return encodePeerSignal({ kind: 'offer', session, key: rawKey, sdp: await gatherCandidates(current) });
+    },
+    async accept(answer) {
+      const signal = await parsePeerSignal(answer);
+      if (signal.kind !== 'answer' || signal.session !== session) {
+        throw new PeerTransferError('session', 'Answer belongs to another transfer');
+      }
+      if (!connection) {
+        throw new PeerTransferError('session', 'No offer to answer');
+      }
+      await connection.setRemoteDescription({ type: 'answer', sdp: signal.sdp });
+    },
+    close() {
+      const current = connection;
+      connection = null;
+      loaded = null;
+      current?.close();
+    }
+  };
+}
+
+export interface PeerReceiverEvents {
+  onStatus: (status: PeerStatus) => void;
+  onManifest: (manifest: PeerManifest) => void;
+  onProgress: (index: number, received: number) => void;
+  // A verified file; it's only acknowledged once this resolves
+  onFile: (index: number, file: ReceivedPeerFile) => Promise<void>;
+  onFailed: (index: number) => void;
+}
+
+export interface PeerReceiver {
+  // Answer an offer code; the first one picks the session, later ones resume it
+  answer: (offer: string) => Promise<string>;
+  close: () => void;
+}
+
+// Received files are only kept in memory until handed to onFile
+export function createPeerReceiver(events: PeerReceiverEvents): PeerReceiver {
+  let session: number | null = null;
+  let key: CryptoKey;
+  let connection: RTCPeerConnection | null = null;
+  let manifest: PeerManifest | null = null;
+  let buffers: (Uint8Array | null)[] = [];
+  let received: number[] = [];
+  let attempts: number[] = [];
+  // The file being received; earlier ones are done
+  let current = 0;
+  let complete = false;
+
+  const next = async (channel: RTCDataChannel): Promise<void> => {
+    const files = manifest!.files;
+    if (current >= files.length) {
+      complete = true;
+      await sendControl(channel, key, { type: 'done' });
+      events.onStatus('complete');
+      return;
+    }
+    buffers[current] ??= new Uint8Array(files[current].size);
+    if (received[current] < files[current].size) {
+      await sendControl(channel, key, { type: 'request', index: current, offset: received[current] });
+    } else {
+      await verify(channel, current);
+    }
+  };
+
+  const verify = async (channel: RTCDataChannel, index: number) => {
+    const { sha256: expected, ...entry } = manifest!.files[index];
+    const data = buffers[index]!;
+
+    let ok = await sha256(data) === expected;
+    if (!ok && ++attempts[index] < MAX_ATTEMPTS) {
+      received[index] = 0;
+      events.onProgress(index, 0);
+      await next(channel);
+      return;
+    }
+    if (ok) {
+      try {
+        await events.onFile(index, { ...entry, data: data.buffer as ArrayBuffer });
+      } catch (error) {
+        console.error('Error saving received file:', error);
+        ok = false;
+      }
+    }
+    if (!ok) events.onFailed(index);
+
+    buffers[index] = null;
+    current++;
+    await sendControl(channel, key, { type: 'verified', index, ok });
+    await next(channel);
+  };
+
+  const handle = (channel: RTCDataChannel) => async (kind: number, body: Uint8Array) => {
+    if (kind === CONTROL) {
+      const message = parseControl(body);
+      if (message.type !== 'manifest') return;
+      // A resumed session announces the same manifest again
+      if (!manifest) {
+        if (!Array.isArray(message.manifest?.files) || message.manifest.files.some(file => !(file.size >= 0))) {
+          throw new PeerTransferError('format', 'Malformed manifest');
+        }
+        manifest = message.manifest;
+        received = manifest.files.map(() => 0);
+        attempts = manifest.files.map(() => 0);
+        events.onManifest(manifest);
+      }
+      await next(channel);
+      return;
+    }
+
+    if (kind !== CHUNK || !manifest) return;
+    const view = new DataView(body.buffer, body.byteOffset, body.byteLength);
+    const index = view.getUint32(0);
+    const offset = view.getUint32(4);
+    // Chunks sent before a resume or a retry
+    if (index !== current || offset !== received[index]) return;
+
+    const chunk = body.subarray(8);
+    const size = manifest.files[index].size;
+    if (offset + chunk.length > size) {
+      throw new PeerTransferError('format', 'Chunk past the end of the file');
+    }
+    buffers[index]!.set(chunk, offset);
+    received[index] += chunk.length;
+    events.onProgress(index, received[index]);
+    if (received[index] === size) {
+      await verify(channel, index);
+    }
+  };
+
+  return {
+    async answer(offer) {
+      const signal = await parsePeerSignal(offer);
+      if (signal.kind !== 'offer') {
+        throw new PeerTransferError('format', 'Expected an offer code');
+      }
+      if (session !== null && signal.session !== session) {
+        throw new PeerTransferError('session', 'Offer belongs to another transfer');
+      }
+      if (session === null) {
+        session = signal.session;
+        key = await importSessionKey(signal.key!);
+      }
+
+      connection?.close();
+      const current = createConnection();
+      connection = current;
+
+      const interrupted = () => {
+        if (connection === current && !complete) events.onStatus('interrupted');
+      };
+      current.onconnectionstatechange = () => {
+        if (current.connectionState === 'failed') interrupted();
+      };
+      current.ondatachannel = ({ channel }) => {
+        channel.onclose = interrupted;
+        receiveMessages(current, channel, key, handle(channel));
+        events.onStatus('connected');
+      };
+
+      events.onStatus('connecting');
+      await current.setRemoteDescription({ type: 'offer', sdp: signal.sdp });
+      await current.setLocalDescription(await current.createAnswer());
+      return encodePeerSignal({ kind: 'answer', session, sdp: await gatherCandidates(current) });
+    },
+    close() {
+      const current = connection;
+      connection = null;
+      buffers = [];
+      current?.close();
+    }
+  };
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createQrTransfer,
+  createQrTransferReceiver,
+  parseTransferFrame,
+  TRANSFER_BLOCK_SIZE
+} from '@/lib/qrTransfer';
+import { uint8ArrayToBase64Url } from '@/lib/base64';
+
+const ORIGIN = 'https://docsafe.example';
+
+function frameLink(length: number, blockSize: number): string {
+  const frame = new Uint8Array(1 + 4 + 4 + 2 + 4 + 32 + blockSize);
+  const view = new DataView(frame.buffer);
+  view.setUint8(0, 1);
+  view.setUint32(1, 42);
+  view.setUint32(5, length);
+  view.setUint16(9, blockSize);
+  return `${ORIGIN}/receive#f=${uint8ArrayToBase64Url(frame)}`;
+}
+
+describe('animated QR transfer', () => {
+  it('rebuilds the payload from the frames', () => {
+    const payload = crypto.getRandomValues(new Uint8Array(3 * TRANSFER_BLOCK_SIZE + 17));
+    const key = crypto.getRandomValues(new Uint8Array(32));
+    const sender = createQrTransfer({ payload, key }, ORIGIN);
+    const receiver = createQrTransferReceiver();
+
+    for (let seq = 0; !receiver.result() && seq < 200; seq++) {
+      receiver.add(parseTransferFrame(sender.frame(seq))!);
+    }
+    expect(receiver.result()).toEqual({ payload, key });
+  });
+
+  it('moves on from a frame of an earlier transfer read first', () => {
+    const key = crypto.getRandomValues(new Uint8Array(32));
+    const stale = createQrTransfer({ payload: new Uint8Array(2000), key }, ORIGIN);
+    const payload = crypto.getRandomValues(new Uint8Array(2 * TRANSFER_BLOCK_SIZE));
+    const sender = createQrTransfer({ payload, key }, ORIGIN);
+    const receiver = createQrTransferReceiver();
+
+    expect(receiver.add(parseTransferFrame(stale.frame(0))!)).toBe(true);
+    for (let seq = 0; !receiver.result() && seq < 200; seq++) {
+      receiver.add(parseTransferFrame(sender.frame(seq))!);
+    }
+    expect(receiver.result()?.payload).toEqual(payload);
+  });
+
+  it('rejects frames announcing a payload the sender never sends', () => {
+    expect(parseTransferFrame(frameLink(0xffffffff, TRANSFER_BLOCK_SIZE))).toBeNull();
+    expect(parseTransferFrame(frameLink(0xffffffff, 1))).toBeNull();
+    expect(parseTransferFrame(frameLink(1000, 1))).toBeNull();
+    expect(parseTransferFrame(frameLink(1000, TRANSFER_BLOCK_SIZE))).not.toBeNull();
+  });
+});
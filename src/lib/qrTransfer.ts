@@ -0,0 +1,148 @@
+// Animated QR transfer for shares too large for one code: the encrypted share
+// payload is fountain-coded (see fountain) into an endless sequence of frames
+// cycled on screen, and the receiver rebuilds it from whichever frames it
+// catches. Every frame is a /receive link, so scanning any of them with a
+// plain camera app opens the receiver, which then reads the rest.
+//
+//   /receive#f=<frame>
+//
+// Frame: version (u8), session (u32), payload length (u32), block size (u16),
+// sequence number (u32), share key (32 bytes), then the encoded block.
+import { FountainEncoder, FountainDecoder } from '@/lib/fountain';
+import { uint8ArrayToBase64Url, base64UrlToUint8Array } from '@/lib/base64';
+import { SharePayload } from '@/lib/shareLink';
+
+const TRANSFER_VERSION = 1;
+const KEY_LENGTH = 32;
+const FRAME_HEADER_LENGTH = 1 + 4 + 4 + 2 + 4 + KEY_LENGTH;
+// Kept small so each frame stays an easy-to-read QR code
+export const TRANSFER_BLOCK_SIZE = 400;
+export const FRAME_INTERVAL_MS = 200;
+// Above this a transfer takes too long to be practical
+export const MAX_TRANSFER_SIZE = 1024 * 1024;
+// Frames needed on average, relative to the block count, with a few missed
+const EXPECTED_OVERHEAD = 1.3;
+
+export interface TransferFrame {
+  session: number;
+  length: number;
+  blockSize: number;
+  seq: number;
+  key: Uint8Array;
+  block: Uint8Array;
+}
+
+export interface QrTransferSender {
+  frameCount: number;
+  // Frame text for any sequence number; the sender just keeps counting
+  frame: (seq: number) => string;
+}
+
+export function createQrTransfer(share: SharePayload, origin = window.location.origin): QrTransferSender {
+  const session = crypto.getRandomValues(new Uint32Array(1))[0];
+  const encoder = new FountainEncoder(share.payload, TRANSFER_BLOCK_SIZE, session);
+
+  return {
+    frameCount: encoder.blockCount,
+    frame(seq) {
+      const frame = new Uint8Array(FRAME_HEADER_LENGTH + TRANSFER_BLOCK_SIZE);
+      const view = new DataView(frame.buffer);
+      view.setUint8(0, TRANSFER_VERSION);
+      view.setUint32(1, session);
+      view.setUint32(5, share.payload.length);
+      view.setUint16(9, TRANSFER_BLOCK_SIZE);
+      view.setUint32(11, seq);
+      frame.set(share.key, 15);
+      frame.set(encoder.encode(seq), FRAME_HEADER_LENGTH);
+      return `${origin}/receive#f=${uint8ArrayToBase64Url(frame)}`;
+    }
+  };
+}
+
+// Rough time to receive a payload, to size the share expiry
+export function estimateTransferSeconds(payloadLength: number): number {
+  const blocks = Math.ceil(payloadLength / TRANSFER_BLOCK_SIZE);
+  return Math.ceil(blocks * EXPECTED_OVERHEAD * FRAME_INTERVAL_MS / 1000);
+}
+
+// Parse a scanned frame, or a /receive#f= link holding one; null for anything else
+export function parseTransferFrame(text: string): TransferFrame | null {
+  const marker = text.indexOf('#f=');
+  if (marker === -1) return null;
+
+  let frame: Uint8Array;
+  try {
+    frame = base64UrlToUint8Array(text.slice(marker + 3));
+  } catch {
+    return null;
+  }
+  if (frame.length <= FRAME_HEADER_LENGTH) return null;
+
+  const view = new DataView(frame.buffer, frame.byteOffset, frame.byteLength);
+  if (view.getUint8(0) !== TRANSFER_VERSION) return null;
+  const blockSize = view.getUint16(9);
+  if (blockSize !== TRANSFER_BLOCK_SIZE || frame.length !== FRAME_HEADER_LENGTH + blockSize) return null;
+  // The sender never cycles a larger payload; the decoder is sized from this length
+  const length = view.getUint32(5);
+  if (length === 0 || length > MAX_TRANSFER_SIZE) return null;
+
+  return {
+    session: view.getUint32(1),
+    length,
+    blockSize,
+    seq: view.getUint32(11),
+    key: frame.slice(15, FRAME_HEADER_LENGTH),
+    block: frame.slice(FRAME_HEADER_LENGTH)
+  };
+}
+
+export interface QrTransferReceiver {
+  // Returns false for frames of another transfer or already received
+  add: (frame: TransferFrame) => boolean;
+  progress: () => number;
+  // The share payload, once every block is rebuilt
+  result: () => SharePayload | null;
+}
+
+// Frames of another transfer in a row after which the receiver switches to it
+const SESSION_SWITCH_FRAMES = 3;
+
+// The first frame added picks the transfer. Frames from another one are
+// ignored, unless they keep coming: the first code read may have been left
+// over from an earlier transfer, and the receiver then starts over.
+export function createQrTransferReceiver(): QrTransferReceiver {
+  let decoder: FountainDecoder | null = null;
+  let session: number;
+  let key: Uint8Array;
+  let otherSession: number | null = null;
+  let otherFrames = 0;
+
+  const start = (frame: TransferFrame) => {
+    decoder = new FountainDecoder(frame.length, frame.blockSize, frame.session);
+    session = frame.session;
+    key = frame.key;
+  };
+
+  return {
+    add(frame) {
+      if (!decoder) {
+        start(frame);
+      }
+      if (frame.session === session) {
+        otherFrames = 0;
+      } else {
+        otherFrames = frame.session === otherSession ? otherFrames + 1 : 1;
+        otherSession = frame.session;
+        if (otherFrames < SESSION_SWITCH_FRAMES || decoder.isComplete) return false;
+        start(frame);
+        otherFrames = 0;
+      }
+      if (frame.length !== decoder.length || frame.blockSize !== decoder.blockSize) {
+        return false;
+      }
+      return decoder.add(frame.seq, frame.block);
+    },
+    progress: () => decoder?.progress ?? 0,
+    result: () => decoder?.isComplete ? { payload: decoder.result(), key } : null
+  };
+}
@@ -0,0 +1,34 @@
+// Redaction: opaque boxes burnt into a flattened copy of a document, to hide a
+// number, photo or signature before sharing. PDFs are rendered to images first,
+// so the text under a box is gone rather than merely covered.
+import { flattenDocument, MergeSource } from '@/lib/pdfMerge';
+
+export interface RedactionBox {
+  page: number;
+  // Fractions of the page size, from the top left corner
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export function drawRedactions(context: CanvasRenderingContext2D, width: number, height: number, boxes: RedactionBox[]): void {
+  context.save();
+  context.fillStyle = '#000000';
+  for (const box of boxes) {
+    // Rounded outwards so no edge pixel of the hidden content survives
+    const left = Math.floor(box.x * width);
+    const top = Math.floor(box.y * height);
+    context.fillRect(left, top, Math.ceil((box.x + box.width) * width) - left, Math.ceil((box.y + box.height) * height) - top);
+  }
+  context.restore();
+}
+
+/**
+ * A redacted copy of a decrypted document. The original is left as it is.
+ */
+export function redactCopy(source: MergeSource, boxes: RedactionBox[]): Promise<MergeSource> {
+  return flattenDocument(source, (context, width, height, page) =>
+    drawRedactions(context, width, height, boxes.filter(box => box.page === page))
+  );
+}
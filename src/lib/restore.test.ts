@@ -0,0 +1,161 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { generateKey, encryptString, decryptString } from '@/lib/crypto';
+import { uint8ArrayToBase64Url } from '@/lib/base64';
+import { encryptDocumentFile } from '@/lib/documentCrypto';
+
+// Each test gets an empty IndexedDB and fresh modules, so storage's cached connection doesn't leak
+beforeEach(() => {
+  globalThis.indexedDB = new IDBFactory();
+  vi.resetModules();
+});
+
+async function loadModules() {
+  return {
+    storage: await import('@/lib/storage'),
+    backup: await import('@/lib/backup'),
+    restore: await import('@/lib/restore'),
+    identity: await import('@/lib/identity'),
+    vaultKey: await import('@/lib/vaultKey')
+  };
+}
+
+// A new, unlocked vault on an empty device
+async function openNewVault() {
+  const modules = await loadModules();
+  const masterKey = await generateKey();
+  await modules.vaultKey.unlockMetadata(masterKey);
+  return { ...modules, masterKey, vaultKeys: [{ key: masterKey, keyGeneration: 0 }] };
+}
+
+describe('backup and restore', () => {
+  it('carries the identity and contacts over to another vault', async () => {
+    const source = await openNewVault();
+    const { publicKey } = await source.identity.getIdentity(source.masterKey);
+    await source.storage.saveContact({
+      id: 'contact-1',
+      name: 'Camille',
+      publicKey: uint8ArrayToBase64Url(new Uint8Array(32).fill(7)),
+      createdAt: new Date('2025-03-01')
+    });
+    const backupKey = await source.backup.deriveBackupKey('Phrase-de-passe1');
+    const archive = await source.backup.createBackup(backupKey, source.vaultKeys);
+
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    const target = await openNewVault();
+    const opened = await target.backup.openBackup(archive, 'Phrase-de-passe1');
+    await target.restore.restoreBackup(opened, 'replace', target.vaultKeys[0], target.masterKey);
+
+    const restored = await target.identity.getIdentity(target.masterKey);
+    expect(restored.publicKey).toEqual(publicKey);
+    const contacts = await target.storage.getAllContacts();
+    expect(contacts.map(contact => contact.name)).toEqual(['Camille']);
+    expect(contacts[0].createdAt).toEqual(new Date('2025-03-01'));
+  });
+
+  it('carries preferences over but not the reminders sent on the device', async () => {
+    const source = await openNewVault();
+    const reminders = JSON.stringify({ enabled: true, leadMonths: { identity: 2, passport: 9, driving: 3 } });
+    await source.storage.saveSettings({
+      theme: 'dark',
+      expiryReminders: reminders,
+      expiryRemindersSent: JSON.stringify({ 'doc-1': 'soon' })
+    });
+    const backupKey = await source.backup.deriveBackupKey('Phrase-de-passe1');
+    const archive = await source.backup.createBackup(backupKey, source.vaultKeys);
+
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    const target = await openNewVault();
+    const opened = await target.backup.openBackup(archive, 'Phrase-de-passe1');
+    await target.restore.restoreBackup(opened, 'replace', target.vaultKeys[0], target.masterKey);
+
+    expect(await target.storage.getSetting('theme')).toBe('dark');
+    expect(await target.storage.getSetting('expiryReminders')).toBe(reminders);
+    expect(await target.storage.getSetting('expiryRemindersSent')).toBeUndefined();
+  });
+
+  it('carries the watermark presets over under the new master key', async () => {
+    const source = await openNewVault();
+    const presets = JSON.stringify([{ recipient: 'Agence Dupont', purpose: 'Location', usedAt: 1 }]);
+    await source.storage.saveSetting('encryptedWatermarkPresets', await encryptString(presets, source.masterKey));
+    const backupKey = await source.backup.deriveBackupKey('Phrase-de-passe1');
+    const archive = await source.backup.createBackup(backupKey, source.vaultKeys);
+
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    const target = await openNewVault();
+    const opened = await target.backup.openBackup(archive, 'Phrase-de-passe1');
+    await target.restore.restoreBackup(opened, 'replace', target.vaultKeys[0], target.masterKey);
+
+    const stored = await target.storage.getSetting('encryptedWatermarkPresets');
+    expect(await decryptString(stored!, target.masterKey)).toBe(presets);
+  });
+
+  it('carries the share log over with the documents it refers to', async () => {
+    const source = await openNewVault();
+    await source.storage.saveDocument({
+      id: 'doc-1',
+      name: 'Passeport',
+      category: 'passport',
+      type: 'image',
+      mimeType: 'text/plain',
+      size: 4,
+      ...await encryptDocumentFile('doc-1', new Blob(['data']), source.masterKey),
+      createdAt: new Date('2025-01-01'),
+      updatedAt: new Date('2025-01-01')
+    });
+    await source.storage.addShareLogEntry({
+      id: 'share-1',
+      documentId: 'doc-1',
+      documentName: 'Passeport',
+      method: 'qr',
+      sharedAt: new Date('2025-02-01')
+    });
+    const backupKey = await source.backup.deriveBackupKey('Phrase-de-passe1');
+    const archive = await source.backup.createBackup(backupKey, source.vaultKeys);
+
+    // Restoring next to the original gives the copy a new id
+    const opened = await source.backup.openBackup(archive, 'Phrase-de-passe1');
+    await source.storage.clearShareLog();
+    await source.restore.restoreBackup(opened, 'merge', source.vaultKeys[0], source.masterKey);
+
+    const copy = (await source.storage.getAllDocuments()).find(doc => doc.id !== 'doc-1');
+    const entries = await source.storage.getShareLog();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].documentId).toBe(copy!.id);
+    expect(entries[0].sharedAt).toEqual(new Date('2025-02-01'));
+  });
+
+  it('refuses an archive whose header asks for an unreasonable key derivation', async () => {
+    const source = await openNewVault();
+    const backupKey = await source.backup.deriveBackupKey('Phrase-de-passe1');
+    const archive = await source.backup.createBackup(backupKey, source.vaultKeys);
+
+    const { header, dataStart } = await source.backup.readBackupHeader(archive);
+    const headerBytes = new TextEncoder().encode(JSON.stringify({ ...header, kdf: { ...header.kdf, iterations: 1e9 } }));
+    const length = new Uint8Array(4);
+    new DataView(length.buffer).setUint32(0, headerBytes.length);
+    const tampered = new Blob(['DOCSAFE\n', length, headerBytes, archive.slice(dataStart)]);
+
+    await expect(source.backup.openBackup(tampered, 'Phrase-de-passe1')).rejects.toMatchObject({ reason: 'format' });
+  });
+
+  it('keeps the identity of the vault when merging', async () => {
+    const source = await openNewVault();
+    await source.identity.getIdentity(source.masterKey);
+    const backupKey = await source.backup.deriveBackupKey('Phrase-de-passe1');
+    const archive = await source.backup.createBackup(backupKey, source.vaultKeys);
+
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    const target = await openNewVault();
+    const { publicKey } = await target.identity.getIdentity(target.masterKey);
+    const opened = await target.backup.openBackup(archive, 'Phrase-de-passe1');
+    await target.restore.restoreBackup(opened, 'merge', target.vaultKeys[0], target.masterKey);
+
+    expect((await target.identity.getIdentity(target.masterKey)).publicKey).toEqual(publicKey);
+  });
+});
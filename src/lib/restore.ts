@@ -0,0 +1,259 @@
+// Restoring a .docsafe archive. Documents are decrypted from the archive and
+// re-encrypted under the current vault key with fresh data keys, so nothing
+// from the archive's key hierarchy survives in the vault. Settings encrypted
+// with the master key are encrypted again under the current one.
+import {
+  getAllDocuments,
+  getAllDocumentIds,
+  getAllFolders,
+  saveDocument,
+  saveFolder,
+  deleteDocument,
+  deleteFolder,
+  getAllContacts,
+  saveContact,
+  deleteContact,
+  getShareLog,
+  addShareLogEntry,
+  clearShareLog,
+  getSetting,
+  saveSettings,
+  Document
+} from '@/lib/storage';
+import { encryptString } from '@/lib/crypto';
+import { encryptDocumentFile, decryptDocumentBlob } from '@/lib/documentCrypto';
+import {
+  readBackupDocument,
+  BACKUP_SETTINGS,
+  BACKUP_WRAPPED_SETTINGS,
+  BackupDocument,
+  BackupManifest,
+  OpenedBackup,
+  VaultKey
+} from '@/lib/backup';
+import { uint8ArrayToBase64 } from '@/lib/base64';
+
+// 'replace': the vault ends up with exactly the archive content.
+// 'merge': archive documents are added next to the existing ones.
+export type RestoreMode = 'replace' | 'merge';
+
+export type ConflictResolution = 'keepBoth' | 'newest' | 'skip';
+
+export interface RestoreConflict {
+  entry: BackupDocument;
+  existing: Document;
+  reason: 'id' | 'content';
+}
+
+export interface RestoreProgress {
+  done: number;
+  total: number;
+}
+
+export interface RestoreResult {
+  imported: number;
+  replaced: number;
+  skipped: number;
+  failed: { id: string; name: string }[];
+}
+
+async function hashContent(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return uint8ArrayToBase64(new Uint8Array(digest));
+}
+
+/**
+ * Find archive documents already in the vault, under the same id or with the
+ * same content. Both sides are decrypted to compare contents.
+ */
+export async function findRestoreConflicts(
+  backup: OpenedBackup,
+  getDocumentKey: (doc: Document) => CryptoKey | null,
+  onProgress?: (progress: RestoreProgress) => void
+): Promise<RestoreConflict[]> {
+  const existing = await getAllDocuments();
+  const total = existing.length + backup.manifest.documents.length;
+  let done = 0;
+
+  const byId = new Map(existing.map(doc => [doc.id, doc]));
+  const byContent = new Map<string, Document>();
+  for (const doc of existing) {
+    try {
+      byContent.set(await hashContent(await decryptDocumentBlob(doc, getDocumentKey(doc))), doc);
+    } catch (error) {
+      console.error('Could not read document for comparison:', doc.id, error);
+    }
+    onProgress?.({ done: ++done, total });
+  }
+
+  const conflicts: RestoreConflict[] = [];
+  for (const entry of backup.manifest.documents) {
+    const sameId = byId.get(entry.id);
+    if (sameId) {
+      conflicts.push({ entry, existing: sameId, reason: 'id' });
+    } else {
+      const sameContent = byContent.get(await hashContent(await readBackupDocument(backup, entry)));
+      if (sameContent) {
+        conflicts.push({ entry, existing: sameContent, reason: 'content' });
+      }
+    }
+    onProgress?.({ done: ++done, total });
+  }
+
+  return conflicts;
+}
+
+// Replace mode takes the archive's settings; merge mode only fills in those the
+// vault lacks, so that an existing identity is never swapped for another
+async function restoreSettings(manifest: BackupManifest, mode: RestoreMode, masterKey: CryptoKey): Promise<void> {
+  const updates: Record<string, string> = {};
+  const isKept = async (key: string) => mode === 'merge' && await getSetting(key) !== undefined;
+
+  for (const [key, value] of Object.entries(manifest.settings)) {
+    if (BACKUP_SETTINGS.includes(key) && !await isKept(key)) {
+      updates[key] = value;
+    }
+  }
+  for (const [key, value] of Object.entries(manifest.wrappedSettings ?? {})) {
+    if (BACKUP_WRAPPED_SETTINGS.includes(key) && !await isKept(key)) {
+      updates[key] = await encryptString(value, masterKey);
+    }
+  }
+  await saveSettings(updates);
+}
+
+// Contacts already in the vault under the same public key are kept as they are
+async function restoreContacts(manifest: BackupManifest, mode: RestoreMode): Promise<void> {
+  if (!manifest.contacts) return;
+
+  const existing = await getAllContacts();
+  const knownKeys = new Set(existing.map(contact => contact.publicKey));
+  for (const contact of manifest.contacts) {
+    if (mode === 'merge' && knownKeys.has(contact.publicKey)) continue;
+    await saveContact({ ...contact, createdAt: new Date(contact.createdAt) });
+  }
+
+  if (mode === 'replace') {
+    const archiveIds = new Set(manifest.contacts.map(contact => contact.id));
+    for (const contact of existing) {
+      if (!archiveIds.has(contact.id)) await deleteContact(contact.id);
+    }
+  }
+}
+
+// Entries follow their document when it was restored under another id
+async function restoreShareLog(
+  manifest: BackupManifest,
+  mode: RestoreMode,
+  documentIds: Map<string, string>
+): Promise<void> {
+  if (!manifest.shareLog) return;
+
+  if (mode === 'replace') {
+    await clearShareLog();
+  }
+  const existingIds = new Set(mode === 'merge' ? (await getShareLog()).map(entry => entry.id) : []);
+  for (const entry of manifest.shareLog) {
+    if (existingIds.has(entry.id)) continue;
+    await addShareLogEntry({
+      ...entry,
+      documentId: documentIds.get(entry.documentId) ?? entry.documentId,
+      sharedAt: new Date(entry.sharedAt)
+    });
+  }
+}
+
+/**
+ * Import the archive into the vault. Conflicts without a resolution are skipped.
+ * In replace mode the previous documents, folders, contacts, share log and settings are only
+ * replaced once every archive document has been imported, so a failure never
+ * leaves the vault emptier. `masterKey` is the key settings are encrypted with,
+ * which differs from `currentKey` while a key rotation runs.
+ */
+export async function restoreBackup(
+  backup: OpenedBackup,
+  mode: RestoreMode,
+  currentKey: VaultKey,
+  masterKey: CryptoKey,
+  conflicts: RestoreConflict[] = [],
+  resolutions: Record<string, ConflictResolution> = {},
+  onProgress?: (progress: RestoreProgress) => void
+): Promise<RestoreResult> {
+  const result: RestoreResult = { imported: 0, replaced: 0, skipped: 0, failed: [] };
+  const conflictsByEntry = new Map(conflicts.map(conflict => [conflict.entry.id, conflict]));
+  const existingIds = new Set(await getAllDocumentIds());
+  const restoredIds = new Set<string>();
+  // Archive id -> id of the matching document in the vault, where they differ
+  const documentIds = new Map<string, string>();
+
+  const existingFolderIds = new Set((await getAllFolders()).map(folder => folder.id));
+  for (const folder of backup.manifest.folders) {
+    if (mode === 'merge' && existingFolderIds.has(folder.id)) continue;
+    await saveFolder({ ...folder, createdAt: new Date(folder.createdAt) });
+  }
+
+  const total = backup.manifest.documents.length;
+  let done = 0;
+  for (const entry of backup.manifest.documents) {
+    let replaces: Document | undefined;
+    const conflict = mode === 'merge' ? conflictsByEntry.get(entry.id) : undefined;
+    if (conflict) {
+      const resolution = resolutions[entry.id] ?? 'skip';
+      const archiveIsNewer = new Date(entry.updatedAt) > new Date(conflict.existing.updatedAt);
+      if (resolution === 'skip' || (resolution === 'newest' && !archiveIsNewer)) {
+        documentIds.set(entry.id, conflict.existing.id);
+        result.skipped++;
+        onProgress?.({ done: ++done, total });
+        continue;
+      }
+      if (resolution === 'newest') {
+        replaces = conflict.existing;
+      }
+    }
+
+    try {
+      // Never write segments under an id that's in use: the new record gets its own
+      const id = existingIds.has(entry.id) || restoredIds.has(entry.id) ? crypto.randomUUID() : entry.id;
+      const data = await readBackupDocument(backup, entry);
+      const { payload, ...fields } = entry;
+      await saveDocument({
+        ...fields,
+        id,
+        ...await encryptDocumentFile(id, data, currentKey.key),
+        keyGeneration: currentKey.keyGeneration,
+        createdAt: new Date(entry.createdAt),
+        updatedAt: new Date(entry.updatedAt)
+      });
+      restoredIds.add(id);
+      documentIds.set(entry.id, id);
+
+      if (replaces) {
+        await deleteDocument(replaces.id);
+        result.replaced++;
+      } else {
+        result.imported++;
+      }
+    } catch (error) {
+      console.error('Restore failed for document:', entry.id, error);
+      result.failed.push({ id: entry.id, name: entry.name });
+    }
+    onProgress?.({ done: ++done, total });
+  }
+
+  if (mode === 'replace' && result.failed.length === 0) {
+    for (const id of existingIds) {
+      if (!restoredIds.has(id)) await deleteDocument(id);
+    }
+    const archiveFolderIds = new Set(backup.manifest.folders.map(folder => folder.id));
+    for (const id of existingFolderIds) {
+      if (!archiveFolderIds.has(id)) await deleteFolder(id);
+    }
+  }
+  if (mode === 'merge' || result.failed.length === 0) {
+    await restoreSettings(backup.manifest, mode, masterKey);
+    await restoreContacts(backup.manifest, mode);
+    await restoreShareLog(backup.manifest, mode, documentIds);
+  }
+
+  return result;
+}
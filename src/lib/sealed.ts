@@ -0,0 +1,175 @@
+// Documents sealed for a contact: encrypted so that only the vault holding the
+// recipient's identity key can open them, whatever carries the file (email,
+// messaging app, USB stick). The key comes from two X25519 agreements with the
+// recipient's key: one from a fresh ephemeral key, so every file gets its own
+// key, and one from the sender's identity key, so a file that opens was
+// necessarily sealed by that sender.
+//
+// File: magic, ephemeral public key, sender public key, recipient public key,
+// iv, then AES-GCM(uint32 header length, header JSON, file bytes) with
+// everything before the iv as additional data.
+import { Identity, IDENTITY_ALGORITHM, PUBLIC_KEY_LENGTH, importPublicKey } from '@/lib/identity';
+
+const SEALED_VERSION = 1;
+const SEALED_MAGIC = new TextEncoder().encode('DSSEALED');
+const IV_LENGTH = 12;
+const PREFIX_LENGTH = SEALED_MAGIC.length + 3 * PUBLIC_KEY_LENGTH;
+const SEALED_INFO = new TextEncoder().encode(`docsafe-sealed:${SEALED_VERSION}`);
+export const SEALED_EXTENSION = '.dssealed';
+export const SEALED_MIME_TYPE = 'application/octet-stream';
+
+export interface SealedFile {
+  name: string;
+  type: 'pdf' | 'image';
+  mimeType: string;
+  size: number;
+  sealedAt: number;
+  data: ArrayBuffer;
+  // Identity public key of whoever sealed it
+  senderKey: Uint8Array;
+}
+
+interface SealedHeader {
+  version: number;
+  name: string;
+  type: 'pdf' | 'image';
+  mimeType: string;
+  sealedAt: number;
+}
+
+// Why a sealed file was refused
+export class SealedDocumentError extends Error {
+  constructor(public reason: 'format' | 'recipient' | 'integrity', message: string) {
+    super(message);
+    this.name = 'SealedDocumentError';
+  }
+}
+
+async function agree(privateKey: CryptoKey, publicKey: Uint8Array): Promise<Uint8Array> {
+  const bits = await crypto.subtle.deriveBits(
+    { name: IDENTITY_ALGORITHM, public: await importPublicKey(publicKey) },
+    privateKey,
+    256
+  );
+  return new Uint8Array(bits);
+}
+
+async function deriveSealKey(ephemeralSecret: Uint8Array, staticSecret: Uint8Array, prefix: Uint8Array): Promise<CryptoKey> {
+  const material = new Uint8Array(ephemeralSecret.length + staticSecret.length);
+  material.set(ephemeralSecret, 0);
+  material.set(staticSecret, ephemeralSecret.length);
+
+  const baseKey = await crypto.subtle.importKey('raw', material, 'HKDF', false, ['deriveKey']);
+  return await crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: prefix, info: SEALED_INFO },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+/**
+ * Encrypt a decrypted document for one recipient.
+ */
+export async function sealDocument(
+  file: Omit<SealedFile, 'size' | 'sealedAt' | 'senderKey'>,
+  sender: Identity,
+  recipientKey: Uint8Array
+): Promise<Uint8Array> {
+  const ephemeral = await crypto.subtle.generateKey({ name: IDENTITY_ALGORITHM }, true, ['deriveBits']) as CryptoKeyPair;
+  const ephemeralKey = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey));
+
+  const prefix = new Uint8Array(PREFIX_LENGTH);
+  prefix.set(SEALED_MAGIC, 0);
+  prefix.set(ephemeralKey, SEALED_MAGIC.length);
+  prefix.set(sender.publicKey, SEALED_MAGIC.length + PUBLIC_KEY_LENGTH);
+  prefix.set(recipientKey, SEALED_MAGIC.length + 2 * PUBLIC_KEY_LENGTH);
+
+  const key = await deriveSealKey(
+    await agree(ephemeral.privateKey, recipientKey),
+    await agree(sender.privateKey, recipientKey),
+    prefix
+  );
+
+  const header: SealedHeader = {
+    version: SEALED_VERSION,
+    name: file.name,
+    type: file.type,
+    mimeType: file.mimeType,
+    sealedAt: Date.now()
+  };
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  const plaintext = new Uint8Array(4 + headerBytes.length + file.data.byteLength);
+  new DataView(plaintext.buffer).setUint32(0, headerBytes.length);
+  plaintext.set(headerBytes, 4);
+  plaintext.set(new Uint8Array(file.data), 4 + headerBytes.length);
+
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: prefix }, key, plaintext);
+
+  const sealed = new Uint8Array(PREFIX_LENGTH + IV_LENGTH + ciphertext.byteLength);
+  sealed.set(prefix, 0);
+  sealed.set(iv, PREFIX_LENGTH);
+  sealed.set(new Uint8Array(ciphertext), PREFIX_LENGTH + IV_LENGTH);
+  return sealed;
+}
+
+export function isSealedDocument(bytes: Uint8Array): boolean {
+  return bytes.length > PREFIX_LENGTH + IV_LENGTH && sameBytes(bytes.subarray(0, SEALED_MAGIC.length), SEALED_MAGIC);
+}
+
+/**
+ * Open a file sealed for this vault. Fails with 'recipient' when it was sealed
+ * for someone else.
+ */
+export async function openSealedDocument(bytes: Uint8Array, recipient: Identity): Promise<SealedFile> {
+  if (!isSealedDocument(bytes)) {
+    throw new SealedDocumentError('format', 'Not a sealed document');
+  }
+
+  const prefix = bytes.subarray(0, PREFIX_LENGTH);
+  const ephemeralKey = prefix.slice(SEALED_MAGIC.length, SEALED_MAGIC.length + PUBLIC_KEY_LENGTH);
+  const senderKey = prefix.slice(SEALED_MAGIC.length + PUBLIC_KEY_LENGTH, SEALED_MAGIC.length + 2 * PUBLIC_KEY_LENGTH);
+  const recipientKey = prefix.slice(SEALED_MAGIC.length + 2 * PUBLIC_KEY_LENGTH);
+  if (!sameBytes(recipientKey, recipient.publicKey)) {
+    throw new SealedDocumentError('recipient', 'Sealed for another recipient');
+  }
+
+  let plaintext: Uint8Array;
+  try {
+    const key = await deriveSealKey(
+      await agree(recipient.privateKey, ephemeralKey),
+      await agree(recipient.privateKey, senderKey),
+      prefix.slice()
+    );
+    plaintext = new Uint8Array(await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: bytes.slice(PREFIX_LENGTH, PREFIX_LENGTH + IV_LENGTH), additionalData: prefix.slice() },
+      key,
+      bytes.slice(PREFIX_LENGTH + IV_LENGTH)
+    ));
+  } catch {
+    throw new SealedDocumentError('integrity', 'Sealed document was modified or its sender key is wrong');
+  }
+
+  const headerLength = new DataView(plaintext.buffer).getUint32(0);
+  const header: SealedHeader = JSON.parse(new TextDecoder().decode(plaintext.subarray(4, 4 + headerLength)));
+  if (header.version !== SEALED_VERSION) {
+    throw new SealedDocumentError('format', `Unsupported sealed document version: ${header.version}`);
+  }
+
+  const data = plaintext.slice(4 + headerLength).buffer;
+  return {
+    name: header.name,
+    type: header.type,
+    mimeType: header.mimeType,
+    size: data.byteLength,
+    sealedAt: header.sealedAt,
+    data,
+    senderKey
+  };
+}
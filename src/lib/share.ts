@@ -0,0 +1,31 @@
+// Hand files to the system share sheet, falling back to a plain download
+
+export type ShareResult = 'shared' | 'downloaded';
+
+export function downloadFile(file: File): void {
+  const url = URL.createObjectURL(file);
+  const a = window.document.createElement('a');
+  a.href = url;
+  a.download = file.name;
+  window.document.body.appendChild(a);
+  a.click();
+  window.document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+export async function shareFile(
+  file: File,
+  details: { title: string; text: string },
+  preferNative = true
+): Promise<ShareResult> {
+  // Some platforms refuse file types they don't know, like .docsafe archives
+  const canShareFile = navigator.canShare ? navigator.canShare({ files: [file] }) : true;
+
+  if (preferNative && navigator.share && canShareFile) {
+    await navigator.share({ files: [file], ...details });
+    return 'shared';
+  }
+
+  downloadFile(file);
+  return 'downloaded';
+}
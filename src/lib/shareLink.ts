@@ -0,0 +1,159 @@
+// Share links: the shared file is encrypted under a one-time key that only
+// travels in the URL fragment, which browsers never send to a server nor keep
+// in the query string. The expiry sits inside the ciphertext, so a link can't
+// be extended or altered without the decryption failing.
+//
+//   /receive?d=<iv + ciphertext>#k=<key>
+//
+// Plaintext: uint32 header length, header JSON, then the raw file bytes.
+// Payloads too large for a link travel as animated QR frames (see qrTransfer).
+import { uint8ArrayToBase64Url, base64UrlToUint8Array } from '@/lib/base64';
+
+const SHARE_LINK_VERSION = 1;
+const ALGORITHM = 'AES-GCM';
+const IV_LENGTH = 12;
+// Binds the ciphertext to this format, so it can't be replayed as anything else
+const SHARE_LINK_AAD = new TextEncoder().encode(`docsafe-share:${SHARE_LINK_VERSION}`);
+
+export interface SharedFile {
+  name: string;
+  type: 'pdf' | 'image';
+  mimeType: string;
+  size: number;
+  expiresAt: number;
+  data: ArrayBuffer;
+}
+
+interface ShareLinkHeader {
+  version: number;
+  name: string;
+  type: 'pdf' | 'image';
+  mimeType: string;
+  expiresAt: number;
+}
+
+// Why a link was refused
+export class ShareLinkError extends Error {
+  constructor(public reason: 'format' | 'integrity' | 'expired', message: string) {
+    super(message);
+    this.name = 'ShareLinkError';
+  }
+}
+
+// Encrypted file and the one-time key it was encrypted with
+export interface SharePayload {
+  payload: Uint8Array;
+  key: Uint8Array;
+}
+
+/**
+ * Encrypt a decrypted file for sharing. A fresh key is generated for every
+ * share and is never stored.
+ */
+export async function encryptSharePayload(
+  file: Omit<SharedFile, 'size' | 'expiresAt'>,
+  expiresAt: number
+): Promise<SharePayload> {
+  const header: ShareLinkHeader = {
+    version: SHARE_LINK_VERSION,
+    name: file.name,
+    type: file.type,
+    mimeType: file.mimeType,
+    expiresAt
+  };
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  const plaintext = new Uint8Array(4 + headerBytes.length + file.data.byteLength);
+  new DataView(plaintext.buffer).setUint32(0, headerBytes.length);
+  plaintext.set(headerBytes, 4);
+  plaintext.set(new Uint8Array(file.data), 4 + headerBytes.length);
+
+  const key = await crypto.subtle.generateKey({ name: ALGORITHM, length: 256 }, true, ['encrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt({ name: ALGORITHM, iv, additionalData: SHARE_LINK_AAD }, key, plaintext);
+
+  const payload = new Uint8Array(IV_LENGTH + ciphertext.byteLength);
+  payload.set(iv, 0);
+  payload.set(new Uint8Array(ciphertext), IV_LENGTH);
+  return { payload, key: new Uint8Array(await crypto.subtle.exportKey('raw', key)) };
+}
+
+export function shareLinkUrl({ payload, key }: SharePayload, origin = window.location.origin): string {
+  return `${origin}/receive?d=${uint8ArrayToBase64Url(payload)}#k=${uint8ArrayToBase64Url(key)}`;
+}
+
+export async function createShareLink(
+  file: Omit<SharedFile, 'size' | 'expiresAt'>,
+  expiresAt: number,
+  origin = window.location.origin
+): Promise<string> {
+  return shareLinkUrl(await encryptSharePayload(file, expiresAt), origin);
+}
+
+/**
+ * Decrypt a shared payload with its key. Any modified byte fails
+ * authentication, and the authenticated expiry is checked after decryption.
+ */
+export async function decryptSharePayload({ payload, key: rawKey }: SharePayload, now = Date.now()): Promise<SharedFile> {
+  if (payload.length <= IV_LENGTH) {
+    throw new ShareLinkError('format', 'Truncated share payload');
+  }
+
+  let key: CryptoKey;
+  try {
+    key = await crypto.subtle.importKey(
+      'raw',
+      rawKey as Uint8Array<ArrayBuffer>,
+      { name: ALGORITHM, length: 256 },
+      false,
+      ['decrypt']
+    );
+  } catch {
+    throw new ShareLinkError('format', 'Malformed share key');
+  }
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: ALGORITHM, iv: payload.slice(0, IV_LENGTH), additionalData: SHARE_LINK_AAD },
+      key,
+      payload.slice(IV_LENGTH)
+    );
+  } catch {
+    throw new ShareLinkError('integrity', 'Share payload was modified or its key is wrong');
+  }
+
+  const headerLength = new DataView(plaintext).getUint32(0);
+  const header: ShareLinkHeader = JSON.parse(new TextDecoder().decode(plaintext.slice(4, 4 + headerLength)));
+  if (header.version !== SHARE_LINK_VERSION) {
+    throw new ShareLinkError('format', `Unsupported share version: ${header.version}`);
+  }
+  if (now > header.expiresAt) {
+    throw new ShareLinkError('expired', 'Share has expired');
+  }
+
+  const fileData = plaintext.slice(4 + headerLength);
+  return {
+    name: header.name,
+    type: header.type,
+    mimeType: header.mimeType,
+    size: fileData.byteLength,
+    expiresAt: header.expiresAt,
+    data: fileData
+  };
+}
+
+// Decrypt a share link from its `d` query parameter and `#k=` fragment
+export async function openShareLink(payloadParam: string | null, fragment: string, now = Date.now()): Promise<SharedFile> {
+  const keyParam = new URLSearchParams(fragment.replace(/^#/, '')).get('k');
+  if (!payloadParam || !keyParam) {
+    throw new ShareLinkError('format', 'Incomplete share link');
+  }
+
+  let share: SharePayload;
+  try {
+    share = { payload: base64UrlToUint8Array(payloadParam), key: base64UrlToUint8Array(keyParam) };
+  } catch {
+    throw new ShareLinkError('format', 'Malformed share link');
+  }
+  return await decryptSharePayload(share, now);
+}
@@ -0,0 +1,58 @@
+// Disclosure log: a record of every time a document left the vault, kept
+// encrypted like the rest of the vault's metadata.
+import { addShareLogEntry, Document } from '@/lib/storage';
+
+export const shareMethodLabels: Record<string, string> = {
+  native: 'Partage',
+  email: 'Email',
+  whatsapp: 'WhatsApp',
+  telegram: 'Telegram',
+  sms: 'SMS',
+  contact: 'Chiffré pour un contact',
+  nearby: 'À proximité',
+  qr: 'QR code',
+  download: 'Téléchargement'
+};
+
+export interface ShareDetails {
+  method: string;
+  recipient?: string;
+  watermark?: string | null;
+  note?: string;
+}
+
+/**
+ * Log one disclosure per document. Never fails: the share itself has already
+ * happened and shouldn't be reported as failed because of the log.
+ */
+export async function recordShare(documents: Pick<Document, 'id' | 'name'>[], details: ShareDetails): Promise<void> {
+  const recipient = details.recipient?.trim();
+  try {
+    for (const doc of documents) {
+      await addShareLogEntry({
+        id: crypto.randomUUID(),
+        documentId: doc.id,
+        documentName: doc.name,
+        method: details.method,
+        recipient: recipient || undefined,
+        watermark: details.watermark || undefined,
+        note: details.note,
+        sharedAt: new Date()
+      });
+    }
+  } catch (error) {
+    console.error('Error recording share:', error);
+  }
+}
+
+// Recipients named in the log, most recent first
+export function logRecipients(entries: { recipient?: string }[]): string[] {
+  const seen = new Map<string, string>();
+  for (const entry of entries) {
+    const key = entry.recipient?.toLowerCase();
+    if (entry.recipient && key && !seen.has(key)) {
+      seen.set(key, entry.recipient);
+    }
+  }
+  return Array.from(seen.values());
+}
@@ -0,0 +1,48 @@
+import { Mail, MessageCircle, Send, MessageSquare, Share2, LucideIcon } from 'lucide-react';
+
+export interface ShareOption {
+  id: string;
+  name: string;
+  icon: LucideIcon;
+  color: string;
+  description: string;
+}
+
+// Channels a decrypted file can be handed to, for single documents and bundles alike
+export const channelShareOptions: ShareOption[] = [
+  { 
+    id: 'native', 
+    name: 'Partager', 
+    icon: Share2, 
+    color: 'hsl(168 76% 36%)',
+    description: 'Utiliser le partage natif'
+  },
+  { 
+    id: 'email', 
+    name: 'Email', 
+    icon: Mail, 
+    color: 'hsl(220 70% 50%)',
+    description: 'Envoyer par email'
+  },
+  { 
+    id: 'whatsapp', 
+    name: 'WhatsApp', 
+    icon: MessageCircle, 
+    color: 'hsl(142 70% 45%)',
+    description: 'Partager sur WhatsApp'
+  },
+  { 
+    id: 'telegram', 
+    name: 'Telegram', 
+    icon: Send, 
+    color: 'hsl(200 80% 50%)',
+    description: 'Partager sur Telegram'
+  },
+  { 
+    id: 'sms', 
+    name: 'SMS', 
+    icon: MessageSquare, 
+    color: 'hsl(35 90% 50%)',
+    description: 'Envoyer par SMS'
+  },
+];
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { createSharePackage, openSharePackage } from '@/lib/sharePackage';
+
+const PASSPHRASE = 'Phrase-de-partage1';
+const MAGIC_LENGTH = 8;
+
+function files() {
+  return [
+    { name: 'passeport.pdf', type: 'pdf' as const, mimeType: 'application/pdf', data: new TextEncoder().encode('%PDF-1.7').buffer },
+    { name: 'permis.jpg', type: 'image' as const, mimeType: 'image/jpeg', data: new Uint8Array([255, 216, 255, 0, 1]).buffer }
+  ];
+}
+
+// The same package with its header rewritten
+function withHeader(pack: Uint8Array, rewrite: (header: Record<string, unknown>) => Record<string, unknown>): Uint8Array {
+  const view = new DataView(pack.buffer, pack.byteOffset);
+  const headerEnd = MAGIC_LENGTH + 4 + view.getUint32(MAGIC_LENGTH);
+  const header = JSON.parse(new TextDecoder().decode(pack.subarray(MAGIC_LENGTH + 4, headerEnd)));
+  const headerBytes = new TextEncoder().encode(JSON.stringify(rewrite(header)));
+
+  const out = new Uint8Array(MAGIC_LENGTH + 4 + headerBytes.length + pack.length - headerEnd);
+  out.set(pack.subarray(0, MAGIC_LENGTH));
+  new DataView(out.buffer).setUint32(MAGIC_LENGTH, headerBytes.length);
+  out.set(headerBytes, MAGIC_LENGTH + 4);
+  out.set(pack.subarray(headerEnd), MAGIC_LENGTH + 4 + headerBytes.length);
+  return out;
+}
+
+describe('share packages', () => {
+  it('opens with the passphrase it was made with', async () => {
+    const pack = await createSharePackage(files(), PASSPHRASE);
+    const opened = await openSharePackage(pack, PASSPHRASE);
+
+    expect(opened.map(({ name, type, mimeType, size }) => ({ name, type, mimeType, size }))).toEqual([
+      { name: 'passeport.pdf', type: 'pdf', mimeType: 'application/pdf', size: 8 },
+      { name: 'permis.jpg', type: 'image', mimeType: 'image/jpeg', size: 5 }
+    ]);
+    expect(new Uint8Array(opened[1].data)).toEqual(new Uint8Array([255, 216, 255, 0, 1]));
+  });
+
+  it('refuses a wrong passphrase', async () => {
+    const pack = await createSharePackage(files(), PASSPHRASE);
+    await expect(openSharePackage(pack, 'Autre-phrase2')).rejects.toMatchObject({ reason: 'passphrase' });
+  });
+
+  it('refuses a header asking for an unreasonable key derivation', async () => {
+    const pack = await createSharePackage(files(), PASSPHRASE);
+    const tampered = withHeader(pack, header => ({ ...header, kdf: { ...header.kdf as object, iterations: 1e9 } }));
+    await expect(openSharePackage(tampered, PASSPHRASE)).rejects.toMatchObject({ reason: 'format' });
+  });
+});
@@ -0,0 +1,159 @@
+// Share packages: several documents sent as one file, encrypted with a
+// passphrase the sender gives the recipient separately. Unlike a backup, a
+// package carries only the decrypted documents, never the vault's keys, and is
+// opened from the Recevoir screen of another DocSafe.
+//
+// File: magic, uint32 header length, header JSON (version, KDF parameters), iv,
+// then AES-GCM(uint32 manifest length, manifest JSON, file bytes back to back)
+// with everything before the iv as additional data.
+import { createKdfParams, deriveKeyFromPassword, isSupportedKdfParams, KdfParams } from '@/lib/crypto';
+
+const PACKAGE_VERSION = 1;
+const PACKAGE_MAGIC = new TextEncoder().encode('DSPACKGE');
+const IV_LENGTH = 12;
+export const PACKAGE_EXTENSION = '.dspack';
+export const PACKAGE_MIME_TYPE = 'application/octet-stream';
+
+export interface PackageFile {
+  name: string;
+  type: 'pdf' | 'image';
+  mimeType: string;
+  size: number;
+  data: ArrayBuffer;
+}
+
+interface PackageHeader {
+  version: number;
+  kdf: KdfParams;
+}
+
+interface PackageManifest {
+  createdAt: number;
+  files: Omit<PackageFile, 'data'>[];
+}
+
+// Why a package could not be opened
+export class SharePackageError extends Error {
+  constructor(public reason: 'format' | 'passphrase', message: string) {
+    super(message);
+    this.name = 'SharePackageError';
+  }
+}
+
+function withLength(bytes: Uint8Array, rest: number): Uint8Array {
+  const out = new Uint8Array(4 + bytes.length + rest);
+  new DataView(out.buffer).setUint32(0, bytes.length);
+  out.set(bytes, 4);
+  return out;
+}
+
+/**
+ * Encrypt decrypted documents into one package.
+ */
+export async function createSharePackage(files: Omit<PackageFile, 'size'>[], passphrase: string): Promise<Uint8Array> {
+  const header: PackageHeader = { version: PACKAGE_VERSION, kdf: createKdfParams() };
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  const prefix = new Uint8Array(PACKAGE_MAGIC.length + 4 + headerBytes.length);
+  prefix.set(PACKAGE_MAGIC, 0);
+  prefix.set(withLength(headerBytes, 0), PACKAGE_MAGIC.length);
+
+  const manifest: PackageManifest = {
+    createdAt: Date.now(),
+    files: files.map(file => ({ name: file.name, type: file.type, mimeType: file.mimeType, size: file.data.byteLength }))
+  };
+  const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest));
+  const total = files.reduce((sum, file) => sum + file.data.byteLength, 0);
+  const plaintext = withLength(manifestBytes, total);
+  let offset = 4 + manifestBytes.length;
+  for (const file of files) {
+    plaintext.set(new Uint8Array(file.data), offset);
+    offset += file.data.byteLength;
+  }
+
+  const key = await deriveKeyFromPassword(passphrase, header.kdf);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: prefix }, key, plaintext);
+
+  const pack = new Uint8Array(prefix.length + IV_LENGTH + ciphertext.byteLength);
+  pack.set(prefix, 0);
+  pack.set(iv, prefix.length);
+  pack.set(new Uint8Array(ciphertext), prefix.length + IV_LENGTH);
+  return pack;
+}
+
+export function isSharePackage(bytes: Uint8Array): boolean {
+  return bytes.length > PACKAGE_MAGIC.length + 4 + IV_LENGTH &&
+    PACKAGE_MAGIC.every((byte, i) => bytes[i] === byte);
+}
+
+function isPackageFileEntry(file: unknown): file is Omit<PackageFile, 'data'> {
+  if (!file || typeof file !== 'object') return false;
+  const { name, type, mimeType, size } = file as Record<string, unknown>;
+  return typeof name === 'string' && (type === 'pdf' || type === 'image') && typeof mimeType === 'string' &&
+    typeof size === 'number' && Number.isInteger(size) && size >= 0;
+}
+
+// The manifest of an authenticated package, whose file sizes must account for the rest of it exactly
+function readManifest(plaintext: Uint8Array): PackageManifest {
+  let manifest: PackageManifest;
+  let dataLength: number;
+  try {
+    const manifestLength = new DataView(plaintext.buffer, plaintext.byteOffset).getUint32(0);
+    dataLength = plaintext.length - 4 - manifestLength;
+    manifest = JSON.parse(new TextDecoder().decode(plaintext.subarray(4, 4 + manifestLength)));
+  } catch {
+    throw new SharePackageError('format', 'Unreadable package manifest');
+  }
+
+  if (!Array.isArray(manifest?.files) || !manifest.files.every(isPackageFileEntry) ||
+      manifest.files.reduce((sum, file) => sum + file.size, 0) !== dataLength) {
+    throw new SharePackageError('format', 'Package manifest does not match its content');
+  }
+  return manifest;
+}
+
+/**
+ * Decrypt a package. Fails with 'passphrase' for a wrong passphrase or a
+ * modified file, which AES-GCM can't tell apart.
+ */
+export async function openSharePackage(bytes: Uint8Array, passphrase: string): Promise<PackageFile[]> {
+  if (!isSharePackage(bytes)) {
+    throw new SharePackageError('format', 'Not a share package');
+  }
+
+  let header: PackageHeader;
+  let prefixLength: number;
+  try {
+    const headerLength = new DataView(bytes.buffer, bytes.byteOffset).getUint32(PACKAGE_MAGIC.length);
+    prefixLength = PACKAGE_MAGIC.length + 4 + headerLength;
+    header = JSON.parse(new TextDecoder().decode(bytes.subarray(PACKAGE_MAGIC.length + 4, prefixLength)));
+  } catch {
+    throw new SharePackageError('format', 'Unreadable package header');
+  }
+  if (header.version !== PACKAGE_VERSION) {
+    throw new SharePackageError('format', `Unsupported package version: ${header.version}`);
+  }
+  if (!isSupportedKdfParams(header.kdf)) {
+    throw new SharePackageError('format', 'Unsupported key derivation parameters');
+  }
+
+  let plaintext: Uint8Array;
+  try {
+    const key = await deriveKeyFromPassword(passphrase, header.kdf);
+    plaintext = new Uint8Array(await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: bytes.slice(prefixLength, prefixLength + IV_LENGTH), additionalData: bytes.slice(0, prefixLength) },
+      key,
+      bytes.slice(prefixLength + IV_LENGTH)
+    ));
+  } catch {
+    throw new SharePackageError('passphrase', 'Wrong passphrase or modified package');
+  }
+
+  const manifest = readManifest(plaintext);
+  let offset = plaintext.length - manifest.files.reduce((sum, file) => sum + file.size, 0);
+  return manifest.files.map(file => {
+    const data = plaintext.slice(offset, offset + file.size).buffer;
+    offset += file.size;
+    return { ...file, data };
+  });
+}
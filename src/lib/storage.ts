@@ -1,4 +1,14 @@
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { encryptMetadata, decryptMetadata, categoryToken, MetadataKeys } from '@/lib/metadata';
+import {
+  DB_NAME,
+  DB_VERSION,
+  runMigrations,
+  snapshotBeforeMigration,
+  restoreMigrationSnapshot,
+  discardMigrationSnapshot
+} from '@/lib/migrations';
+import type { StreamHeader } from '@/lib/streamCrypto';
 
 export interface Document {
   id: string;
@@ -7,13 +17,25 @@ export interface Document {
   type: 'pdf' | 'image';
   mimeType: string;
   size: number;
-  encryptedData: string;
+  // Raw ciphertext (base64 strings before DB version 3). Segmented payloads
+  // have a `stream` header instead and their segments in the chunks store.
+  encryptedData?: ArrayBuffer;
   iv: string;
   thumbnail?: string;
   createdAt: Date;
   updatedAt: Date;
   tags?: string[];
   folderId?: string;
+  keyGeneration?: number;
+  // 'envelope': payload encrypted with its own data key, stored in wrappedKey
+  // under the master key. 'master': payload encrypted directly with the master key.
+  encryption?: 'master' | 'envelope';
+  wrappedKey?: string;
+  stream?: StreamHeader;
+  // Identity documents only. Calendar days as YYYY-MM-DD, as entered in a date input
+  issuedAt?: string;
+  expiresAt?: string;
+  documentNumber?: string;
 }
 
 export interface Folder {
@@ -24,29 +46,107 @@ export interface Folder {
   createdAt: Date;
 }
 
+// Someone documents can be encrypted for, known by their identity public key
+export interface Contact {
+  id: string;
+  name: string;
+  // X25519 public key, base64url
+  publicKey: string;
+  createdAt: Date;
+}
+
+// One disclosure of a document: shared, shown as a QR code, downloaded…
+export interface ShareLogEntry {
+  id: string;
+  documentId: string;
+  // Name at the time, kept for documents deleted since
+  documentName: string;
+  method: string;
+  recipient?: string;
+  watermark?: string;
+  // What was sent when not the document as stored, e.g. a redacted copy
+  note?: string;
+  sharedAt: Date;
+}
+
+// Fields kept encrypted in the stored record's `metadata`
+export type SensitiveDocumentFields = Pick<
+  Document,
+  'name' | 'category' | 'type' | 'mimeType' | 'thumbnail' | 'tags' | 'issuedAt' | 'expiresAt' | 'documentNumber'
+>;
+
+// Document as stored in IndexedDB. Only indexing fields stay in clear and
+// `category` holds an opaque token. Records written before metadata encryption
+// keep their fields in clear (and no `metadata`) until migrated.
+export type StoredDocument = Omit<Document, keyof SensitiveDocumentFields> &
+  Partial<SensitiveDocumentFields> & {
+    category: string;
+    metadata?: string;
+  };
+
+export type StoredFolder = Omit<Folder, 'name'> & {
+  name?: string;
+  encryptedName?: string;
+};
+
+// Contacts only keep their id and date in clear
+export type StoredContact = Pick<Contact, 'id' | 'createdAt'> & {
+  metadata: string;
+};
+
+// Share log entries only keep their id and date in clear
+export type StoredShareLogEntry = Pick<ShareLogEntry, 'id' | 'sharedAt'> & {
+  metadata: string;
+};
+
+// One encrypted segment of a document payload
+export interface DocumentChunk {
+  documentId: string;
+  index: number;
+  data: ArrayBuffer;
+}
+
 export interface Settings {
   key: string;
   value: string;
 }
 
-interface DocWalletDB extends DBSchema {
+export interface DocWalletDB extends DBSchema {
   documents: {
     key: string;
-    value: Document;
+    value: StoredDocument;
     indexes: {
       'by-category': string;
       'by-folder': string;
       'by-date': Date;
+      'by-encryption': string;
     };
   };
   folders: {
     key: string;
-    value: Folder;
+    value: StoredFolder;
+  };
+  chunks: {
+    key: [string, number];
+    value: DocumentChunk;
   };
   settings: {
     key: string;
     value: Settings;
   };
+  contacts: {
+    key: string;
+    value: StoredContact;
+  };
+  shareLog: {
+    key: string;
+    value: StoredShareLogEntry;
+  };
+  // Folders granted through the File System Access API, which only survive as handles
+  handles: {
+    key: string;
+    value: FileSystemDirectoryHandle;
+  };
 }
 
 let db: IDBPDatabase<DocWalletDB> | null = null;
@@ -54,65 +154,205 @@ let db: IDBPDatabase<DocWalletDB> | null = null;
 export async function initDB(): Promise<IDBPDatabase<DocWalletDB>> {
   if (db) return db;
   
-  db = await openDB<DocWalletDB>('docwallet', 1, {
-    upgrade(database) {
-      // Documents store
-      const docStore = database.createObjectStore('documents', { keyPath: 'id' });
-      docStore.createIndex('by-category', 'category');
-      docStore.createIndex('by-folder', 'folderId');
-      docStore.createIndex('by-date', 'createdAt');
-      
-      // Folders store
-      database.createObjectStore('folders', { keyPath: 'id' });
-      
-      // Settings store
-      database.createObjectStore('settings', { keyPath: 'key' });
-    },
-  });
+  // Keep a copy of the vault before upgrading it, and don't upgrade without one
+  await snapshotBeforeMigration();
+  
+  try {
+    db = await openDB<DocWalletDB>(DB_NAME, DB_VERSION, {
+      async upgrade(database, oldVersion, _newVersion, transaction) {
+        await runMigrations(database, oldVersion, transaction);
+      },
+    });
+  } catch (error) {
+    // A failed upgrade must never cost the vault: put the pre-upgrade copy back
+    if (await restoreMigrationSnapshot()) {
+      console.error('Database upgrade failed, previous version restored:', error);
+    }
+    throw error;
+  }
   
   return db;
 }
 
+// Metadata keys for the unlocked vault, set by AuthContext and cleared on lock
+let metadataKeys: MetadataKeys | null = null;
+
+export function setMetadataKeys(keys: MetadataKeys | null): void {
+  metadataKeys = keys;
+}
+
+function requireMetadataKeys(): MetadataKeys {
+  if (!metadataKeys) {
+    throw new Error('Vault is locked');
+  }
+  return metadataKeys;
+}
+
+async function encodeDocument(doc: Document): Promise<StoredDocument> {
+  const keys = requireMetadataKeys();
+  const { name, category, type, mimeType, thumbnail, tags, issuedAt, expiresAt, documentNumber, ...rest } = doc;
+  return {
+    ...rest,
+    category: await categoryToken(category, keys),
+    metadata: await encryptMetadata(
+      { name, category, type, mimeType, thumbnail, tags, issuedAt, expiresAt, documentNumber },
+      keys
+    )
+  };
+}
+
+async function decodeDocument(stored: StoredDocument): Promise<Document> {
+  if (!stored.metadata) {
+    return stored as Document;
+  }
+  const { metadata, ...rest } = stored;
+  const fields = await decryptMetadata<SensitiveDocumentFields>(metadata, requireMetadataKeys());
+  return { ...rest, ...fields };
+}
+
+async function encodeFolder(folder: Folder): Promise<StoredFolder> {
+  const { name, ...rest } = folder;
+  return { ...rest, encryptedName: await encryptMetadata(name, requireMetadataKeys()) };
+}
+
+async function decodeFolder(stored: StoredFolder): Promise<Folder> {
+  const { encryptedName, name, ...rest } = stored;
+  if (!encryptedName) {
+    return { ...rest, name: name ?? '' };
+  }
+  return { ...rest, name: await decryptMetadata<string>(encryptedName, requireMetadataKeys()) };
+}
+
+async function encodeContact(contact: Contact): Promise<StoredContact> {
+  const { id, createdAt, name, publicKey } = contact;
+  return { id, createdAt, metadata: await encryptMetadata({ name, publicKey }, requireMetadataKeys()) };
+}
+
+async function decodeContact(stored: StoredContact): Promise<Contact> {
+  const fields = await decryptMetadata<Pick<Contact, 'name' | 'publicKey'>>(stored.metadata, requireMetadataKeys());
+  return { id: stored.id, createdAt: stored.createdAt, ...fields };
+}
+
+async function encodeShareLogEntry(entry: ShareLogEntry): Promise<StoredShareLogEntry> {
+  const { id, sharedAt, ...fields } = entry;
+  return { id, sharedAt, metadata: await encryptMetadata(fields, requireMetadataKeys()) };
+}
+
+async function decodeShareLogEntry(stored: StoredShareLogEntry): Promise<ShareLogEntry> {
+  const fields = await decryptMetadata<Omit<ShareLogEntry, 'id' | 'sharedAt'>>(stored.metadata, requireMetadataKeys());
+  return { id: stored.id, sharedAt: stored.sharedAt, ...fields };
+}
+
 // Document operations
 export async function saveDocument(doc: Document): Promise<void> {
   const database = await initDB();
-  await database.put('documents', doc);
+  await database.put('documents', await encodeDocument(doc));
 }
 
 export async function getDocument(id: string): Promise<Document | undefined> {
   const database = await initDB();
-  return await database.get('documents', id);
+  const stored = await database.get('documents', id);
+  return stored ? await decodeDocument(stored) : undefined;
 }
 
 export async function getAllDocuments(): Promise<Document[]> {
   const database = await initDB();
-  return await database.getAll('documents');
+  const stored = await database.getAll('documents');
+  return await Promise.all(stored.map(decodeDocument));
+}
+
+export async function getAllDocumentIds(): Promise<string[]> {
+  const database = await initDB();
+  return await database.getAllKeys('documents');
+}
+
+export async function getDocumentIdsByEncryption(encryption: 'master' | 'envelope'): Promise<string[]> {
+  const database = await initDB();
+  return await database.getAllKeysFromIndex('documents', 'by-encryption', encryption);
 }
 
 export async function getDocumentsByCategory(category: string): Promise<Document[]> {
   const database = await initDB();
-  return await database.getAllFromIndex('documents', 'by-category', category);
+  const token = await categoryToken(category, requireMetadataKeys());
+  const stored = [
+    ...await database.getAllFromIndex('documents', 'by-category', token),
+    // Records not migrated yet still carry the category in clear
+    ...await database.getAllFromIndex('documents', 'by-category', category)
+  ];
+  return await Promise.all(stored.map(decodeDocument));
+}
+
+export async function countDocumentsCreatedSince(date: Date): Promise<number> {
+  const database = await initDB();
+  return await database.countFromIndex('documents', 'by-date', IDBKeyRange.lowerBound(date, true));
 }
 
 export async function getDocumentsByFolder(folderId: string): Promise<Document[]> {
   const database = await initDB();
-  return await database.getAllFromIndex('documents', 'by-folder', folderId);
+  const stored = await database.getAllFromIndex('documents', 'by-folder', folderId);
+  return await Promise.all(stored.map(decodeDocument));
 }
 
 export async function deleteDocument(id: string): Promise<void> {
   const database = await initDB();
-  await database.delete('documents', id);
+  const tx = database.transaction(['documents', 'chunks'], 'readwrite');
+  await tx.objectStore('documents').delete(id);
+  await tx.objectStore('chunks').delete(chunkRange(id));
+  await tx.done;
 }
 
 export async function updateDocument(id: string, updates: Partial<Document>): Promise<void> {
   const database = await initDB();
-  const doc = await database.get('documents', id);
-  if (doc) {
+  const stored = await database.get('documents', id);
+  if (stored) {
+    const doc = await decodeDocument(stored);
     const updated = { ...doc, ...updates, updatedAt: new Date() };
-    await database.put('documents', updated);
+    await database.put('documents', await encodeDocument(updated));
   }
 }
 
+export type DocumentPayload = Pick<Document, 'encryptedData' | 'iv' | 'keyGeneration' | 'encryption' | 'wrappedKey' | 'stream'>;
+
+// Swap a document's ciphertext or data key without touching its metadata. The write
+// is skipped (and false returned) if the payload changed since `previous` was read.
+export async function replaceDocumentPayload(
+  id: string,
+  previous: Document,
+  payload: Partial<DocumentPayload>
+): Promise<boolean> {
+  const database = await initDB();
+  const tx = database.transaction('documents', 'readwrite');
+  const doc = await tx.store.get(id);
+  if (!doc || doc.iv !== previous.iv || doc.wrappedKey !== previous.wrappedKey) {
+    await tx.done;
+    return false;
+  }
+  await tx.store.put({ ...doc, ...payload });
+  await tx.done;
+  return true;
+}
+
+// Chunk operations
+function chunkRange(documentId: string): IDBKeyRange {
+  return IDBKeyRange.bound([documentId, 0], [documentId, Infinity]);
+}
+
+export async function saveDocumentChunk(chunk: DocumentChunk): Promise<void> {
+  const database = await initDB();
+  await database.put('chunks', chunk);
+}
+
+export async function getDocumentChunk(documentId: string, index: number): Promise<DocumentChunk | undefined> {
+  const database = await initDB();
+  return await database.get('chunks', [documentId, index]);
+}
+
+// Drop segments left behind by a save that didn't complete
+export async function deleteDocumentChunks(documentId: string): Promise<void> {
+  const database = await initDB();
+  await database.delete('chunks', chunkRange(documentId));
+}
+
 export async function searchDocuments(query: string): Promise<Document[]> {
   const all = await getAllDocuments();
   const lowerQuery = query.toLowerCase();
@@ -126,12 +366,13 @@ export async function searchDocuments(query: string): Promise<Document[]> {
 // Folder operations
 export async function saveFolder(folder: Folder): Promise<void> {
   const database = await initDB();
-  await database.put('folders', folder);
+  await database.put('folders', await encodeFolder(folder));
 }
 
 export async function getAllFolders(): Promise<Folder[]> {
   const database = await initDB();
-  return await database.getAll('folders');
+  const stored = await database.getAll('folders');
+  return await Promise.all(stored.map(decodeFolder));
 }
 
 export async function deleteFolder(id: string): Promise<void> {
@@ -139,29 +380,137 @@ export async function deleteFolder(id: string): Promise<void> {
   await database.delete('folders', id);
 }
 
+// Contact operations
+export async function saveContact(contact: Contact): Promise<void> {
+  const database = await initDB();
+  await database.put('contacts', await encodeContact(contact));
+}
+
+export async function getAllContacts(): Promise<Contact[]> {
+  const database = await initDB();
+  const stored = await database.getAll('contacts');
+  return await Promise.all(stored.map(decodeContact));
+}
+
+export async function deleteContact(id: string): Promise<void> {
+  const database = await initDB();
+  await database.delete('contacts', id);
+}
+
+// Share log operations
+export async function addShareLogEntry(entry: ShareLogEntry): Promise<void> {
+  const database = await initDB();
+  await database.put('shareLog', await encodeShareLogEntry(entry));
+}
+
+// Newest first
+export async function getShareLog(): Promise<ShareLogEntry[]> {
+  const database = await initDB();
+  const stored = await database.getAll('shareLog');
+  const entries = await Promise.all(stored.map(decodeShareLogEntry));
+  return entries.sort((a, b) => new Date(b.sharedAt).getTime() - new Date(a.sharedAt).getTime());
+}
+
+export async function getDocumentShareLog(documentId: string): Promise<ShareLogEntry[]> {
+  return (await getShareLog()).filter(entry => entry.documentId === documentId);
+}
+
+export async function clearShareLog(): Promise<void> {
+  const database = await initDB();
+  await database.clear('shareLog');
+}
+
+/**
+ * Encrypt the metadata of records written before metadata encryption.
+ * Runs after unlock; a record changed in the meantime is left for the next run.
+ */
+export async function migrateLegacyMetadata(signal?: AbortSignal): Promise<void> {
+  const database = await initDB();
+
+  for (const id of await database.getAllKeys('documents')) {
+    signal?.throwIfAborted();
+    const stored = await database.get('documents', id);
+    if (!stored || stored.metadata) continue;
+
+    const encoded = await encodeDocument(stored as Document);
+    const tx = database.transaction('documents', 'readwrite');
+    const current = await tx.store.get(id);
+    if (current && !current.metadata && current.iv === stored.iv && current.wrappedKey === stored.wrappedKey) {
+      await tx.store.put(encoded);
+    }
+    await tx.done;
+  }
+
+  for (const stored of await database.getAll('folders')) {
+    signal?.throwIfAborted();
+    if (stored.encryptedName) continue;
+    await database.put('folders', await encodeFolder(await decodeFolder(stored)));
+  }
+}
+
 // Settings operations
 export async function saveSetting(key: string, value: string): Promise<void> {
   const database = await initDB();
   await database.put('settings', { key, value });
 }
 
+// Write (and optionally remove) several settings in a single transaction
+// so they land together or not at all
+export async function saveSettings(entries: Record<string, string>, removeKeys: string[] = []): Promise<void> {
+  const database = await initDB();
+  const tx = database.transaction('settings', 'readwrite');
+  await Promise.all([
+    ...Object.entries(entries).map(([key, value]) => tx.store.put({ key, value })),
+    ...removeKeys.map(key => tx.store.delete(key)),
+    tx.done
+  ]);
+}
+
 export async function getSetting(key: string): Promise<string | undefined> {
   const database = await initDB();
   const setting = await database.get('settings', key);
   return setting?.value;
 }
 
+export async function deleteSetting(key: string): Promise<void> {
+  const database = await initDB();
+  await database.delete('settings', key);
+}
+
+// Directory handle operations
+export async function saveDirectoryHandle(name: string, handle: FileSystemDirectoryHandle): Promise<void> {
+  const database = await initDB();
+  await database.put('handles', handle, name);
+}
+
+export async function getDirectoryHandle(name: string): Promise<FileSystemDirectoryHandle | undefined> {
+  const database = await initDB();
+  return await database.get('handles', name);
+}
+
+export async function deleteDirectoryHandle(name: string): Promise<void> {
+  const database = await initDB();
+  await database.delete('handles', name);
+}
+
 // Wipe all data
 export async function wipeAllData(): Promise<void> {
   const database = await initDB();
   await database.clear('documents');
   await database.clear('folders');
+  await database.clear('chunks');
   await database.clear('settings');
+  await database.clear('handles');
+  await database.clear('contacts');
+  await database.clear('shareLog');
+  await discardMigrationSnapshot();
 }
 
 // Get storage stats
 export async function getStorageStats(): Promise<{ count: number; totalSize: number }> {
-  const docs = await getAllDocuments();
+  // Sizes are kept in clear, so this doesn't need the vault to be unlocked
+  const database = await initDB();
+  const docs = await database.getAll('documents');
   return {
     count: docs.length,
     totalSize: docs.reduce((sum, doc) => sum + doc.size, 0)
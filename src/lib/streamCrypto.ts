@@ -0,0 +1,70 @@
+// Segmented AES-GCM: large payloads are cut into fixed-size segments, each
+// encrypted on its own so a file never has to sit in memory in one piece.
+// Every segment gets its own nonce (base IV combined with the segment index)
+// and its authenticated data binds the header and the index, so segments
+// can't be reordered, dropped or swapped between formats.
+
+const ALGORITHM = 'AES-GCM';
+
+export const STREAM_FORMAT_VERSION = 1;
+export const SEGMENT_SIZE = 1024 * 1024; // 1 MiB
+
+export interface StreamHeader {
+  version: number;
+  segmentSize: number;
+  segmentCount: number;
+}
+
+export function createStreamHeader(size: number, segmentSize = SEGMENT_SIZE): StreamHeader {
+  return {
+    version: STREAM_FORMAT_VERSION,
+    segmentSize,
+    // An empty file still gets one (empty) segment
+    segmentCount: Math.max(1, Math.ceil(size / segmentSize))
+  };
+}
+
+function segmentNonce(baseIv: Uint8Array, index: number): Uint8Array<ArrayBuffer> {
+  const nonce = new Uint8Array(baseIv);
+  const view = new DataView(nonce.buffer);
+  view.setUint32(8, view.getUint32(8) ^ index);
+  return nonce;
+}
+
+function segmentAad(header: StreamHeader, index: number): Uint8Array<ArrayBuffer> {
+  const isLast = index === header.segmentCount - 1 ? 1 : 0;
+  return new TextEncoder().encode(
+    `docsafe-stream:${header.version}:${header.segmentSize}:${header.segmentCount}:${index}:${isLast}`
+  );
+}
+
+export async function encryptSegment(
+  data: ArrayBuffer,
+  key: CryptoKey,
+  baseIv: Uint8Array,
+  header: StreamHeader,
+  index: number
+): Promise<ArrayBuffer> {
+  return await crypto.subtle.encrypt(
+    { name: ALGORITHM, iv: segmentNonce(baseIv, index), additionalData: segmentAad(header, index) },
+    key,
+    data
+  );
+}
+
+export async function decryptSegment(
+  encrypted: ArrayBuffer,
+  key: CryptoKey,
+  baseIv: Uint8Array,
+  header: StreamHeader,
+  index: number
+): Promise<ArrayBuffer> {
+  if (header.version !== STREAM_FORMAT_VERSION) {
+    throw new Error(`Unsupported stream format version: ${header.version}`);
+  }
+  return await crypto.subtle.decrypt(
+    { name: ALGORITHM, iv: segmentNonce(baseIv, index), additionalData: segmentAad(header, index) },
+    key,
+    encrypted
+  );
+}
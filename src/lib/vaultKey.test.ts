@@ -0,0 +1,56 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import { getDocument, saveDocument, setMetadataKeys, Document } from '@/lib/storage';
+import { encryptDocumentFile, decryptDocumentData } from '@/lib/documentCrypto';
+import { importKey } from '@/lib/crypto';
+import { createVaultKey, unlockMetadata, unwrapMainKey, resetPasswordWithRecovery } from '@/lib/vaultKey';
+
+const PASSWORD = 'Ancien-mot-de-passe1';
+const NEW_PASSWORD = 'Nouveau-mot-de-passe2';
+const ANSWER = 'Médor';
+
+async function addDocument(masterKey: CryptoKey, content: string): Promise<string> {
+  const id = crypto.randomUUID();
+  const file = new Blob([content], { type: 'text/plain' });
+  const doc: Document = {
+    id,
+    name: 'Carte vitale',
+    category: 'identity',
+    type: 'image',
+    mimeType: 'text/plain',
+    size: file.size,
+    ...await encryptDocumentFile(id, file, masterKey),
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+  await saveDocument(doc);
+  return id;
+}
+
+describe('password reset with the recovery answer', () => {
+  it('keeps documents saved before the reset readable with the new password', async () => {
+    const masterKey = await createVaultKey(PASSWORD, 'Nom de votre premier animal ?', ANSWER);
+    await unlockMetadata(masterKey);
+    const id = await addDocument(masterKey, 'contenu du document');
+
+    // Lock, then recover with a differently typed answer
+    setMetadataKeys(null);
+    expect(await resetPasswordWithRecovery('  médor ', NEW_PASSWORD)).not.toBeNull();
+
+    expect(await unwrapMainKey(PASSWORD)).toBeNull();
+    const unlocked = await unwrapMainKey(NEW_PASSWORD);
+    expect(unlocked).not.toBeNull();
+
+    const key = await importKey(unlocked!);
+    await unlockMetadata(key);
+    const doc = await getDocument(id);
+    expect(doc?.name).toBe('Carte vitale');
+    const data = await decryptDocumentData(doc!, key);
+    expect(new TextDecoder().decode(data)).toBe('contenu du document');
+  });
+
+  it('refuses a wrong answer and leaves the password unchanged', async () => {
+    expect(await resetPasswordWithRecovery('Rex', 'Autre-mot-de-passe3')).toBeNull();
+    expect(await unwrapMainKey(NEW_PASSWORD)).not.toBeNull();
+  });
+});
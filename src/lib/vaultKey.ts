@@ -0,0 +1,164 @@
+// Wrapping of the vault (master) key: under the password for unlock, under the
+// secret answer for recovery. Documents stay encrypted with the same master key
+// whichever secret unwraps it, so password resets never touch them.
+import {
+  generateKey,
+  exportKey,
+  importKey,
+  encryptString,
+  decryptString,
+  createKdfParams,
+  legacyKdfParams,
+  wrapKeyWithPassword,
+  unwrapKeyWithPassword,
+  KdfParams
+} from '@/lib/crypto';
+import { getSetting, saveSetting, saveSettings, setMetadataKeys } from '@/lib/storage';
+import { getKeyRotationState, KeyRotationState } from '@/lib/keyRotation';
+import { generateMetadataSecret, deriveMetadataKeys } from '@/lib/metadata';
+import { base64ToUint8Array, uint8ArrayToBase64 } from '@/lib/base64';
+
+// Settings written by vaults created before versioned KDF records
+export const LEGACY_VERIFIER_SETTINGS = ['passwordHash', 'secretAnswerHash', 'salt'];
+
+export async function getKdfParams(setting: 'kdf' | 'recoveryKdf'): Promise<KdfParams | null> {
+  const stored = await getSetting(setting);
+  if (stored) return JSON.parse(stored);
+
+  // Older vaults derived both wrapping keys from the shared salt
+  const legacySalt = await getSetting('salt');
+  return legacySalt ? legacyKdfParams(legacySalt) : null;
+}
+
+export function normalizeSecretAnswer(answer: string): string {
+  return answer.toLowerCase().trim();
+}
+
+// When a key rotation is pending, its new key must follow password changes too,
+// otherwise finishing the rotation would bring the old password back
+async function rewrapPendingRotation(mainKeyExported: string, password: string, secretAnswer?: string): Promise<Record<string, string>> {
+  const rotation = await getKeyRotationState();
+  if (!rotation) return {};
+
+  const mainKey = await importKey(mainKeyExported);
+  const pendingKeyExported = await decryptString(rotation.pendingKey, mainKey);
+
+  const kdf = createKdfParams();
+  const updated: KeyRotationState = {
+    ...rotation,
+    kdf: JSON.stringify(kdf),
+    encryptedKey: await wrapKeyWithPassword(pendingKeyExported, password, kdf)
+  };
+  if (secretAnswer !== undefined) {
+    const recoveryKdf = createKdfParams();
+    updated.recoveryKdf = JSON.stringify(recoveryKdf);
+    updated.encryptedKeyRecovery = await wrapKeyWithPassword(pendingKeyExported, normalizeSecretAnswer(secretAnswer), recoveryKdf);
+  }
+
+  return { keyRotation: JSON.stringify(updated) };
+}
+
+// Unwrap the metadata key and hand it to storage. Vaults created before
+// metadata encryption get their metadata key on first unlock.
+export async function unlockMetadata(mainKey: CryptoKey): Promise<void> {
+  const encryptedMetadataKey = await getSetting('encryptedMetadataKey');
+  let secret: string;
+  if (encryptedMetadataKey) {
+    secret = await decryptString(encryptedMetadataKey, mainKey);
+  } else {
+    secret = uint8ArrayToBase64(generateMetadataSecret());
+    await saveSetting('encryptedMetadataKey', await encryptString(secret, mainKey));
+  }
+  setMetadataKeys(await deriveMetadataKeys(base64ToUint8Array(secret)));
+}
+
+// Generate the master key of a new vault and wrap it for unlock and recovery
+export async function createVaultKey(password: string, secretQuestion: string, secretAnswer: string): Promise<CryptoKey> {
+  const key = await generateKey();
+  const exportedKey = await exportKey(key);
+
+  const kdf = createKdfParams();
+  const encryptedMainKey = await wrapKeyWithPassword(exportedKey, password, kdf);
+
+  const recoveryKdf = createKdfParams();
+  const encryptedMainKeyForRecovery = await wrapKeyWithPassword(exportedKey, normalizeSecretAnswer(secretAnswer), recoveryKdf);
+
+  await saveSettings({
+    kdf: JSON.stringify(kdf),
+    encryptedKey: encryptedMainKey,
+    secretQuestion,
+    recoveryKdf: JSON.stringify(recoveryKdf),
+    encryptedKeyRecovery: encryptedMainKeyForRecovery
+  });
+
+  return key;
+}
+
+// Verify the password and return the exported main key, or null if it's wrong
+export async function unwrapMainKey(password: string): Promise<string | null> {
+  const kdf = await getKdfParams('kdf');
+  const encryptedMainKey = await getSetting('encryptedKey');
+
+  if (!kdf || !encryptedMainKey) {
+    return null;
+  }
+
+  return await unwrapKeyWithPassword(encryptedMainKey, password, kdf);
+}
+
+// Verify the secret answer and return the exported main key, or null if it's wrong
+export async function unwrapRecoveryKey(answer: string): Promise<string | null> {
+  const recoveryKdf = await getKdfParams('recoveryKdf');
+  const encryptedKeyRecovery = await getSetting('encryptedKeyRecovery');
+
+  if (!recoveryKdf || !encryptedKeyRecovery) return null;
+
+  return await unwrapKeyWithPassword(encryptedKeyRecovery, normalizeSecretAnswer(answer), recoveryKdf);
+}
+
+// Re-wrap the main key under a password with fresh KDF parameters.
+// The recovery wrapping keeps its parameters, since the secret answer isn't known here.
+export async function rewrapMainKey(password: string, mainKeyExported: string): Promise<void> {
+  const kdf = createKdfParams();
+  const encryptedMainKey = await wrapKeyWithPassword(mainKeyExported, password, kdf);
+
+  const updates: Record<string, string> = {
+    kdf: JSON.stringify(kdf),
+    encryptedKey: encryptedMainKey,
+    ...await rewrapPendingRotation(mainKeyExported, password)
+  };
+  const recoveryKdf = await getKdfParams('recoveryKdf');
+  if (recoveryKdf) {
+    updates.recoveryKdf = JSON.stringify(recoveryKdf);
+  }
+
+  await saveSettings(updates, LEGACY_VERIFIER_SETTINGS);
+}
+
+/**
+ * Set a new password from the recovery answer. The same main key is re-wrapped
+ * under the new password and fresh salts, so every document stays readable.
+ * Returns the main key, or null if the answer is wrong.
+ */
+export async function resetPasswordWithRecovery(secretAnswer: string, newPassword: string): Promise<CryptoKey | null> {
+  // Verify the answer again rather than trusting the caller
+  const mainKeyExported = await unwrapRecoveryKey(secretAnswer);
+  if (!mainKeyExported) return null;
+
+  const kdf = createKdfParams();
+  const encryptedMainKey = await wrapKeyWithPassword(mainKeyExported, newPassword, kdf);
+
+  const recoveryKdf = createKdfParams();
+  const encryptedMainKeyForRecovery = await wrapKeyWithPassword(mainKeyExported, normalizeSecretAnswer(secretAnswer), recoveryKdf);
+
+  // Save everything at once so a crash can't leave a half-updated vault
+  await saveSettings({
+    kdf: JSON.stringify(kdf),
+    encryptedKey: encryptedMainKey,
+    recoveryKdf: JSON.stringify(recoveryKdf),
+    encryptedKeyRecovery: encryptedMainKeyForRecovery,
+    ...await rewrapPendingRotation(mainKeyExported, newPassword, secretAnswer)
+  }, LEGACY_VERIFIER_SETTINGS);
+
+  return await importKey(mainKeyExported);
+}
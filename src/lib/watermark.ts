@@ -0,0 +1,84 @@
+// Watermarked copies for sharing: the decrypted file is stamped with a
+// diagonal, repeated "Copie destinée à …" text before it leaves the vault, so
+// a scan handed to an agency can't be reused elsewhere. Only the shared copy is
+// stamped; the stored document is never touched.
+//
+// The purpose used last is remembered per recipient, encrypted with the master
+// key since the list names the people documents were sent to.
+import { encryptString, decryptString } from '@/lib/crypto';
+import { getSetting, saveSettings } from '@/lib/storage';
+import { flattenDocument, MergeSource } from '@/lib/pdfMerge';
+
+const MAX_PRESETS = 20;
+
+export interface WatermarkChoice {
+  enabled: boolean;
+  recipient: string;
+  purpose: string;
+}
+
+export interface WatermarkPreset {
+  recipient: string;
+  purpose: string;
+  usedAt: number;
+}
+
+export function watermarkText(recipient: string, purpose: string, date: Date = new Date()): string {
+  const base = `Copie destinée à ${recipient.trim()}`;
+  const forPurpose = purpose.trim() ? ` pour ${purpose.trim()}` : '';
+  return `${base}${forPurpose} le ${date.toLocaleDateString('fr-FR')}`;
+}
+
+/**
+ * Tile the text diagonally over the whole area, in rows offset from each other
+ * so cropping can't remove it.
+ */
+export function drawWatermark(context: CanvasRenderingContext2D, width: number, height: number, text: string): void {
+  const fontSize = Math.max(12, Math.round(Math.max(width, height) / 40));
+  const diagonal = Math.hypot(width, height);
+
+  context.save();
+  context.translate(width / 2, height / 2);
+  context.rotate(-Math.atan2(height, width));
+  context.font = `bold ${fontSize}px sans-serif`;
+  context.fillStyle = 'rgba(200, 30, 30, 0.3)';
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+
+  const stepX = context.measureText(text).width + fontSize * 3;
+  const stepY = fontSize * 5;
+  for (let row = 0, y = -diagonal / 2; y <= diagonal / 2; row++, y += stepY) {
+    const offset = row % 2 ? stepX / 2 : 0;
+    for (let x = -diagonal / 2 - offset; x <= diagonal / 2 + stepX; x += stepX) {
+      context.fillText(text, x, y);
+    }
+  }
+  context.restore();
+}
+
+/**
+ * Stamp a decrypted document. Images come back as JPEG, PDFs as a PDF with
+ * every page stamped.
+ */
+export function watermarkCopy(source: MergeSource, text: string): Promise<MergeSource> {
+  return flattenDocument(source, (context, width, height) => drawWatermark(context, width, height, text));
+}
+
+/**
+ * Recipients watermarks were made for, most recent first.
+ */
+export async function getWatermarkPresets(masterKey: CryptoKey): Promise<WatermarkPreset[]> {
+  const stored = await getSetting('encryptedWatermarkPresets');
+  if (!stored) return [];
+  const presets: WatermarkPreset[] = JSON.parse(await decryptString(stored, masterKey));
+  return presets.sort((a, b) => b.usedAt - a.usedAt);
+}
+
+export async function rememberWatermark(masterKey: CryptoKey, recipient: string, purpose: string): Promise<void> {
+  const key = recipient.trim().toLowerCase();
+  const presets = (await getWatermarkPresets(masterKey)).filter(p => p.recipient.toLowerCase() !== key);
+  presets.unshift({ recipient: recipient.trim(), purpose: purpose.trim(), usedAt: Date.now() });
+  await saveSettings({
+    encryptedWatermarkPresets: await encryptString(JSON.stringify(presets.slice(0, MAX_PRESETS)), masterKey)
+  });
+}
@@ -1,6 +1,6 @@
 import React, { useState, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Upload, Camera, FileText, Image as ImageIcon, Check, ArrowRight, ScanLine, Folder, Files } from 'lucide-react';
+import { Upload, Camera, FileText, Image as ImageIcon, Check, ArrowRight, ScanLine, Folder, Files, QrCode } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { Layout } from '@/components/Layout';
 import { Header } from '@/components/Header';
@@ -10,19 +10,19 @@ import { Label } from '@/components/ui/label';
 import { Scanner } from '@/components/Scanner';
 import { MultiPageScanner } from '@/components/MultiPageScanner';
 import { FolderManager } from '@/components/FolderManager';
-import { categories } from '@/lib/categories';
+import { CategoryPicker } from '@/components/CategoryPicker';
+import { ExpiryFields, ExpiryValues } from '@/components/ExpiryFields';
 import { saveDocument, Document, getAllFolders, Folder as FolderType } from '@/lib/storage';
 import { useAuth } from '@/contexts/AuthContext';
-import { encryptData } from '@/lib/crypto';
-import { arrayBufferToBase64, uint8ArrayToBase64 } from '@/lib/base64';
-import { cn } from '@/lib/utils';
+import { encryptDocumentFile } from '@/lib/documentCrypto';
+import { hasExpiry } from '@/lib/expiry';
 import { toast } from '@/hooks/use-toast';
 
 type Step = 'select' | 'category' | 'details';
 
 export function AddDocumentPage() {
   const navigate = useNavigate();
-  const { encryptionKey } = useAuth();
+  const { getCurrentKey } = useAuth();
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   const [step, setStep] = useState<Step>('select');
@@ -30,6 +30,7 @@ export function AddDocumentPage() {
   const [selectedCategory, setSelectedCategory] = useState<string>('');
   const [selectedFolderId, setSelectedFolderId] = useState<string | undefined>(undefined);
   const [documentName, setDocumentName] = useState('');
+  const [expiry, setExpiry] = useState<ExpiryValues>({});
   const [isProcessing, setIsProcessing] = useState(false);
   const [preview, setPreview] = useState<string | null>(null);
   const [showScanner, setShowScanner] = useState(false);
@@ -86,35 +87,35 @@ export function AddDocumentPage() {
   };
 
   const handleSave = async () => {
-    if (!selectedFile || !selectedCategory || !documentName || !encryptionKey) return;
+    const currentKey = getCurrentKey();
+    if (!selectedFile || !selectedCategory || !documentName || !currentKey) return;
 
     setIsProcessing(true);
 
     try {
-      // Read file as ArrayBuffer
-      const arrayBuffer = await selectedFile.arrayBuffer();
-      
-      // Encrypt the file
-      const { encrypted, iv } = await encryptData(arrayBuffer, encryptionKey);
-      
-      // Convert to base64 for storage (using chunked approach for large files)
-      const encryptedBase64 = arrayBufferToBase64(encrypted);
-      const ivBase64 = uint8ArrayToBase64(iv);
+      const id = crypto.randomUUID();
+
+      // Encrypt the file segment by segment under its own data key, wrapped by the vault key
+      const payload = await encryptDocumentFile(id, selectedFile, currentKey.key);
 
       // Create document record
       const doc: Document = {
-        id: crypto.randomUUID(),
+        id,
         name: documentName,
         category: selectedCategory,
         type: selectedFile.type === 'application/pdf' ? 'pdf' : 'image',
         mimeType: selectedFile.type,
         size: selectedFile.size,
-        encryptedData: encryptedBase64,
-        iv: ivBase64,
+        ...payload,
         thumbnail: preview || undefined,
         createdAt: new Date(),
         updatedAt: new Date(),
-        folderId: selectedFolderId
+        folderId: selectedFolderId,
+        keyGeneration: currentKey.keyGeneration,
+        ...(hasExpiry(selectedCategory) && {
+          ...expiry,
+          documentNumber: expiry.documentNumber?.trim() || undefined
+        })
       };
 
       await saveDocument(doc);
@@ -221,6 +222,20 @@ export function AddDocumentPage() {
                     <p className="text-sm text-muted-foreground">Rapide</p>
                   </div>
                 </button>
+
+                {/* Receive from another DocSafe */}
+                <button
+                  onClick={() => navigate('/incoming')}
+                  className="col-span-2 flex items-center gap-4 p-6 bg-card rounded-2xl border border-border hover:border-primary/50 transition-all"
+                >
+                  <div className="w-16 h-16 rounded-2xl bg-primary/10 flex items-center justify-center shrink-0">
+                    <QrCode className="w-8 h-8 text-primary" />
+                  </div>
+                  <div className="text-left">
+                    <p className="font-medium text-foreground">Recevoir</p>
+                    <p className="text-sm text-muted-foreground">Scanner le QR code d'un autre DocSafe</p>
+                  </div>
+                </button>
               </div>
 
               <input
@@ -262,41 +277,7 @@ export function AddDocumentPage() {
                   Choisissez une catégorie
                 </h2>
 
-                <div className="grid grid-cols-2 gap-3">
-                  {categories.map((category, index) => {
-                    const Icon = category.icon;
-                    const isSelected = selectedCategory === category.id;
-                    
-                    return (
-                      <motion.button
-                        key={category.id}
-                        initial={{ opacity: 0, scale: 0.9 }}
-                        animate={{ opacity: 1, scale: 1 }}
-                        transition={{ delay: index * 0.03 }}
-                        onClick={() => setSelectedCategory(category.id)}
-                        className={cn(
-                          "flex items-center gap-3 p-4 rounded-xl border transition-all text-left",
-                          isSelected 
-                            ? "border-primary bg-primary/10" 
-                            : "border-border bg-card hover:border-primary/30"
-                        )}
-                      >
-                        <div 
-                          className="w-10 h-10 rounded-lg flex items-center justify-center shrink-0"
-                          style={{ backgroundColor: category.color + '20', color: category.color }}
-                        >
-                          <Icon className="w-5 h-5" />
-                        </div>
-                        <span className="font-medium text-foreground text-sm truncate">
-                          {category.name}
-                        </span>
-                        {isSelected && (
-                          <Check className="w-5 h-5 text-primary ml-auto shrink-0" />
-                        )}
-                      </motion.button>
-                    );
-                  })}
-                </div>
+                <CategoryPicker selectedCategory={selectedCategory} onSelect={setSelectedCategory} />
               </div>
 
               <Button
@@ -341,6 +322,10 @@ export function AddDocumentPage() {
                   />
                 </div>
 
+                {hasExpiry(selectedCategory) && (
+                  <ExpiryFields value={expiry} onChange={setExpiry} />
+                )}
+
                 {/* Folder selection */}
                 <div>
                   <Label className="text-foreground mb-2 block">
@@ -0,0 +1,340 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { FileText, Lock, Shield, AlertCircle } from 'lucide-react';
+import { useSearchParams } from 'react-router-dom';
+import { Layout } from '@/components/Layout';
+import { Header } from '@/components/Header';
+import { EmptyState } from '@/components/EmptyState';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { getDocument, Document } from '@/lib/storage';
+import { getCategoryById } from '@/lib/categories';
+import { useAuth } from '@/contexts/AuthContext';
+import { decryptDocumentData } from '@/lib/documentCrypto';
+import { shareFile } from '@/lib/share';
+import { recordShare } from '@/lib/shareLog';
+import { channelShareOptions } from '@/lib/shareOptions';
+import { mergeToPdf } from '@/lib/pdfMerge';
+import { createSharePackage, PACKAGE_EXTENSION, PACKAGE_MIME_TYPE } from '@/lib/sharePackage';
+import { validatePassword, hasSpecialChar } from '@/lib/password';
+import { cn } from '@/lib/utils';
+import { toast } from '@/hooks/use-toast';
+
+type BundleFormat = 'pdf' | 'package';
+
+const formats = [
+  {
+    id: 'pdf' as const,
+    icon: FileText,
+    name: 'PDF unique',
+    description: 'Toutes les pages dans un seul PDF, lisible par tous'
+  },
+  {
+    id: 'package' as const,
+    icon: Lock,
+    name: 'Paquet chiffré',
+    description: 'Les fichiers d\'origine, protégés par une phrase de passe, à ouvrir dans DocSafe'
+  },
+];
+
+// Share several selected documents as one file
+export function BundleSharePage() {
+  const [searchParams] = useSearchParams();
+  const { encryptionKey, getDocumentKey } = useAuth();
+
+  const [documents, setDocuments] = useState<Document[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [format, setFormat] = useState<BundleFormat>('pdf');
+  const [bundleName, setBundleName] = useState('Documents');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSharing, setIsSharing] = useState(false);
+
+  const ids = searchParams.get('ids') || '';
+
+  useEffect(() => {
+    loadDocuments();
+  }, [ids]);
+
+  const loadDocuments = async () => {
+    try {
+      const docs = await Promise.all(ids.split(',').filter(Boolean).map(id => getDocument(id)));
+      setDocuments(docs.filter((doc): doc is Document => !!doc));
+    } catch (error) {
+      console.error('Error loading documents:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const buildFile = async (name: string): Promise<File> => {
+    const files = await Promise.all(documents.map(async doc => ({
+      name: doc.name,
+      type: doc.type,
+      mimeType: doc.mimeType,
+      data: await decryptDocumentData(doc, getDocumentKey(doc))
+    })));
+
+    if (format === 'pdf') {
+      return new File([await mergeToPdf(files)], name + '.pdf', { type: 'application/pdf' });
+    }
+    const pack = await createSharePackage(files, passphrase);
+    return new File([pack], name + PACKAGE_EXTENSION, { type: PACKAGE_MIME_TYPE });
+  };
+
+  const handleShare = async (method: string) => {
+    if (!encryptionKey || documents.length === 0) return;
+
+    if (format === 'package') {
+      const validation = validatePassword(passphrase);
+      if (!validation.valid) {
+        setErrors(validation.errors);
+        return;
+      }
+      if (passphrase !== confirmPassphrase) {
+        setErrors(['Les phrases de passe ne correspondent pas']);
+        return;
+      }
+    }
+
+    setIsSharing(true);
+
+    try {
+      const name = bundleName.trim() || 'Documents';
+      const file = await buildFile(name);
+
+      const result = await shareFile(file, {
+        title: name,
+        text: format === 'pdf'
+          ? `Documents partagés depuis DocWallet: ${name}`
+          : `Paquet chiffré de ${documents.length} documents. Ouvrez-le dans DocSafe : Ajouter › Recevoir.`
+      }, method === 'native');
+      // A file that was only downloaded hasn't reached the chosen app
+      await recordShare(documents, {
+        method: result === 'downloaded' ? 'download' : method,
+        note: format === 'pdf' ? `PDF groupé « ${name} »` : `Paquet chiffré « ${name} »`
+      });
+
+      if (result === 'shared') {
+        toast({
+          title: 'Partage réussi',
+          description: `${documents.length} documents ont été partagés en un seul fichier.`
+        });
+      } else {
+        toast({
+          title: 'Fichier prêt',
+          description: 'Le fichier a été téléchargé. Vous pouvez maintenant le partager manuellement.'
+        });
+      }
+    } catch (error) {
+      console.error('Error sharing bundle:', error);
+
+      if ((error as Error).name !== 'AbortError') {
+        toast({
+          title: 'Erreur de partage',
+          description: 'Impossible de regrouper ces documents.',
+          variant: 'destructive'
+        });
+      }
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <Header title="Partager" showBack />
+        <div className="flex items-center justify-center h-64">
+          <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+        </div>
+      </Layout>
+    );
+  }
+
+  if (documents.length === 0) {
+    return (
+      <Layout>
+        <Header title="Partager" showBack />
+        <EmptyState
+          title="Aucun document"
+          description="Les documents sélectionnés n'existent pas ou ont été supprimés."
+        />
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <Header title="Partager" showBack />
+
+      <div className="px-4 py-6 space-y-6">
+        {/* Selected documents */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="p-4 bg-card rounded-xl border border-border space-y-3"
+        >
+          <p className="text-sm text-muted-foreground">
+            {documents.length} document{documents.length > 1 ? 's' : ''}
+          </p>
+          {documents.map(doc => {
+            const category = getCategoryById(doc.category);
+            return (
+              <div key={doc.id} className="flex items-center gap-3">
+                {category && (
+                  <div
+                    className="w-8 h-8 rounded-lg flex items-center justify-center shrink-0"
+                    style={{ backgroundColor: category.color + '20', color: category.color }}
+                  >
+                    <category.icon className="w-4 h-4" />
+                  </div>
+                )}
+                <p className="font-medium text-foreground truncate">{doc.name}</p>
+              </div>
+            );
+          })}
+        </motion.div>
+
+        {/* Format */}
+        <div className="space-y-3">
+          <h2 className="text-lg font-semibold text-foreground">Format</h2>
+          {formats.map(option => {
+            const Icon = option.icon;
+            return (
+              <button
+                key={option.id}
+                onClick={() => {
+                  setFormat(option.id);
+                  setErrors([]);
+                }}
+                className={cn(
+                  "w-full flex items-center gap-4 p-4 rounded-xl border transition-all text-left",
+                  format === option.id
+                    ? "border-primary bg-primary/10"
+                    : "border-border bg-card hover:border-primary/30"
+                )}
+              >
+                <div className="w-12 h-12 rounded-xl bg-primary/10 flex items-center justify-center shrink-0">
+                  <Icon className="w-6 h-6 text-primary" />
+                </div>
+                <div className="min-w-0">
+                  <p className="font-medium text-foreground">{option.name}</p>
+                  <p className="text-sm text-muted-foreground">{option.description}</p>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+
+        <div>
+          <Label htmlFor="bundle-name" className="text-foreground">
+            Nom du fichier
+          </Label>
+          <Input
+            id="bundle-name"
+            value={bundleName}
+            onChange={(e) => setBundleName(e.target.value)}
+            className="mt-2 h-12 bg-secondary border-0"
+          />
+        </div>
+
+        {format === 'package' && (
+          <div className="space-y-3">
+            <Input
+              type="password"
+              placeholder="Phrase de passe du paquet"
+              value={passphrase}
+              onChange={(e) => {
+                setPassphrase(e.target.value);
+                setErrors([]);
+              }}
+              className="h-12"
+            />
+            <Input
+              type="password"
+              placeholder="Confirmez la phrase de passe"
+              value={confirmPassphrase}
+              onChange={(e) => {
+                setConfirmPassphrase(e.target.value);
+                setErrors([]);
+              }}
+              className="h-12"
+            />
+            {errors.length > 0 ? (
+              <div className="text-sm space-y-1">
+                {errors.map((err, i) => (
+                  <p key={i} className="text-destructive flex items-center gap-2">
+                    <span className="w-1.5 h-1.5 rounded-full bg-destructive" />
+                    {err}
+                  </p>
+                ))}
+              </div>
+            ) : (
+              <div className="text-xs text-muted-foreground space-y-1">
+                <p className={cn(passphrase.length >= 8 && "text-green-500")}>
+                  • Au moins 8 caractères
+                </p>
+                <p className={cn(/[A-Z]/.test(passphrase) && "text-green-500")}>
+                  • Au moins une majuscule
+                </p>
+                <p className={cn(hasSpecialChar(passphrase) && "text-green-500")}>
+                  • Au moins un caractère spécial
+                </p>
+              </div>
+            )}
+            <div className="flex items-start gap-3 p-4 bg-primary/10 rounded-xl">
+              <Shield className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+              <p className="text-xs text-muted-foreground">
+                Communiquez la phrase de passe par un autre moyen que le fichier, par exemple de vive voix ou par
+                téléphone.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* Share options */}
+        <div className="space-y-3">
+          <h2 className="text-lg font-semibold text-foreground">Choisir une méthode</h2>
+
+          {channelShareOptions.map((option, index) => {
+            const Icon = option.icon;
+            return (
+              <motion.button
+                key={option.id}
+                initial={{ opacity: 0, x: -20 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: 0.1 + index * 0.05 }}
+                onClick={() => handleShare(option.id)}
+                disabled={isSharing}
+                className="w-full flex items-center gap-4 p-4 bg-card rounded-xl border border-border hover:border-primary/30 transition-all disabled:opacity-50"
+              >
+                <div
+                  className="w-12 h-12 rounded-xl flex items-center justify-center shrink-0"
+                  style={{ backgroundColor: option.color + '20' }}
+                >
+                  <Icon className="w-6 h-6" style={{ color: option.color }} />
+                </div>
+                <div className="text-left">
+                  <p className="font-medium text-foreground">{option.name}</p>
+                  <p className="text-sm text-muted-foreground">{option.description}</p>
+                </div>
+              </motion.button>
+            );
+          })}
+        </div>
+
+        {/* Warning */}
+        <div className="flex items-start gap-3 p-4 bg-warning/10 rounded-xl">
+          <AlertCircle className="w-5 h-5 text-warning shrink-0 mt-0.5" />
+          <p className="text-xs text-muted-foreground">
+            {format === 'pdf'
+              ? 'Le PDF n\'est pas chiffré : le destinataire aura accès aux documents en clair. Partagez uniquement avec des personnes de confiance.'
+              : 'Une fois ouvert avec la phrase de passe, le destinataire aura accès aux documents en clair. Partagez uniquement avec des personnes de confiance.'}
+          </p>
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -6,15 +6,18 @@ import { Layout } from '@/components/Layout';
 import { Header } from '@/components/Header';
 import { DocumentCard } from '@/components/DocumentCard';
 import { EmptyState } from '@/components/EmptyState';
+import { SelectionBar } from '@/components/SelectionBar';
 import { Button } from '@/components/ui/button';
 import { getCategoryById } from '@/lib/categories';
 import { getDocumentsByCategory, Document } from '@/lib/storage';
+import { useDocumentSelection } from '@/hooks/use-document-selection';
 
 export function CategoryPage() {
   const { categoryId } = useParams<{ categoryId: string }>();
   const navigate = useNavigate();
   const [documents, setDocuments] = useState<Document[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const selection = useDocumentSelection();
 
   const category = categoryId ? getCategoryById(categoryId) : undefined;
 
@@ -65,7 +68,18 @@ export function CategoryPage() {
 
   return (
     <Layout>
-      <Header title={category.name} showBack />
+      <Header
+        title={category.name}
+        showBack
+        action={documents.length > 1 && !selection.isSelecting ? (
+          <button
+            onClick={selection.start}
+            className="px-2 py-1 text-sm text-primary font-medium"
+          >
+            Sélectionner
+          </button>
+        ) : undefined}
+      />
 
       <div className="px-4 py-6 space-y-6">
         {/* Category header */}
@@ -104,6 +118,8 @@ export function CategoryPage() {
                 onView={handleView}
                 onShare={handleShare}
                 onDelete={handleDelete}
+                onSelect={selection.isSelecting ? selection.toggle : undefined}
+                selected={selection.selectedIds.includes(doc.id)}
                 delay={index}
               />
             ))}
@@ -122,6 +138,10 @@ export function CategoryPage() {
           />
         )}
       </div>
+
+      {selection.isSelecting && (
+        <SelectionBar selectedIds={selection.selectedIds} onCancel={selection.cancel} />
+      )}
     </Layout>
   );
 }
@@ -0,0 +1,260 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { QRCodeSVG } from 'qrcode.react';
+import { Fingerprint, Shield, Trash2, UserPlus, Users } from 'lucide-react';
+import { Layout } from '@/components/Layout';
+import { Header } from '@/components/Header';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { EmptyState } from '@/components/EmptyState';
+import { QRScanner } from '@/components/QRScanner';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { getAllContacts, saveContact, deleteContact, Contact } from '@/lib/storage';
+import { getIdentity, contactCode, parseContactCode, keyFingerprint } from '@/lib/identity';
+import { uint8ArrayToBase64Url, base64UrlToUint8Array } from '@/lib/base64';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+
+// Contacts documents can be sealed for, and this vault's own contact code
+export function ContactsPage() {
+  const { encryptionKey } = useAuth();
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [fingerprints, setFingerprints] = useState<Record<string, string>>({});
+  const [myCode, setMyCode] = useState('');
+  const [myFingerprint, setMyFingerprint] = useState('');
+  const [isScanning, setIsScanning] = useState(false);
+  const [scannedKey, setScannedKey] = useState<Uint8Array | null>(null);
+  const [scannedFingerprint, setScannedFingerprint] = useState('');
+  const [contactName, setContactName] = useState('');
+  const [deletingContact, setDeletingContact] = useState<Contact | null>(null);
+
+  useEffect(() => {
+    loadContacts();
+  }, []);
+
+  useEffect(() => {
+    if (encryptionKey) {
+      loadIdentity(encryptionKey);
+    }
+  }, [encryptionKey]);
+
+  const loadContacts = async () => {
+    const data = await getAllContacts();
+    setContacts(data.sort((a, b) => a.name.localeCompare(b.name, 'fr')));
+
+    const entries = await Promise.all(data.map(async contact =>
+      [contact.id, await keyFingerprint(base64UrlToUint8Array(contact.publicKey))] as const
+    ));
+    setFingerprints(Object.fromEntries(entries));
+  };
+
+  const loadIdentity = async (masterKey: CryptoKey) => {
+    try {
+      const identity = await getIdentity(masterKey);
+      setMyCode(contactCode(identity.publicKey));
+      setMyFingerprint(await keyFingerprint(identity.publicKey));
+    } catch (error) {
+      console.error('Error loading identity:', error);
+    }
+  };
+
+  const handleScan = async (text: string) => {
+    const publicKey = parseContactCode(text);
+    if (!publicKey || scannedKey) return;
+
+    const encoded = uint8ArrayToBase64Url(publicKey);
+    if (text === myCode) {
+      toast({ title: 'Code refusé', description: 'C\'est votre propre code contact.', variant: 'destructive' });
+      setIsScanning(false);
+      return;
+    }
+    const existing = contacts.find(contact => contact.publicKey === encoded);
+    if (existing) {
+      toast({ title: 'Déjà enregistré', description: `Ce code est celui de ${existing.name}.` });
+      setIsScanning(false);
+      return;
+    }
+
+    setScannedKey(publicKey);
+    setScannedFingerprint(await keyFingerprint(publicKey));
+    setIsScanning(false);
+  };
+
+  const cancelAdd = () => {
+    setScannedKey(null);
+    setContactName('');
+  };
+
+  const handleSaveContact = async () => {
+    if (!scannedKey || !contactName.trim()) return;
+
+    try {
+      await saveContact({
+        id: crypto.randomUUID(),
+        name: contactName.trim(),
+        publicKey: uint8ArrayToBase64Url(scannedKey),
+        createdAt: new Date()
+      });
+      toast({ title: 'Contact ajouté', description: `Vous pouvez maintenant chiffrer des documents pour ${contactName.trim()}.` });
+      cancelAdd();
+      await loadContacts();
+    } catch (error) {
+      console.error('Error saving contact:', error);
+      toast({ title: 'Erreur', description: 'Impossible d\'enregistrer le contact.', variant: 'destructive' });
+    }
+  };
+
+  const handleDeleteContact = async (contact: Contact) => {
+    await deleteContact(contact.id);
+    setDeletingContact(null);
+    await loadContacts();
+  };
+
+  return (
+    <Layout>
+      <Header title="Contacts" showBack />
+
+      <div className="px-4 py-6 space-y-6">
+        {isScanning ? (
+          <div className="space-y-4">
+            <QRScanner onScan={handleScan} />
+            <p className="text-sm text-muted-foreground text-center">
+              Scannez le code contact affiché dans les Contacts de l'autre DocSafe
+            </p>
+            <Button variant="outline" onClick={() => setIsScanning(false)} className="w-full">
+              Annuler
+            </Button>
+          </div>
+        ) : scannedKey ? (
+          <motion.div initial={{ opacity: 0, x: 20 }} animate={{ opacity: 1, x: 0 }} className="space-y-6">
+            <div className="flex items-start gap-3 p-4 bg-primary/10 rounded-xl">
+              <Fingerprint className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+              <div>
+                <p className="text-sm font-medium text-foreground font-mono">{scannedFingerprint}</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Vérifiez que cette empreinte est bien celle affichée sur l'appareil de votre contact.
+                </p>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="contact-name" className="text-foreground">
+                Nom du contact
+              </Label>
+              <Input
+                id="contact-name"
+                value={contactName}
+                onChange={(e) => setContactName(e.target.value)}
+                placeholder="Marie"
+                className="mt-2 h-12 bg-secondary border-0"
+              />
+            </div>
+            <div className="flex gap-3">
+              <Button variant="outline" onClick={cancelAdd} className="flex-1">
+                Annuler
+              </Button>
+              <Button onClick={handleSaveContact} disabled={!contactName.trim()} className="flex-1">
+                Enregistrer
+              </Button>
+            </div>
+          </motion.div>
+        ) : (
+          <>
+            {/* My contact code */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="flex flex-col items-center p-5 bg-card rounded-2xl border border-border"
+            >
+              <p className="font-semibold text-foreground mb-4">Mon code contact</p>
+              {myCode ? (
+                <QRCodeSVG value={myCode} size={180} level="M" includeMargin className="rounded-lg" />
+              ) : (
+                <div className="w-[180px] h-[180px] flex items-center justify-center">
+                  <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+                </div>
+              )}
+              <p className="text-sm font-mono text-muted-foreground mt-3">{myFingerprint}</p>
+              <p className="text-xs text-muted-foreground text-center mt-2">
+                Faites scanner ce code pour recevoir des documents que vous seul pourrez ouvrir.
+              </p>
+            </motion.div>
+
+            <Button onClick={() => setIsScanning(true)} className="w-full">
+              <UserPlus className="w-4 h-4 mr-2" />
+              Ajouter un contact
+            </Button>
+
+            {contacts.length === 0 ? (
+              <EmptyState
+                icon={<Users className="w-10 h-10 text-muted-foreground" />}
+                title="Aucun contact"
+                description="Ajoutez un contact pour lui envoyer des documents chiffrés."
+              />
+            ) : (
+              <div className="space-y-2">
+                {contacts.map(contact => (
+                  <div key={contact.id} className="flex items-center gap-3 p-3 bg-card rounded-xl border border-border">
+                    <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center shrink-0">
+                      <span className="font-semibold text-primary">{contact.name.charAt(0).toUpperCase()}</span>
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-foreground truncate">{contact.name}</p>
+                      <p className="text-xs font-mono text-muted-foreground">{fingerprints[contact.id]}</p>
+                    </div>
+                    <button
+                      onClick={() => setDeletingContact(contact)}
+                      className="p-2 hover:bg-destructive/10 rounded-lg transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex items-start gap-3 p-4 bg-primary/10 rounded-xl">
+              <Shield className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+              <div>
+                <p className="text-sm font-medium text-foreground">Chiffrement de bout en bout</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Un document envoyé à un contact ne peut être ouvert que par son DocSafe, quel que soit le moyen utilisé
+                  pour le transmettre.
+                </p>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+
+      <AlertDialog open={!!deletingContact} onOpenChange={() => setDeletingContact(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Supprimer ce contact ?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Vous ne pourrez plus lui envoyer de documents chiffrés sans scanner à nouveau son code.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Annuler</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deletingContact && handleDeleteContact(deletingContact)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Supprimer
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Layout>
+  );
+}
@@ -1,19 +1,24 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Share2, Trash2, Download, QrCode, FileText, Edit2, Check, X, FolderOpen } from 'lucide-react';
+import { Share2, Trash2, Download, QrCode, FileText, Edit2, Check, X, FolderOpen, EyeOff, CalendarClock } from 'lucide-react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { Document, Page, pdfjs } from 'react-pdf';
+import { Document, Page } from 'react-pdf';
 import 'react-pdf/dist/esm/Page/AnnotationLayer.css';
 import 'react-pdf/dist/esm/Page/TextLayer.css';
+import '@/lib/pdfWorker';
 import { Layout } from '@/components/Layout';
 import { Header } from '@/components/Header';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { EmptyState } from '@/components/EmptyState';
-import { getDocument, deleteDocument, updateDocument, Document as DocType } from '@/lib/storage';
+import { ShareLogItem } from '@/components/ShareLogItem';
+import { ExpiryFields, ExpiryValues } from '@/components/ExpiryFields';
+import { getDocument, deleteDocument, updateDocument, getDocumentShareLog, Document as DocType, ShareLogEntry } from '@/lib/storage';
 import { getCategoryById, categories } from '@/lib/categories';
 import { useAuth } from '@/contexts/AuthContext';
-import { decryptData } from '@/lib/crypto';
+import { decryptDocumentBlob } from '@/lib/documentCrypto';
+import { recordShare } from '@/lib/shareLog';
+import { hasExpiry, expiryStatus, formatDay, describeExpiry, getExpiryReminderConfig } from '@/lib/expiry';
 import { toast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
 import {
@@ -30,17 +35,15 @@ import {
 import {
   Dialog,
   DialogContent,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
 
-// Configure PDF.js worker
-pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
-
 export function DocumentViewPage() {
   const { documentId } = useParams<{ documentId: string }>();
   const navigate = useNavigate();
-  const { encryptionKey } = useAuth();
+  const { encryptionKey, getDocumentKey } = useAuth();
   
   const [document, setDocument] = useState<DocType | null>(null);
   const [decryptedUrl, setDecryptedUrl] = useState<string | null>(null);
@@ -48,6 +51,10 @@ export function DocumentViewPage() {
   const [isEditing, setIsEditing] = useState(false);
   const [newName, setNewName] = useState('');
   const [showCategoryDialog, setShowCategoryDialog] = useState(false);
+  const [shareLog, setShareLog] = useState<ShareLogEntry[]>([]);
+  const [showExpiryDialog, setShowExpiryDialog] = useState(false);
+  const [expiryDraft, setExpiryDraft] = useState<ExpiryValues>({});
+  const [leadMonths, setLeadMonths] = useState<Record<string, number>>({});
   
   // PDF state
   const [numPages, setNumPages] = useState<number | null>(null);
@@ -71,13 +78,11 @@ export function DocumentViewPage() {
 
       setDocument(doc);
       setNewName(doc.name);
+      loadShareLog(doc.id);
+      getExpiryReminderConfig().then(config => setLeadMonths(config.leadMonths));
 
       // Decrypt the file
-      const encryptedBytes = Uint8Array.from(atob(doc.encryptedData), c => c.charCodeAt(0));
-      const iv = Uint8Array.from(atob(doc.iv), c => c.charCodeAt(0));
-      
-      const decrypted = await decryptData(encryptedBytes.buffer, encryptionKey, iv);
-      const blob = new Blob([decrypted], { type: doc.mimeType });
+      const blob = await decryptDocumentBlob(doc, getDocumentKey(doc));
       const url = URL.createObjectURL(blob);
       
       setDecryptedUrl(url);
@@ -93,6 +98,14 @@ export function DocumentViewPage() {
     }
   };
 
+  const loadShareLog = async (id: string) => {
+    try {
+      setShareLog(await getDocumentShareLog(id));
+    } catch (error) {
+      console.error('Error loading share log:', error);
+    }
+  };
+
   const handleDelete = async () => {
     if (!documentId) return;
 
@@ -158,7 +171,42 @@ export function DocumentViewPage() {
     }
   };
 
-  const handleDownload = () => {
+  const openExpiryDialog = () => {
+    if (!document) return;
+    setExpiryDraft({
+      issuedAt: document.issuedAt,
+      expiresAt: document.expiresAt,
+      documentNumber: document.documentNumber
+    });
+    setShowExpiryDialog(true);
+  };
+
+  const handleSaveExpiry = async () => {
+    if (!documentId) return;
+
+    const updates: ExpiryValues = {
+      ...expiryDraft,
+      documentNumber: expiryDraft.documentNumber?.trim() || undefined
+    };
+
+    try {
+      await updateDocument(documentId, updates);
+      setDocument(prev => prev ? { ...prev, ...updates } : null);
+      setShowExpiryDialog(false);
+      toast({
+        title: 'Validité enregistrée',
+        description: 'Les informations du document ont été mises à jour.'
+      });
+    } catch (error) {
+      toast({
+        title: 'Erreur',
+        description: 'Impossible d\'enregistrer ces informations.',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleDownload = async () => {
     if (!decryptedUrl || !document) return;
 
     const a = window.document.createElement('a');
@@ -167,6 +215,8 @@ export function DocumentViewPage() {
     window.document.body.appendChild(a);
     a.click();
     window.document.body.removeChild(a);
+    await recordShare([document], { method: 'download' });
+    loadShareLog(document.id);
 
     toast({
       title: 'Téléchargé',
@@ -211,6 +261,7 @@ export function DocumentViewPage() {
   }
 
   const category = getCategoryById(document.category);
+  const status = expiryStatus(document, leadMonths);
 
   return (
     <Layout>
@@ -376,8 +427,60 @@ export function DocumentViewPage() {
               year: 'numeric'
             }).format(new Date(document.createdAt))}
           </p>
+
+          {hasExpiry(document.category) && (
+            <button
+              onClick={openExpiryDialog}
+              className="w-full flex items-start gap-3 p-4 bg-card rounded-xl border border-border hover:border-primary/30 transition-all text-left"
+            >
+              <CalendarClock className={cn(
+                "w-5 h-5 shrink-0 mt-0.5",
+                status === 'expired' ? "text-destructive" : status === 'soon' ? "text-warning" : "text-primary"
+              )} />
+              <div className="flex-1 min-w-0 space-y-0.5">
+                <p className="font-medium text-foreground">Validité</p>
+                {document.expiresAt ? (
+                  <p className={cn(
+                    "text-sm",
+                    status === 'expired' ? "text-destructive" : status === 'soon' ? "text-warning" : "text-muted-foreground"
+                  )}>
+                    {status === 'expired' ? 'Expiré le' : 'Expire le'} {formatDay(document.expiresAt)} • {describeExpiry(document.expiresAt)}
+                  </p>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Indiquez la date d'expiration pour être prévenu à temps du renouvellement.
+                  </p>
+                )}
+                {document.issuedAt && (
+                  <p className="text-sm text-muted-foreground">Délivré le {formatDay(document.issuedAt)}</p>
+                )}
+                {document.documentNumber && (
+                  <p className="text-sm text-muted-foreground">N° {document.documentNumber}</p>
+                )}
+              </div>
+              <Edit2 className="w-4 h-4 text-muted-foreground shrink-0 mt-1" />
+            </button>
+          )}
         </div>
 
+        {/* Validity dialog */}
+        <Dialog open={showExpiryDialog} onOpenChange={setShowExpiryDialog}>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>Validité du document</DialogTitle>
+            </DialogHeader>
+            <ExpiryFields value={expiryDraft} onChange={setExpiryDraft} />
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setShowExpiryDialog(false)}>
+                Annuler
+              </Button>
+              <Button onClick={handleSaveExpiry}>
+                Enregistrer
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
         {/* Change category dialog */}
         <Dialog open={showCategoryDialog} onOpenChange={setShowCategoryDialog}>
           <DialogContent className="max-w-md max-h-[80vh] overflow-y-auto">
@@ -420,7 +523,7 @@ export function DocumentViewPage() {
         </Dialog>
 
         {/* Actions */}
-        <div className="grid grid-cols-3 gap-3">
+        <div className="grid grid-cols-4 gap-3">
           <Button
             variant="outline"
             onClick={handleDownload}
@@ -447,8 +550,41 @@ export function DocumentViewPage() {
             <QrCode className="w-5 h-5" />
             <span className="text-xs">QR Code</span>
           </Button>
+
+          <Button
+            variant="outline"
+            onClick={() => navigate(`/redact/${document.id}`)}
+            className="flex flex-col items-center gap-2 h-auto py-4"
+          >
+            <EyeOff className="w-5 h-5" />
+            <span className="text-xs">Masquer</span>
+          </Button>
         </div>
 
+        {/* Share history */}
+        <section className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-foreground">Partages</h2>
+            {shareLog.length > 0 && (
+              <button
+                onClick={() => navigate('/share-history')}
+                className="text-sm text-primary font-medium"
+              >
+                Tout l'historique
+              </button>
+            )}
+          </div>
+          {shareLog.length > 0 ? (
+            <div className="space-y-2">
+              {shareLog.map(entry => (
+                <ShareLogItem key={entry.id} entry={entry} />
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Ce document n'a encore jamais été partagé.</p>
+          )}
+        </section>
+
         <p className="text-xs text-muted-foreground text-center">
           🔒 Ce document est chiffré et stocké uniquement sur votre appareil.
         </p>
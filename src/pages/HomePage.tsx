@@ -1,22 +1,28 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Plus, Shield, Lock } from 'lucide-react';
+import { Plus, Shield, Lock, CalendarClock } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { Layout } from '@/components/Layout';
 import { Header } from '@/components/Header';
 import { CategoryCard } from '@/components/CategoryCard';
 import { DocumentCard } from '@/components/DocumentCard';
 import { EmptyState } from '@/components/EmptyState';
+import { SelectionBar } from '@/components/SelectionBar';
 import { Button } from '@/components/ui/button';
-import { categories } from '@/lib/categories';
+import { categories, getCategoryById } from '@/lib/categories';
 import { getAllDocuments, Document } from '@/lib/storage';
+import { getExpiringDocuments, getExpiryReminderConfig, describeExpiry, formatDay } from '@/lib/expiry';
+import { cn } from '@/lib/utils';
 import { useAuth } from '@/contexts/AuthContext';
+import { useDocumentSelection } from '@/hooks/use-document-selection';
 
 export function HomePage() {
   const navigate = useNavigate();
   const { logout } = useAuth();
   const [documents, setDocuments] = useState<Document[]>([]);
+  const [leadMonths, setLeadMonths] = useState<Record<string, number>>({});
   const [isLoading, setIsLoading] = useState(true);
+  const selection = useDocumentSelection();
 
   useEffect(() => {
     loadDocuments();
@@ -24,8 +30,9 @@ export function HomePage() {
 
   const loadDocuments = async () => {
     try {
-      const docs = await getAllDocuments();
+      const [docs, expiryConfig] = await Promise.all([getAllDocuments(), getExpiryReminderConfig()]);
       setDocuments(docs);
+      setLeadMonths(expiryConfig.leadMonths);
     } catch (error) {
       console.error('Error loading documents:', error);
     } finally {
@@ -41,6 +48,8 @@ export function HomePage() {
     .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
     .slice(0, 5);
 
+  const expiringDocuments = getExpiringDocuments(documents, leadMonths);
+
   const handleView = (doc: Document) => {
     navigate(`/document/${doc.id}`);
   };
@@ -89,6 +98,44 @@ export function HomePage() {
           </div>
         </motion.div>
 
+        {/* Identity documents to renew */}
+        {expiringDocuments.length > 0 && (
+          <section>
+            <h2 className="text-lg font-semibold text-foreground mb-4">Expire bientôt</h2>
+            <div className="space-y-2">
+              {expiringDocuments.map(({ document: doc, status }) => {
+                const category = getCategoryById(doc.category);
+                return (
+                  <button
+                    key={doc.id}
+                    onClick={() => handleView(doc)}
+                    className={cn(
+                      "w-full flex items-center gap-3 p-3 bg-card rounded-xl border transition-all text-left",
+                      status === 'expired' ? "border-destructive/30" : "border-warning/30"
+                    )}
+                  >
+                    {category && (
+                      <div
+                        className="w-10 h-10 rounded-lg flex items-center justify-center shrink-0"
+                        style={{ backgroundColor: category.color + '20', color: category.color }}
+                      >
+                        <category.icon className="w-5 h-5" />
+                      </div>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-foreground truncate">{doc.name}</p>
+                      <p className={cn("text-xs", status === 'expired' ? "text-destructive" : "text-warning")}>
+                        {describeExpiry(doc.expiresAt!)} • {formatDay(doc.expiresAt!)}
+                      </p>
+                    </div>
+                    <CalendarClock className={cn("w-5 h-5 shrink-0", status === 'expired' ? "text-destructive" : "text-warning")} />
+                  </button>
+                );
+              })}
+            </div>
+          </section>
+        )}
+
         {/* Categories */}
         <section>
           <div className="flex items-center justify-between mb-4">
@@ -120,7 +167,17 @@ export function HomePage() {
 
         {/* Recent Documents */}
         <section>
-          <h2 className="text-lg font-semibold text-foreground mb-4">Documents récents</h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-foreground">Documents récents</h2>
+            {recentDocuments.length > 1 && !selection.isSelecting && (
+              <button
+                onClick={selection.start}
+                className="text-sm text-primary font-medium"
+              >
+                Sélectionner
+              </button>
+            )}
+          </div>
 
           {isLoading ? (
             <div className="space-y-3">
@@ -137,6 +194,8 @@ export function HomePage() {
                   onView={handleView}
                   onShare={handleShare}
                   onDelete={handleDelete}
+                  onSelect={selection.isSelecting ? selection.toggle : undefined}
+                  selected={selection.selectedIds.includes(doc.id)}
                   delay={index}
                 />
               ))}
@@ -155,6 +214,10 @@ export function HomePage() {
           )}
         </section>
       </div>
+
+      {selection.isSelecting && (
+        <SelectionBar selectedIds={selection.selectedIds} onCancel={selection.cancel} />
+      )}
     </Layout>
   );
 }
@@ -0,0 +1,236 @@
+import React, { useState, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { AlertCircle, RotateCcw, Shield, Lock, UserCheck, Package } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Layout } from '@/components/Layout';
+import { Header } from '@/components/Header';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { QRReceiver } from '@/components/QRReceiver';
+import { ReceivedDocumentForm, ReceivedFile } from '@/components/ReceivedDocumentForm';
+import { NearbyReceiver } from '@/components/NearbyReceiver';
+import { ShareLinkError } from '@/lib/shareLink';
+import { PeerTransferError } from '@/lib/peerTransfer';
+import { openSealedDocument, SealedDocumentError, SEALED_EXTENSION } from '@/lib/sealed';
+import { isSharePackage, openSharePackage, SharePackageError, PACKAGE_EXTENSION } from '@/lib/sharePackage';
+import { getIdentity, keyFingerprint } from '@/lib/identity';
+import { getAllContacts } from '@/lib/storage';
+import { uint8ArrayToBase64Url } from '@/lib/base64';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+
+// Receive a document shared by QR code from another DocSafe, straight into the vault
+export function IncomingPage() {
+  const navigate = useNavigate();
+  const { encryptionKey } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [shared, setShared] = useState<ReceivedFile | null>(null);
+  // Who sealed a received file, when it came from one
+  const [sender, setSender] = useState<string | null>(null);
+  const [peerOffer, setPeerOffer] = useState<string | null>(null);
+  // A share package waiting for its passphrase, then its files saved one by one
+  const [packageBytes, setPackageBytes] = useState<Uint8Array | null>(null);
+  const [packagePassphrase, setPackagePassphrase] = useState('');
+  const [isOpeningPackage, setIsOpeningPackage] = useState(false);
+  const [packageFiles, setPackageFiles] = useState<ReceivedFile[]>([]);
+  const [packageIndex, setPackageIndex] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  // Remounts the receiver for a fresh scan
+  const [attempt, setAttempt] = useState(0);
+
+  const handleError = (err: unknown) => {
+    console.error('Error receiving document:', err);
+    if (err instanceof ShareLinkError && err.reason === 'expired') {
+      setError('Ce QR code a expiré. Demandez à l\'expéditeur d\'en générer un nouveau.');
+    } else if (err instanceof ShareLinkError && err.reason === 'integrity') {
+      setError('Les données reçues ont été modifiées ou sont incomplètes : le document ne peut pas être ouvert.');
+    } else if (err instanceof SealedDocumentError && err.reason === 'recipient') {
+      setError('Ce fichier a été chiffré pour quelqu\'un d\'autre : seul son destinataire peut l\'ouvrir.');
+    } else if (err instanceof SealedDocumentError && err.reason === 'integrity') {
+      setError('Ce fichier a été modifié ou ne provient pas de l\'expéditeur annoncé : il ne peut pas être ouvert.');
+    } else if (err instanceof SealedDocumentError || err instanceof SharePackageError) {
+      setError('Ce fichier n\'est pas un document DocSafe chiffré.');
+    } else if (peerOffer && !(err instanceof PeerTransferError)) {
+      setError('Le transfert à proximité n\'a pas pu démarrer sur cet appareil.');
+    } else {
+      setError('Ce QR code ne contient pas de document DocSafe valide.');
+    }
+  };
+
+  // A document a contact sealed for this vault, or a share package, received by any channel
+  const handleEncryptedFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !encryptionKey) return;
+
+    try {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      if (isSharePackage(bytes)) {
+        setPackageBytes(bytes);
+        return;
+      }
+
+      const opened = await openSealedDocument(bytes, await getIdentity(encryptionKey));
+      const senderKey = uint8ArrayToBase64Url(opened.senderKey);
+      const contact = (await getAllContacts()).find(c => c.publicKey === senderKey);
+      setSender(contact
+        ? `Envoyé par ${contact.name}`
+        : `Expéditeur absent de vos contacts (empreinte ${await keyFingerprint(opened.senderKey)})`);
+      setShared(opened);
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const handleOpenPackage = async () => {
+    if (!packageBytes) return;
+
+    setIsOpeningPackage(true);
+    try {
+      const files = await openSharePackage(packageBytes, packagePassphrase);
+      setPackageBytes(null);
+      setPackagePassphrase('');
+      setPackageFiles(files);
+      setPackageIndex(0);
+    } catch (err) {
+      if (err instanceof SharePackageError && err.reason === 'passphrase') {
+        toast({
+          title: 'Phrase de passe incorrecte',
+          description: 'Vérifiez la phrase de passe transmise par l\'expéditeur.',
+          variant: 'destructive'
+        });
+      } else {
+        setPackageBytes(null);
+        handleError(err);
+      }
+    } finally {
+      setIsOpeningPackage(false);
+    }
+  };
+
+  const nextPackageFile = () => {
+    if (packageIndex + 1 < packageFiles.length) {
+      setPackageIndex(packageIndex + 1);
+    } else {
+      navigate('/home');
+    }
+  };
+
+  const retry = () => {
+    setError(null);
+    setPeerOffer(null);
+    setSender(null);
+    setAttempt(n => n + 1);
+  };
+
+  return (
+    <Layout>
+      <Header title="Recevoir" showBack />
+
+      <div className="px-4 py-6 space-y-6">
+        {packageFiles.length > 0 ? (
+          <motion.div key={packageIndex} initial={{ opacity: 0, x: 20 }} animate={{ opacity: 1, x: 0 }} className="space-y-4">
+            <div className="flex items-center justify-between">
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Package className="w-4 h-4 shrink-0" />
+                Document {packageIndex + 1} sur {packageFiles.length}
+              </p>
+              <button onClick={nextPackageFile} className="text-sm text-primary font-medium">
+                Ignorer
+              </button>
+            </div>
+            <ReceivedDocumentForm shared={packageFiles[packageIndex]} onSaved={nextPackageFile} />
+          </motion.div>
+        ) : packageBytes ? (
+          <motion.div initial={{ opacity: 0, x: 20 }} animate={{ opacity: 1, x: 0 }} className="space-y-4">
+            <div className="flex items-start gap-3 p-4 bg-primary/10 rounded-xl">
+              <Package className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+              <div>
+                <p className="text-sm font-medium text-foreground">Paquet chiffré</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Saisissez la phrase de passe que l'expéditeur vous a communiquée.
+                </p>
+              </div>
+            </div>
+            <Input
+              type="password"
+              placeholder="Phrase de passe du paquet"
+              value={packagePassphrase}
+              onChange={(e) => setPackagePassphrase(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleOpenPackage()}
+              className="h-12"
+            />
+            <div className="flex gap-3">
+              <Button variant="outline" onClick={() => setPackageBytes(null)} className="flex-1">
+                Annuler
+              </Button>
+              <Button onClick={handleOpenPackage} disabled={!packagePassphrase || isOpeningPackage} className="flex-1">
+                {isOpeningPackage ? (
+                  <div className="w-5 h-5 border-2 border-primary-foreground border-t-transparent rounded-full animate-spin" />
+                ) : (
+                  'Ouvrir'
+                )}
+              </Button>
+            </div>
+          </motion.div>
+        ) : shared ? (
+          <motion.div initial={{ opacity: 0, x: 20 }} animate={{ opacity: 1, x: 0 }} className="space-y-4">
+            {sender && (
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                <UserCheck className="w-4 h-4 shrink-0" />
+                {sender}
+              </p>
+            )}
+            <ReceivedDocumentForm shared={shared} onSaved={(doc) => navigate(`/document/${doc.id}`)} />
+          </motion.div>
+        ) : error ? (
+          <div className="flex flex-col items-center justify-center py-12">
+            <div className="w-20 h-20 rounded-full bg-destructive/20 flex items-center justify-center mb-6">
+              <AlertCircle className="w-10 h-10 text-destructive" />
+            </div>
+            <p className="text-muted-foreground text-center mb-6">{error}</p>
+            <Button onClick={retry}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Scanner à nouveau
+            </Button>
+          </div>
+        ) : peerOffer ? (
+          <NearbyReceiver offer={peerOffer} onError={handleError} />
+        ) : (
+          <>
+            <QRReceiver key={attempt} onReceived={setShared} onError={handleError} onPeerOffer={setPeerOffer} />
+
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={`${SEALED_EXTENSION},${PACKAGE_EXTENSION}`}
+              onChange={handleEncryptedFile}
+              className="hidden"
+            />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} className="w-full">
+              <Lock className="w-4 h-4 mr-2" />
+              Ouvrir un fichier chiffré
+            </Button>
+
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.1 }}
+              className="flex items-start gap-3 p-4 bg-primary/10 rounded-xl"
+            >
+              <Shield className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+              <div>
+                <p className="text-sm font-medium text-foreground">Réception sécurisée</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Scannez le QR code affiché par l'autre appareil : simple, animé ou transfert à proximité, ou ouvrez un
+                  fichier chiffré pour vous ou un paquet reçu avec sa phrase de passe. Les documents
+                  sont déchiffrés en mémoire puis chiffrés dans votre coffre : aucun fichier en clair n'est écrit.
+                </p>
+              </div>
+            </motion.div>
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+}
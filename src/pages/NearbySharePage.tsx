@@ -0,0 +1,353 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { QRCodeSVG } from 'qrcode.react';
+import { CheckCircle, FileText, Folder, ScanLine, Shield, Wifi, WifiOff, RotateCcw } from 'lucide-react';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
+import { Layout } from '@/components/Layout';
+import { Header } from '@/components/Header';
+import { Button } from '@/components/ui/button';
+import { EmptyState } from '@/components/EmptyState';
+import { QRScanner } from '@/components/QRScanner';
+import { PeerTransferList } from '@/components/PeerTransferList';
+import { getDocument, getDocumentsByFolder, getAllFolders, Document, Folder as FolderType } from '@/lib/storage';
+import { decryptDocumentData } from '@/lib/documentCrypto';
+import { createPeerSender, isPeerSignal, PeerSender, PeerStatus, PeerTransferError } from '@/lib/peerTransfer';
+import { recordShare } from '@/lib/shareLog';
+import { useAuth } from '@/contexts/AuthContext';
+import { cn } from '@/lib/utils';
+import { toast } from '@/hooks/use-toast';
+
+type Scope = 'document' | 'folder';
+
+// Send a document, or its whole folder, to a DocSafe in the same room
+export function NearbySharePage() {
+  const { documentId } = useParams<{ documentId: string }>();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { getDocumentKey } = useAuth();
+  // Set by SharePage, for the share log
+  const recipient: string | undefined = location.state?.recipient;
+
+  const [document, setDocument] = useState<Document | null>(null);
+  const [folder, setFolder] = useState<FolderType | null>(null);
+  const [folderDocuments, setFolderDocuments] = useState<Document[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [scope, setScope] = useState<Scope>('document');
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [sender, setSender] = useState<PeerSender | null>(null);
+  const [offer, setOffer] = useState('');
+  const [isScanning, setIsScanning] = useState(false);
+  const [isAccepted, setIsAccepted] = useState(false);
+  const [status, setStatus] = useState<PeerStatus>('connecting');
+  const [progress, setProgress] = useState<number[]>([]);
+  const [results, setResults] = useState<(boolean | undefined)[]>([]);
+  const senderRef = useRef<PeerSender | null>(null);
+  const isAccepting = useRef(false);
+
+  useEffect(() => {
+    if (documentId) {
+      loadDocument();
+    }
+  }, [documentId]);
+
+  useEffect(() => {
+    return () => senderRef.current?.close();
+  }, []);
+
+  const loadDocument = async () => {
+    if (!documentId) return;
+
+    try {
+      const doc = await getDocument(documentId);
+      setDocument(doc || null);
+      if (doc?.folderId) {
+        const folders = await getAllFolders();
+        setFolder(folders.find(f => f.id === doc.folderId) || null);
+        setFolderDocuments(await getDocumentsByFolder(doc.folderId));
+      }
+    } catch (error) {
+      console.error('Error loading document:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const setAt = <T,>(setter: React.Dispatch<React.SetStateAction<T[]>>, index: number, value: T) => {
+    setter(values => {
+      const next = [...values];
+      next[index] = value;
+      return next;
+    });
+  };
+
+  const showOffer = async (peer: PeerSender) => {
+    setOffer('');
+    setIsScanning(false);
+    setIsAccepted(false);
+    setOffer(await peer.offer());
+  };
+
+  const handleStart = async () => {
+    if (!document) return;
+
+    setIsPreparing(true);
+    try {
+      const documents = scope === 'folder' && folder ? folderDocuments : [document];
+      const files = documents.map(doc => ({
+        name: doc.name,
+        type: doc.type,
+        mimeType: doc.mimeType,
+        category: doc.category,
+        load: () => decryptDocumentData(doc, getDocumentKey(doc))
+      }));
+
+      const peer = await createPeerSender(files, scope === 'folder' ? folder?.name : undefined, {
+        onStatus: setStatus,
+        onProgress: (index, sent) => setAt(setProgress, index, sent),
+        onVerified: (index, ok) => {
+          setAt(setResults, index, ok);
+          if (ok) {
+            recordShare([documents[index]], { method: 'nearby', recipient });
+          }
+        }
+      });
+      senderRef.current = peer;
+      setSender(peer);
+      await showOffer(peer);
+    } catch (error) {
+      console.error('Error preparing nearby transfer:', error);
+      toast({
+        title: 'Erreur',
+        description: 'Impossible de préparer le transfert.',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  const handleAnswer = async (text: string) => {
+    if (!sender || !isPeerSignal(text) || isAccepting.current) return;
+
+    isAccepting.current = true;
+    try {
+      await sender.accept(text);
+      setIsScanning(false);
+      setIsAccepted(true);
+    } catch (error) {
+      console.error('Error accepting answer:', error);
+      toast({
+        title: 'Code refusé',
+        description: error instanceof PeerTransferError && error.reason === 'session'
+          ? 'Ce code répond à un autre transfert.'
+          : 'Ce code de réponse est illisible. Réessayez.',
+        variant: 'destructive'
+      });
+    } finally {
+      isAccepting.current = false;
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <Header title="À proximité" showBack />
+        <div className="flex items-center justify-center h-64">
+          <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!document) {
+    return (
+      <Layout>
+        <Header title="À proximité" showBack />
+        <EmptyState
+          title="Document introuvable"
+          description="Ce document n'existe pas ou a été supprimé."
+        />
+      </Layout>
+    );
+  }
+
+  const renderTransfer = () => {
+    if (!sender) return null;
+    const files = sender.manifest.files;
+
+    if (status === 'complete') {
+      const sentCount = results.filter(Boolean).length;
+      return (
+        <div className="flex flex-col items-center space-y-6">
+          <div className="w-20 h-20 rounded-full bg-green-500/20 flex items-center justify-center">
+            <CheckCircle className="w-10 h-10 text-green-500" />
+          </div>
+          <div className="text-center">
+            <h2 className="text-xl font-bold text-foreground mb-2">Transfert terminé</h2>
+            <p className="text-muted-foreground">
+              {sentCount} document{sentCount > 1 ? 's' : ''} sur {files.length} reçu{sentCount > 1 ? 's' : ''} et vérifié{sentCount > 1 ? 's' : ''}
+            </p>
+          </div>
+          <PeerTransferList files={files} progress={progress} results={results} />
+          <Button onClick={() => navigate(-1)} className="w-full">
+            Terminé
+          </Button>
+        </div>
+      );
+    }
+
+    if (status === 'connected') {
+      return (
+        <div className="space-y-4">
+          <p className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+            <Wifi className="w-4 h-4" />
+            Connecté : envoi en cours
+          </p>
+          <PeerTransferList files={files} progress={progress} results={results} />
+        </div>
+      );
+    }
+
+    if (status === 'interrupted') {
+      return (
+        <div className="space-y-4">
+          <div className="flex items-start gap-3 p-4 bg-warning/10 rounded-xl">
+            <WifiOff className="w-5 h-5 text-warning shrink-0 mt-0.5" />
+            <div>
+              <p className="text-sm font-medium text-foreground">Connexion interrompue</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                Les documents déjà vérifiés sont conservés sur l'autre appareil. Reprenez pour envoyer le reste.
+              </p>
+            </div>
+          </div>
+          <Button onClick={() => showOffer(sender)} className="w-full">
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Reprendre
+          </Button>
+          <PeerTransferList files={files} progress={progress} results={results} />
+        </div>
+      );
+    }
+
+    if (isAccepted) {
+      return (
+        <div className="flex flex-col items-center justify-center h-64 space-y-4">
+          <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+          <p className="text-sm text-muted-foreground">Connexion à l'autre appareil…</p>
+        </div>
+      );
+    }
+
+    if (isScanning) {
+      return (
+        <div className="space-y-4">
+          <QRScanner onScan={handleAnswer} />
+          <p className="text-sm text-muted-foreground text-center">
+            Scannez le code de réponse affiché par l'autre appareil
+          </p>
+          <Button variant="outline" onClick={() => setIsScanning(false)} className="w-full">
+            Revoir mon code
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex flex-col items-center space-y-4">
+        <div className="p-4 bg-card rounded-2xl border border-border">
+          {offer ? (
+            <QRCodeSVG value={offer} size={260} level="L" includeMargin className="rounded-lg" />
+          ) : (
+            <div className="w-[260px] h-[260px] flex items-center justify-center">
+              <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+            </div>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground text-center">
+          Sur l'autre appareil, ouvrez Ajouter › Recevoir et scannez ce code.
+        </p>
+        <Button onClick={() => setIsScanning(true)} disabled={!offer} className="w-full">
+          <ScanLine className="w-4 h-4 mr-2" />
+          Scanner la réponse
+        </Button>
+      </div>
+    );
+  };
+
+  const scopes = [
+    { id: 'document' as const, icon: FileText, name: document.name, description: 'Ce document' },
+    ...(folder && folderDocuments.length > 1
+      ? [{
+          id: 'folder' as const,
+          icon: Folder,
+          name: folder.name,
+          description: `Tout le dossier (${folderDocuments.length} documents)`
+        }]
+      : [])
+  ];
+
+  return (
+    <Layout>
+      <Header title="À proximité" showBack />
+
+      <div className="px-4 py-6 space-y-6">
+        {sender ? (
+          renderTransfer()
+        ) : (
+          <>
+            <div className="space-y-3">
+              <h2 className="text-lg font-semibold text-foreground">Que voulez-vous envoyer ?</h2>
+              {scopes.map(option => {
+                const Icon = option.icon;
+                return (
+                  <button
+                    key={option.id}
+                    onClick={() => setScope(option.id)}
+                    className={cn(
+                      "w-full flex items-center gap-4 p-4 rounded-xl border transition-all text-left",
+                      scope === option.id
+                        ? "border-primary bg-primary/10"
+                        : "border-border bg-card hover:border-primary/30"
+                    )}
+                  >
+                    <div className="w-12 h-12 rounded-xl bg-primary/10 flex items-center justify-center shrink-0">
+                      <Icon className="w-6 h-6 text-primary" />
+                    </div>
+                    <div className="min-w-0">
+                      <p className="font-medium text-foreground truncate">{option.name}</p>
+                      <p className="text-sm text-muted-foreground">{option.description}</p>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+
+            <Button onClick={handleStart} disabled={isPreparing} className="w-full gradient-primary h-12 text-base">
+              {isPreparing ? (
+                <div className="w-5 h-5 border-2 border-primary-foreground border-t-transparent rounded-full animate-spin" />
+              ) : (
+                'Préparer le transfert'
+              )}
+            </Button>
+
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.1 }}
+              className="flex items-start gap-3 p-4 bg-primary/10 rounded-xl"
+            >
+              <Shield className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+              <div>
+                <p className="text-sm font-medium text-foreground">Transfert direct</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Les deux appareils échangent des QR codes puis se connectent sur le même réseau Wi-Fi, sans passer par
+                  un serveur. Chaque document est chiffré pendant l'envoi et vérifié à l'arrivée.
+                </p>
+              </div>
+            </motion.div>
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -1,24 +1,35 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { QRCodeSVG } from 'qrcode.react';
-import { Clock, RefreshCw, Shield, AlertTriangle } from 'lucide-react';
+import { Clock, RefreshCw, Shield, AlertTriangle, Film, Stamp } from 'lucide-react';
 import { useParams } from 'react-router-dom';
 import { Layout } from '@/components/Layout';
 import { Header } from '@/components/Header';
 import { Button } from '@/components/ui/button';
 import { EmptyState } from '@/components/EmptyState';
+import { RecipientPanel } from '@/components/RecipientPanel';
 import { getDocument, Document, getSetting } from '@/lib/storage';
 import { getCategoryById } from '@/lib/categories';
 import { useAuth } from '@/contexts/AuthContext';
-import { decryptData } from '@/lib/crypto';
-import { base64ToArrayBuffer, base64ToUint8Array, arrayBufferToBase64 } from '@/lib/base64';
+import { decryptDocumentData } from '@/lib/documentCrypto';
+import { encryptSharePayload, shareLinkUrl } from '@/lib/shareLink';
+import { watermarkCopy, watermarkText, rememberWatermark, WatermarkChoice } from '@/lib/watermark';
+import { recordShare } from '@/lib/shareLog';
+import { toast } from '@/hooks/use-toast';
+import {
+  createQrTransfer,
+  estimateTransferSeconds,
+  QrTransferSender,
+  FRAME_INTERVAL_MS,
+  MAX_TRANSFER_SIZE
+} from '@/lib/qrTransfer';
 
 const MAX_QR_SIZE = 2000; // Maximum characters for QR code
 const DEFAULT_DURATION = 60; // Default 60 seconds
 
 export function QRCodePage() {
   const { documentId } = useParams<{ documentId: string }>();
-  const { encryptionKey } = useAuth();
+  const { encryptionKey, getDocumentKey } = useAuth();
   
   const [document, setDocument] = useState<Document | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -27,7 +38,14 @@ export function QRCodePage() {
   const [timeLeft, setTimeLeft] = useState(DEFAULT_DURATION);
   const [isExpired, setIsExpired] = useState(false);
   const [isTooLarge, setIsTooLarge] = useState(false);
-  const [token, setToken] = useState<string>('');
+  const [transfer, setTransfer] = useState<QrTransferSender | null>(null);
+  const [watermark, setWatermark] = useState<WatermarkChoice>({ enabled: false, recipient: '', purpose: '' });
+  // Text stamped on the document in the current code
+  const [appliedWatermark, setAppliedWatermark] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  // Share to log once the new code is on screen
+  const [pendingShare, setPendingShare] = useState<{ doc: Document; recipient?: string; watermark: string | null } | null>(null);
+  const frameSeq = useRef(0);
 
   useEffect(() => {
     if (documentId && encryptionKey) {
@@ -49,6 +67,29 @@ export function QRCodePage() {
     return () => clearInterval(timer);
   }, [timeLeft]);
 
+  // Log each generated code once, when it is displayed
+  useEffect(() => {
+    if (!pendingShare || !qrValue) return;
+
+    setPendingShare(null);
+    recordShare([pendingShare.doc], {
+      method: 'qr',
+      recipient: pendingShare.recipient,
+      watermark: pendingShare.watermark
+    }).catch(error => console.error('Error recording share:', error));
+  }, [pendingShare, qrValue]);
+
+  // Cycle the frames of an animated transfer until it expires
+  useEffect(() => {
+    if (!transfer || isExpired) return;
+
+    const timer = setInterval(() => {
+      setQrValue(transfer.frame(frameSeq.current++));
+    }, FRAME_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [transfer, isExpired]);
+
   const loadDocumentAndGenerateQR = async () => {
     if (!documentId || !encryptionKey) return;
 
@@ -72,48 +113,56 @@ export function QRCodePage() {
     }
   };
 
-  const generateQRCode = async (doc: Document, qrDuration: number = duration) => {
+  const generateQRCode = async (doc: Document, qrDuration: number = duration, choice: WatermarkChoice | null = null) => {
+    if (!encryptionKey) return;
+
+    setIsGenerating(true);
     try {
       // Decrypt the document data
-      const encryptedBuffer = base64ToArrayBuffer(doc.encryptedData);
-      const iv = base64ToUint8Array(doc.iv);
-      const decryptedData = await decryptData(encryptedBuffer, encryptionKey!, iv);
-      
-      // Convert to base64 for sharing
-      const fileBase64 = arrayBufferToBase64(decryptedData);
-      
-      // Create share data
-      const shareData = {
-        name: doc.name,
-        type: doc.type,
-        mimeType: doc.mimeType,
-        data: fileBase64,
-        size: doc.size
-      };
-      
-      const encodedData = btoa(JSON.stringify(shareData));
-      const expiryTime = Date.now() + (qrDuration * 1000);
+      const decryptedData = await decryptDocumentData(doc, getDocumentKey(doc));
+      let copy = { type: doc.type, mimeType: doc.mimeType, data: decryptedData };
+      const stamp = choice?.enabled && choice.recipient.trim() ? choice : null;
+      const text = stamp ? watermarkText(stamp.recipient, stamp.purpose) : null;
+      if (stamp && text) {
+        copy = await watermarkCopy(copy, text);
+        await rememberWatermark(encryptionKey, stamp.recipient, stamp.purpose);
+      }
       
-      // Build the URL
-      const baseUrl = window.location.origin;
-      const shareUrl = `${baseUrl}/receive?d=${encodeURIComponent(encodedData)}&e=${expiryTime}`;
+      // Re-encrypt it under a one-time key carried in the link fragment
+      const file = { name: doc.name, ...copy };
+      let expiresIn = qrDuration;
+      let share = await encryptSharePayload(file, Date.now() + expiresIn * 1000);
+      const shareUrl = shareLinkUrl(share);
       
-      // Check if the URL is too large for QR code
-      if (shareUrl.length > MAX_QR_SIZE) {
+      setTransfer(null);
+      setIsTooLarge(false);
+      // Nothing is shown when the file is too large for a transfer
+      let isShown = true;
+      if (shareUrl.length <= MAX_QR_SIZE) {
+        setQrValue(shareUrl);
+      } else if (share.payload.length > MAX_TRANSFER_SIZE) {
         setIsTooLarge(true);
-        // Generate a simple token-based QR for large files
-        const tempToken = crypto.randomUUID().slice(0, 8).toUpperCase();
-        setToken(tempToken);
-        setQrValue(`${baseUrl}/receive?token=${tempToken}&size=large`);
+        setQrValue('');
+        isShown = false;
       } else {
-        setIsTooLarge(false);
-        setQrValue(shareUrl);
+        // Too large for one code: cycle fountain-coded frames, with enough
+        // time left for the receiver to catch them
+        expiresIn = Math.max(qrDuration, 2 * estimateTransferSeconds(share.payload.length));
+        share = await encryptSharePayload(file, Date.now() + expiresIn * 1000);
+        const sender = createQrTransfer(share);
+        frameSeq.current = 1;
+        setQrValue(sender.frame(0));
+        setTransfer(sender);
       }
       
-      setTimeLeft(qrDuration);
+      setTimeLeft(expiresIn);
       setIsExpired(false);
+      setAppliedWatermark(text);
+      setPendingShare(isShown ? { doc, recipient: choice?.recipient, watermark: text } : null);
     } catch (error) {
       console.error('Error generating QR code:', error);
+    } finally {
+      setIsGenerating(false);
     }
   };
 
@@ -122,8 +171,20 @@ export function QRCodePage() {
       const savedDuration = await getSetting('qrDuration');
       const qrDuration = savedDuration ? parseInt(savedDuration) : DEFAULT_DURATION;
       setDuration(qrDuration);
-      generateQRCode(document, qrDuration);
+      generateQRCode(document, qrDuration, watermark);
+    }
+  };
+
+  const applyWatermark = () => {
+    if (!watermark.recipient.trim()) {
+      toast({
+        title: 'Filigrane incomplet',
+        description: 'Indiquez à qui la copie est destinée.',
+        variant: 'destructive'
+      });
+      return;
     }
+    regenerateQR();
   };
 
   if (isLoading) {
@@ -199,7 +260,7 @@ export function QRCodePage() {
             {qrValue && (
               <QRCodeSVG
                 value={qrValue}
-                size={200}
+                size={transfer ? 280 : 200}
                 level="L"
                 includeMargin
                 className="rounded-lg"
@@ -221,13 +282,53 @@ export function QRCodePage() {
             </span>
           </motion.div>
 
-          {isTooLarge && (
-            <p className="text-xs text-muted-foreground mt-2">
-              Token: <span className="font-mono font-bold">{token}</span>
+          {transfer && (
+            <p className="text-xs text-muted-foreground text-center mt-2">
+              QR animé • {transfer.frameCount} images environ
+            </p>
+          )}
+
+          {appliedWatermark && (
+            <p className="flex items-center gap-1.5 text-xs text-muted-foreground text-center mt-2">
+              <Stamp className="w-3.5 h-3.5 shrink-0" />
+              {appliedWatermark}
             </p>
           )}
         </motion.div>
 
+        {/* Recipient and watermark */}
+        <div className="space-y-3">
+          <RecipientPanel value={watermark} onChange={setWatermark} disabled={isGenerating} />
+          <Button
+            variant="outline"
+            onClick={watermark.enabled ? applyWatermark : regenerateQR}
+            disabled={isGenerating}
+            className="w-full"
+          >
+            <RefreshCw className="w-4 h-4 mr-2" />
+            {watermark.enabled ? 'Générer avec le filigrane' : 'Générer un nouveau code'}
+          </Button>
+        </div>
+
+        {/* Animated transfer instructions */}
+        {transfer && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.2 }}
+            className="flex items-start gap-3 p-4 bg-secondary rounded-xl"
+          >
+            <Film className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+            <div>
+              <p className="text-sm font-medium text-foreground">Document volumineux</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                Le document est découpé en plusieurs QR codes qui défilent. Scannez-en un pour ouvrir la réception,
+                puis gardez l'appareil pointé sur l'écran jusqu'à la fin : les images manquées ne posent pas de problème.
+              </p>
+            </div>
+          </motion.div>
+        )}
+
         {/* Warning for large files */}
         {isTooLarge && (
           <motion.div
@@ -240,7 +341,7 @@ export function QRCodePage() {
             <div>
               <p className="text-sm font-medium text-foreground">Fichier volumineux</p>
               <p className="text-xs text-muted-foreground mt-1">
-                Ce fichier est trop volumineux pour être intégré au QR code. Utilisez le partage classique pour les gros fichiers.
+                Ce fichier est trop volumineux pour être transféré par QR code. Utilisez le partage classique pour les gros fichiers.
               </p>
             </div>
           </motion.div>
@@ -255,9 +356,9 @@ export function QRCodePage() {
         >
           <Shield className="w-5 h-5 text-primary shrink-0 mt-0.5" />
           <div>
-            <p className="text-sm font-medium text-foreground">Transfert direct</p>
+            <p className="text-sm font-medium text-foreground">Transfert direct et chiffré</p>
             <p className="text-xs text-muted-foreground mt-1">
-              Scannez ce QR code avec n'importe quelle app de scan. Le document sera téléchargé directement sans passer par un serveur.
+              Scannez ce QR code avec n'importe quelle app de scan. Le document est chiffré avec une clé à usage unique contenue dans le QR code : il ne passe par aucun serveur, et DocSafe refuse d'ouvrir le lien une fois le délai écoulé.
             </p>
           </div>
         </motion.div>
@@ -1,66 +1,85 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Download, FileText, Image, CheckCircle, AlertCircle, Shield } from 'lucide-react';
-import { useSearchParams } from 'react-router-dom';
+import { Download, FileText, Image, CheckCircle, AlertCircle, Shield, Lock } from 'lucide-react';
+import { useSearchParams, useLocation, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
-import { base64ToArrayBuffer } from '@/lib/base64';
-
-interface SharedDocument {
-  name: string;
-  type: 'pdf' | 'image';
-  mimeType: string;
-  data: string;
-  size: number;
-}
+import { QRReceiver } from '@/components/QRReceiver';
+import { LockScreen } from '@/components/LockScreen';
+import { ReceivedDocumentForm } from '@/components/ReceivedDocumentForm';
+import { useAuth } from '@/contexts/AuthContext';
+import { openShareLink, ShareLinkError, SharedFile } from '@/lib/shareLink';
 
 export function ReceivePage() {
   const [searchParams] = useSearchParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { isSetup, isAuthenticated } = useAuth();
   
-  const [document, setDocument] = useState<SharedDocument | null>(null);
+  const [document, setDocument] = useState<SharedFile | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [downloaded, setDownloaded] = useState(false);
   const [isExpired, setIsExpired] = useState(false);
+  // Adding to the vault goes through the lock screen, the file stays in memory
+  const [isImporting, setIsImporting] = useState(false);
+  const [lockKey, setLockKey] = useState(0);
+
+  // Animated transfers (and a bare /receive) are read with the camera
+  const isScanning = !document && !error && (location.hash.startsWith('#f=') || (!searchParams.has('d') && !location.hash));
 
   useEffect(() => {
-    parseShareData();
-  }, [searchParams]);
+    if (location.hash.startsWith('#f=')) {
+      // The frame that opened the page is handed to the scanner
+      window.history.replaceState(null, '', location.pathname);
+      return;
+    }
+    if (searchParams.has('d')) {
+      parseShareData();
+    } else if (searchParams.has('e')) {
+      // Links from before encrypted sharing carried the file in clear
+      setError('Ce lien provient d\'une ancienne version de DocSafe et n\'est plus accepté');
+    }
+  }, [searchParams, location.hash]);
 
-  const parseShareData = () => {
+  const parseShareData = async () => {
     try {
-      const data = searchParams.get('d');
-      const expires = searchParams.get('e');
-      
-      if (!data) {
-        setError('Aucune donnée de document trouvée');
-        return;
-      }
-
-      // Check expiration
-      if (expires) {
-        const expiryTime = parseInt(expires, 10);
-        if (Date.now() > expiryTime) {
-          setIsExpired(true);
-          setError('Ce lien de partage a expiré');
-          return;
-        }
-      }
-
-      // Decode the document data
-      const decoded = JSON.parse(atob(decodeURIComponent(data)));
-      setDocument(decoded);
+      const shared = await openShareLink(searchParams.get('d'), location.hash);
+      // Keep the payload and its key out of the browser history
+      window.history.replaceState(null, '', location.pathname);
+      setDocument(shared);
     } catch (err) {
-      console.error('Error parsing share data:', err);
+      handleShareError(err);
+    }
+  };
+
+  const handleShareError = (err: unknown) => {
+    console.error('Error opening share:', err);
+    if (err instanceof ShareLinkError && err.reason === 'expired') {
+      setIsExpired(true);
+      setError('Ce lien de partage a expiré');
+    } else if (err instanceof ShareLinkError && err.reason === 'integrity') {
+      setError('Ce lien a été modifié ou est incomplet : le document ne peut pas être ouvert');
+    } else {
       setError('Données de partage invalides');
     }
   };
 
+  const checkExpiry = () => {
+    if (!document) return false;
+    if (Date.now() > document.expiresAt) {
+      setDocument(null);
+      setIsImporting(false);
+      setIsExpired(true);
+      setError('Ce lien de partage a expiré');
+      return false;
+    }
+    return true;
+  };
+
   const handleDownload = () => {
-    if (!document) return;
+    if (!document || !checkExpiry()) return;
 
     try {
-      // Convert base64 to blob
-      const binaryData = base64ToArrayBuffer(document.data);
-      const blob = new Blob([binaryData], { type: document.mimeType });
+      const blob = new Blob([document.data], { type: document.mimeType });
       
       // Create download link
       const url = URL.createObjectURL(blob);
@@ -85,6 +104,16 @@ export function ReceivePage() {
     return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
   };
 
+  const handleImport = () => {
+    if (checkExpiry()) {
+      setIsImporting(true);
+    }
+  };
+
+  if (document && isImporting && !isAuthenticated) {
+    return <LockScreen key={lockKey} onReset={() => setLockKey(k => k + 1)} />;
+  }
+
   // Standalone page without Layout (accessible without auth)
   return (
     <div className="min-h-screen bg-background">
@@ -110,10 +139,20 @@ export function ReceivePage() {
             </h2>
             <p className="text-muted-foreground text-center">{error}</p>
           </div>
+        ) : isScanning ? (
+          <QRReceiver
+            initialFrame={location.hash.startsWith('#f=') ? location.hash : undefined}
+            onReceived={setDocument}
+            onError={handleShareError}
+          />
         ) : !document ? (
           <div className="flex items-center justify-center h-64">
             <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
           </div>
+        ) : isImporting ? (
+          <motion.div initial={{ opacity: 0, x: 20 }} animate={{ opacity: 1, x: 0 }}>
+            <ReceivedDocumentForm shared={document} onSaved={(doc) => navigate(`/document/${doc.id}`)} />
+          </motion.div>
         ) : downloaded ? (
           <motion.div
             initial={{ opacity: 0, scale: 0.9 }}
@@ -155,6 +194,9 @@ export function ReceivePage() {
               <p className="text-sm text-muted-foreground">
                 {document.type === 'pdf' ? 'Document PDF' : 'Image'} • {formatSize(document.size)}
               </p>
+              <p className="text-xs text-muted-foreground mt-1">
+                Disponible jusqu'à {new Date(document.expiresAt).toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })}
+              </p>
             </motion.div>
 
             {/* Security info */}
@@ -168,7 +210,7 @@ export function ReceivePage() {
               <div>
                 <p className="text-sm font-medium text-foreground">Transfert sécurisé</p>
                 <p className="text-xs text-muted-foreground mt-1">
-                  Ce document a été partagé via DocSafe. Aucun serveur n'a été utilisé pour ce transfert.
+                  Ce document a été partagé via DocSafe, chiffré avec une clé qui n'a jamais quitté ce lien. Aucun serveur n'a été utilisé pour ce transfert.
                 </p>
               </div>
             </motion.div>
@@ -183,6 +225,12 @@ export function ReceivePage() {
                 <Download className="w-5 h-5 mr-2" />
                 Télécharger le document
               </Button>
+              {isSetup && (
+                <Button onClick={handleImport} variant="outline" className="w-full mt-3" size="lg">
+                  <Lock className="w-5 h-5 mr-2" />
+                  Ajouter à mon coffre
+                </Button>
+              )}
             </motion.div>
           </>
         )}
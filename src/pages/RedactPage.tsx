@@ -0,0 +1,326 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { EyeOff, Save, Share2, Undo2, Trash2, Shield } from 'lucide-react';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
+import { Layout } from '@/components/Layout';
+import { Header } from '@/components/Header';
+import { Button } from '@/components/ui/button';
+import { EmptyState } from '@/components/EmptyState';
+import { getDocument, saveDocument, Document } from '@/lib/storage';
+import { decryptDocumentData, encryptDocumentFile } from '@/lib/documentCrypto';
+import { renderPages, MergeSource, PageImage } from '@/lib/pdfMerge';
+import { redactCopy, RedactionBox } from '@/lib/redaction';
+import { shareFile } from '@/lib/share';
+import { recordShare } from '@/lib/shareLog';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+
+// Boxes smaller than this fraction of the page are taken for stray taps
+const MIN_BOX_SIZE = 0.01;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+function readAsDataURL(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Draw opaque boxes over parts of a document, then share or keep the redacted copy
+export function RedactPage() {
+  const { documentId } = useParams<{ documentId: string }>();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { getDocumentKey, getCurrentKey } = useAuth();
+  // Set by SharePage, for the share log
+  const recipient: string | undefined = location.state?.recipient;
+
+  const [document, setDocument] = useState<Document | null>(null);
+  const [pages, setPages] = useState<PageImage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [boxes, setBoxes] = useState<RedactionBox[]>([]);
+  const [draft, setDraft] = useState<RedactionBox | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const source = useRef<MergeSource | null>(null);
+  const dragStart = useRef<{ page: number; x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    if (documentId) {
+      loadDocument();
+    }
+  }, [documentId]);
+
+  const loadDocument = async () => {
+    if (!documentId) return;
+
+    try {
+      const doc = await getDocument(documentId);
+      setDocument(doc || null);
+      if (doc) {
+        source.current = {
+          type: doc.type,
+          mimeType: doc.mimeType,
+          data: await decryptDocumentData(doc, getDocumentKey(doc))
+        };
+        setPages(await renderPages(source.current));
+      }
+    } catch (error) {
+      console.error('Error loading document:', error);
+      toast({
+        title: 'Erreur',
+        description: 'Impossible d\'afficher ce document.',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const pointAt = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - rect.left) / rect.width),
+      y: clamp((e.clientY - rect.top) / rect.height)
+    };
+  };
+
+  const handlePointerDown = (page: number, e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = { page, ...pointAt(e) };
+    setDraft(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStart.current;
+    if (!start) return;
+
+    const point = pointAt(e);
+    setDraft({
+      page: start.page,
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y)
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (draft && draft.width >= MIN_BOX_SIZE && draft.height >= MIN_BOX_SIZE) {
+      setBoxes(current => [...current, draft]);
+    }
+    dragStart.current = null;
+    setDraft(null);
+  };
+
+  const handleShare = async () => {
+    if (!document || !source.current) return;
+
+    setIsWorking(true);
+    try {
+      const copy = await redactCopy(source.current, boxes);
+      const file = new File([copy.data], document.name + (copy.type === 'pdf' ? '.pdf' : '.jpg'), {
+        type: copy.mimeType
+      });
+
+      const result = await shareFile(file, {
+        title: document.name,
+        text: `Document partagé depuis DocWallet: ${document.name}`
+      });
+      await recordShare([document], { method: 'native', recipient, note: 'Copie masquée' });
+
+      toast({
+        title: result === 'shared' ? 'Partage réussi' : 'Document prêt',
+        description: result === 'shared'
+          ? 'La copie masquée a été partagée.'
+          : 'La copie masquée a été téléchargée. Vous pouvez maintenant la partager manuellement.'
+      });
+    } catch (error) {
+      console.error('Error sharing redacted copy:', error);
+
+      if ((error as Error).name !== 'AbortError') {
+        toast({
+          title: 'Erreur de partage',
+          description: 'Impossible de créer la copie masquée.',
+          variant: 'destructive'
+        });
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Kept next to the original, which stays as it is
+  const handleSave = async () => {
+    const currentKey = getCurrentKey();
+    if (!document || !source.current || !currentKey) return;
+
+    setIsWorking(true);
+    try {
+      const copy = await redactCopy(source.current, boxes);
+      const id = crypto.randomUUID();
+      const blob = new Blob([copy.data], { type: copy.mimeType });
+      const payload = await encryptDocumentFile(id, blob, currentKey.key);
+
+      const doc: Document = {
+        id,
+        name: `${document.name} (masqué)`,
+        category: document.category,
+        type: copy.type,
+        mimeType: copy.mimeType,
+        size: copy.data.byteLength,
+        ...payload,
+        thumbnail: copy.type === 'image' ? await readAsDataURL(blob) : undefined,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        tags: document.tags,
+        folderId: document.folderId,
+        keyGeneration: currentKey.keyGeneration
+      };
+      await saveDocument(doc);
+
+      toast({
+        title: 'Copie enregistrée',
+        description: 'La copie masquée a été ajoutée à votre coffre.'
+      });
+      navigate(`/document/${doc.id}`, { replace: true });
+    } catch (error) {
+      console.error('Error saving redacted copy:', error);
+      toast({
+        title: 'Erreur',
+        description: 'Impossible d\'enregistrer la copie masquée.',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <Header title="Masquer des zones" showBack />
+        <div className="flex items-center justify-center h-64">
+          <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!document || pages.length === 0) {
+    return (
+      <Layout>
+        <Header title="Masquer des zones" showBack />
+        <EmptyState
+          title="Document introuvable"
+          description="Ce document n'existe pas ou a été supprimé."
+        />
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <Header title="Masquer des zones" showBack />
+
+      <div className="px-4 py-6 space-y-6">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-start gap-3 p-4 bg-primary/10 rounded-xl"
+        >
+          <EyeOff className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+          <p className="text-xs text-muted-foreground">
+            Tracez un rectangle au doigt sur chaque numéro, photo ou signature à cacher.
+          </p>
+        </motion.div>
+
+        {/* Pages */}
+        <div className="space-y-4">
+          {pages.map((page, index) => (
+            <div key={index} className="space-y-1">
+              {pages.length > 1 && (
+                <p className="text-xs text-muted-foreground">Page {index + 1} sur {pages.length}</p>
+              )}
+              <div
+                className="relative rounded-lg overflow-hidden border border-border select-none touch-none"
+                style={{ aspectRatio: `${page.width} / ${page.height}` }}
+                onPointerDown={(e) => handlePointerDown(index, e)}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+              >
+                <img src={page.dataUrl} alt={`Page ${index + 1}`} className="w-full h-full pointer-events-none" draggable={false} />
+                {[...boxes, ...(draft ? [draft] : [])]
+                  .filter(box => box.page === index)
+                  .map((box, i) => (
+                    <div
+                      key={i}
+                      className="absolute bg-black"
+                      style={{
+                        left: `${box.x * 100}%`,
+                        top: `${box.y * 100}%`,
+                        width: `${box.width * 100}%`,
+                        height: `${box.height * 100}%`
+                      }}
+                    />
+                  ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-3">
+          <Button
+            variant="outline"
+            onClick={() => setBoxes(current => current.slice(0, -1))}
+            disabled={boxes.length === 0 || isWorking}
+            className="flex-1"
+          >
+            <Undo2 className="w-4 h-4 mr-2" />
+            Annuler
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setBoxes([])}
+            disabled={boxes.length === 0 || isWorking}
+            className="flex-1"
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Tout effacer
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          <Button onClick={handleShare} disabled={boxes.length === 0 || isWorking} className="w-full gradient-primary h-12 text-base">
+            {isWorking ? (
+              <div className="w-5 h-5 border-2 border-primary-foreground border-t-transparent rounded-full animate-spin" />
+            ) : (
+              <>
+                <Share2 className="w-4 h-4 mr-2" />
+                Partager la copie masquée
+              </>
+            )}
+          </Button>
+          <Button variant="outline" onClick={handleSave} disabled={boxes.length === 0 || isWorking} className="w-full">
+            <Save className="w-4 h-4 mr-2" />
+            Enregistrer comme nouveau document
+          </Button>
+        </div>
+
+        <div className="flex items-start gap-3 p-4 bg-primary/10 rounded-xl">
+          <Shield className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+          <div>
+            <p className="text-sm font-medium text-foreground">Masquage définitif</p>
+            <p className="text-xs text-muted-foreground mt-1">
+              La copie est reconstruite à partir d'images des pages : le contenu masqué n'y figure plus, même pour un
+              PDF. Le document d'origine n'est pas modifié.
+            </p>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,377 @@
+import React, { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { Archive, FileUp, GitMerge, Replace, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Layout } from '@/components/Layout';
+import { Header } from '@/components/Header';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { openBackup, BackupError, OpenedBackup, BACKUP_EXTENSION } from '@/lib/backup';
+import {
+  findRestoreConflicts,
+  restoreBackup,
+  ConflictResolution,
+  RestoreConflict,
+  RestoreMode,
+  RestoreProgress,
+  RestoreResult
+} from '@/lib/restore';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+type Step = 'open' | 'mode' | 'conflicts' | 'working' | 'done';
+
+const backupErrorMessages: Record<BackupError['reason'], string> = {
+  format: 'Ce fichier n\'est pas une sauvegarde DocSafe.',
+  version: 'Cette sauvegarde a été créée par une version plus récente de DocSafe.',
+  passphrase: 'Phrase de passe incorrecte.',
+  integrity: 'La sauvegarde est endommagée ou a été modifiée.'
+};
+
+const resolutionLabels: Record<ConflictResolution, string> = {
+  keepBoth: 'Garder les deux',
+  newest: 'Garder le plus récent',
+  skip: 'Ignorer'
+};
+
+export function RestoreBackupPage() {
+  const navigate = useNavigate();
+  const { encryptionKey, getCurrentKey, getDocumentKey } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [step, setStep] = useState<Step>('open');
+  const [file, setFile] = useState<File | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [isOpening, setIsOpening] = useState(false);
+  const [backup, setBackup] = useState<OpenedBackup | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [conflicts, setConflicts] = useState<RestoreConflict[]>([]);
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+  const [progress, setProgress] = useState<RestoreProgress | null>(null);
+  const [progressLabel, setProgressLabel] = useState('');
+  const [result, setResult] = useState<RestoreResult | null>(null);
+
+  const handleOpen = async () => {
+    if (!file || !passphrase) return;
+
+    setIsOpening(true);
+    try {
+      setBackup(await openBackup(file, passphrase));
+      setPassphrase('');
+      setStep('mode');
+    } catch (error) {
+      console.error('Error opening backup:', error);
+      toast({
+        title: 'Restauration impossible',
+        description: error instanceof BackupError
+          ? backupErrorMessages[error.reason]
+          : 'Impossible de lire cette sauvegarde.',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  const runRestore = async (
+    foundConflicts: RestoreConflict[] = [],
+    chosen: Record<string, ConflictResolution> = {}
+  ) => {
+    const currentKey = getCurrentKey();
+    if (!backup || !currentKey || !encryptionKey) return;
+
+    setStep('working');
+    setProgressLabel('Restauration des documents…');
+    setProgress({ done: 0, total: backup.manifest.documents.length });
+    try {
+      setResult(await restoreBackup(backup, mode, currentKey, encryptionKey, foundConflicts, chosen, setProgress));
+      setStep('done');
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      toast({
+        title: 'Erreur',
+        description: 'La restauration a échoué. Votre coffre n\'a pas été vidé.',
+        variant: 'destructive'
+      });
+      setStep('mode');
+    }
+  };
+
+  const handleContinue = async () => {
+    if (!backup) return;
+    if (mode === 'replace') {
+      await runRestore();
+      return;
+    }
+
+    // Look for duplicates before merging
+    setStep('working');
+    setProgressLabel('Recherche des doublons…');
+    setProgress({ done: 0, total: 0 });
+    try {
+      const found = await findRestoreConflicts(backup, getDocumentKey, setProgress);
+      if (found.length === 0) {
+        await runRestore();
+        return;
+      }
+      setConflicts(found);
+      setResolutions(Object.fromEntries(found.map(conflict => [conflict.entry.id, 'skip' as ConflictResolution])));
+      setStep('conflicts');
+    } catch (error) {
+      console.error('Error comparing documents:', error);
+      toast({
+        title: 'Erreur',
+        description: 'Impossible de comparer la sauvegarde avec votre coffre.',
+        variant: 'destructive'
+      });
+      setStep('mode');
+    }
+  };
+
+  const setAllResolutions = (resolution: ConflictResolution) => {
+    setResolutions(Object.fromEntries(conflicts.map(conflict => [conflict.entry.id, resolution])));
+  };
+
+  const formatDate = (date: string | Date) => new Date(date).toLocaleDateString('fr-FR');
+
+  return (
+    <Layout>
+      <Header title="Restaurer une sauvegarde" showBack />
+
+      <div className="px-4 py-6">
+        {step === 'open' && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="space-y-6"
+          >
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="w-full flex flex-col items-center gap-4 p-6 bg-card rounded-2xl border border-border hover:border-primary/50 transition-all"
+            >
+              <div className="w-16 h-16 rounded-2xl bg-primary/10 flex items-center justify-center">
+                <FileUp className="w-8 h-8 text-primary" />
+              </div>
+              <div className="text-center">
+                <p className="font-medium text-foreground">
+                  {file ? file.name : 'Choisir un fichier'}
+                </p>
+                <p className="text-sm text-muted-foreground">Sauvegarde {BACKUP_EXTENSION}</p>
+              </div>
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={BACKUP_EXTENSION}
+              className="hidden"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            />
+
+            <Input
+              type="password"
+              placeholder="Phrase de passe de la sauvegarde"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              className="h-12"
+            />
+
+            <Button
+              onClick={handleOpen}
+              disabled={!file || !passphrase || isOpening}
+              className="w-full gradient-primary h-12 text-base"
+            >
+              {isOpening ? (
+                <div className="w-5 h-5 border-2 border-primary-foreground border-t-transparent rounded-full animate-spin" />
+              ) : (
+                'Ouvrir la sauvegarde'
+              )}
+            </Button>
+          </motion.div>
+        )}
+
+        {step === 'mode' && backup && (
+          <motion.div
+            initial={{ opacity: 0, x: 20 }}
+            animate={{ opacity: 1, x: 0 }}
+            className="space-y-6"
+          >
+            <div className="flex items-center gap-4 p-4 bg-card rounded-xl border border-border">
+              <div className="w-12 h-12 rounded-lg bg-primary/10 flex items-center justify-center shrink-0">
+                <Archive className="w-6 h-6 text-primary" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-foreground">Sauvegarde du {formatDate(backup.manifest.createdAt)}</p>
+                <p className="text-sm text-muted-foreground">
+                  {backup.manifest.documents.length} document{backup.manifest.documents.length !== 1 ? 's' : ''} •{' '}
+                  {backup.manifest.folders.length} dossier{backup.manifest.folders.length !== 1 ? 's' : ''}
+                </p>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              {([
+                { id: 'merge', icon: GitMerge, label: 'Fusionner avec mon coffre', description: 'Ajoute les documents de la sauvegarde. Vous choisirez quoi faire des doublons.' },
+                { id: 'replace', icon: Replace, label: 'Remplacer mon coffre', description: 'Les documents actuels absents de la sauvegarde seront supprimés.' }
+              ] as const).map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => setMode(option.id)}
+                  className={cn(
+                    "w-full flex items-start gap-4 p-4 rounded-xl border transition-all text-left",
+                    mode === option.id
+                      ? "border-primary bg-primary/10"
+                      : "border-border bg-card hover:border-primary/30"
+                  )}
+                >
+                  <option.icon className="w-5 h-5 text-primary mt-0.5 shrink-0" />
+                  <div>
+                    <p className="font-medium text-foreground">{option.label}</p>
+                    <p className="text-sm text-muted-foreground">{option.description}</p>
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            {mode === 'replace' && (
+              <div className="flex items-start gap-3 p-3 rounded-xl bg-destructive/10 text-destructive text-sm">
+                <AlertTriangle className="w-5 h-5 shrink-0" />
+                <p>
+                  Les documents, dossiers et contacts qui ne sont pas dans la sauvegarde seront définitivement supprimés de cet
+                  appareil, l'historique des partages et votre clé de contact remplacés par ceux de la sauvegarde.
+                </p>
+              </div>
+            )}
+
+            <Button onClick={handleContinue} className="w-full gradient-primary h-12 text-base">
+              Continuer
+            </Button>
+          </motion.div>
+        )}
+
+        {step === 'conflicts' && (
+          <motion.div
+            initial={{ opacity: 0, x: 20 }}
+            animate={{ opacity: 1, x: 0 }}
+            className="space-y-6"
+          >
+            <div>
+              <h2 className="text-lg font-semibold text-foreground">
+                {conflicts.length} doublon{conflicts.length !== 1 ? 's' : ''} trouvé{conflicts.length !== 1 ? 's' : ''}
+              </h2>
+              <p className="text-sm text-muted-foreground">
+                Ces documents existent déjà dans votre coffre. Choisissez quoi faire pour chacun.
+              </p>
+            </div>
+
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-sm text-muted-foreground">Pour tous</span>
+              <Select onValueChange={(value) => setAllResolutions(value as ConflictResolution)}>
+                <SelectTrigger className="w-48 h-9 text-sm">
+                  <SelectValue placeholder="Choisir…" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(resolutionLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-3">
+              {conflicts.map(conflict => (
+                <div key={conflict.entry.id} className="p-4 bg-card rounded-xl border border-border space-y-3">
+                  <div>
+                    <p className="font-medium text-foreground truncate">{conflict.entry.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {conflict.reason === 'id' ? 'Même document' : 'Contenu identique à'} « {conflict.existing.name} »
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Sauvegarde : {formatDate(conflict.entry.updatedAt)} • Coffre : {formatDate(conflict.existing.updatedAt)}
+                    </p>
+                  </div>
+                  <Select
+                    value={resolutions[conflict.entry.id]}
+                    onValueChange={(value) => setResolutions(current => ({
+                      ...current,
+                      [conflict.entry.id]: value as ConflictResolution
+                    }))}
+                  >
+                    <SelectTrigger className="h-9 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(resolutionLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <Button
+              onClick={() => runRestore(conflicts, resolutions)}
+              className="w-full gradient-primary h-12 text-base"
+            >
+              Restaurer
+            </Button>
+          </motion.div>
+        )}
+
+        {step === 'working' && progress && (
+          <div className="flex flex-col items-center gap-4 py-12">
+            <div className="w-12 h-12 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+            <p className="text-muted-foreground">{progressLabel}</p>
+            {progress.total > 0 && (
+              <div className="w-full space-y-2">
+                <Progress value={(progress.done / progress.total) * 100} className="h-2" />
+                <p className="text-xs text-muted-foreground text-center">{progress.done}/{progress.total}</p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'done' && result && (
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            className="space-y-6 text-center"
+          >
+            <div className="w-20 h-20 rounded-full bg-success/10 flex items-center justify-center mx-auto">
+              <CheckCircle className="w-10 h-10 text-success" />
+            </div>
+            <div className="space-y-1">
+              <h2 className="text-lg font-semibold text-foreground">Restauration terminée</h2>
+              <p className="text-sm text-muted-foreground">
+                {result.imported} ajouté{result.imported !== 1 ? 's' : ''} • {result.replaced} remplacé{result.replaced !== 1 ? 's' : ''} • {result.skipped} ignoré{result.skipped !== 1 ? 's' : ''}
+              </p>
+            </div>
+            {result.failed.length > 0 && (
+              <div className="p-3 rounded-xl text-xs bg-destructive/10 text-destructive text-left">
+                <p className="font-medium">
+                  {result.failed.length} document{result.failed.length !== 1 ? 's' : ''} illisible{result.failed.length !== 1 ? 's' : ''}
+                  {mode === 'replace' && ' : vos documents actuels ont été conservés'}
+                </p>
+                {result.failed.map(doc => (
+                  <p key={doc.id}>• {doc.name}</p>
+                ))}
+              </div>
+            )}
+            <Button onClick={() => navigate('/home')} className="w-full gradient-primary h-12 text-base">
+              Retour à l'accueil
+            </Button>
+          </motion.div>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -6,14 +6,17 @@ import { Layout } from '@/components/Layout';
 import { Header } from '@/components/Header';
 import { DocumentCard } from '@/components/DocumentCard';
 import { EmptyState } from '@/components/EmptyState';
+import { SelectionBar } from '@/components/SelectionBar';
 import { Input } from '@/components/ui/input';
 import { getAllDocuments, Document } from '@/lib/storage';
+import { useDocumentSelection } from '@/hooks/use-document-selection';
 
 export function SearchPage() {
   const navigate = useNavigate();
   const [query, setQuery] = useState('');
   const [documents, setDocuments] = useState<Document[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const selection = useDocumentSelection();
 
   useEffect(() => {
     loadDocuments();
@@ -91,9 +94,19 @@ export function SearchPage() {
             animate={{ opacity: 1 }}
             className="space-y-3"
           >
-            <p className="text-sm text-muted-foreground mb-4">
-              {filteredDocuments.length} résultat{filteredDocuments.length !== 1 ? 's' : ''}
-            </p>
+            <div className="flex items-center justify-between mb-4">
+              <p className="text-sm text-muted-foreground">
+                {filteredDocuments.length} résultat{filteredDocuments.length !== 1 ? 's' : ''}
+              </p>
+              {filteredDocuments.length > 1 && !selection.isSelecting && (
+                <button
+                  onClick={selection.start}
+                  className="text-sm text-primary font-medium"
+                >
+                  Sélectionner
+                </button>
+              )}
+            </div>
             {filteredDocuments.map((doc, index) => (
               <DocumentCard
                 key={doc.id}
@@ -101,6 +114,8 @@ export function SearchPage() {
                 onView={handleView}
                 onShare={handleShare}
                 onDelete={handleDelete}
+                onSelect={selection.isSelecting ? selection.toggle : undefined}
+                selected={selection.selectedIds.includes(doc.id)}
                 delay={index}
               />
             ))}
@@ -112,6 +127,10 @@ export function SearchPage() {
           />
         )}
       </div>
+
+      {selection.isSelecting && (
+        <SelectionBar selectedIds={selection.selectedIds} onCancel={selection.cancel} />
+      )}
     </Layout>
   );
 }
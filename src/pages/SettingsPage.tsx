@@ -15,13 +15,24 @@ import {
   ScanFace,
   QrCode,
   Scale,
-  FileText
+  FileText,
+  KeyRound,
+  Archive,
+  ArchiveRestore,
+  CalendarClock,
+  FolderOpen,
+  Users,
+  History
 } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
 import { Layout } from '@/components/Layout';
 import { Header } from '@/components/Header';
+import { BackupExportDialog } from '@/components/BackupExportDialog';
+import { AutoBackupDialog } from '@/components/AutoBackupDialog';
 import { Switch } from '@/components/ui/switch';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -51,25 +62,86 @@ import {
 import { useTheme } from '@/contexts/ThemeContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { wipeAllData, getStorageStats, getSetting, saveSetting } from '@/lib/storage';
+import { getKeyRotationReport, KeyRotationReport } from '@/lib/keyRotation';
+import {
+  getAutoBackupConfig,
+  getLastBackupAt,
+  getBackupFolderName,
+  hasBackupFolderAccess,
+  requestBackupFolderAccess,
+  disableAutoBackup,
+  isBackupStale,
+  isFolderBackupSupported,
+  AutoBackupConfig
+} from '@/lib/autoBackup';
+import {
+  getExpiryReminderConfig,
+  saveExpiryReminderConfig,
+  requestReminderPermission,
+  runExpiryReminders,
+  isReminderSupported,
+  EXPIRING_CATEGORIES,
+  ExpiryReminderConfig
+} from '@/lib/expiry';
+import { getCategoryById } from '@/lib/categories';
 import { toast } from '@/hooks/use-toast';
+import { validatePassword, hasSpecialChar } from '@/lib/password';
 import { cn } from '@/lib/utils';
 
 export function SettingsPage() {
+  const navigate = useNavigate();
   const { theme, toggleTheme } = useTheme();
-  const { logout, isBiometricsAvailable, biometryType, isBiometricsEnabled, enableBiometrics, disableBiometrics } = useAuth();
-  const [notifications, setNotifications] = useState(true);
+  const {
+    logout,
+    isBiometricsAvailable,
+    biometryType,
+    isBiometricsEnabled,
+    enableBiometrics,
+    disableBiometrics,
+    changePassword,
+    rotateMasterKey,
+    keyRotationProgress,
+    getSecretQuestion
+  } = useAuth();
+  const [expiryReminders, setExpiryReminders] = useState<ExpiryReminderConfig | null>(null);
   const [stats, setStats] = useState({ count: 0, totalSize: 0 });
   const [showBiometricDialog, setShowBiometricDialog] = useState(false);
   const [biometricPassword, setBiometricPassword] = useState('');
   const [isEnablingBiometrics, setIsEnablingBiometrics] = useState(false);
+  const [showPasswordDialog, setShowPasswordDialog] = useState(false);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmNewPassword, setConfirmNewPassword] = useState('');
+  const [passwordErrors, setPasswordErrors] = useState<string[]>([]);
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
+  const [showRotationDialog, setShowRotationDialog] = useState(false);
+  const [rotationPassword, setRotationPassword] = useState('');
+  const [rotationAnswer, setRotationAnswer] = useState('');
+  const [secretQuestion, setSecretQuestion] = useState('');
+  const [isStartingRotation, setIsStartingRotation] = useState(false);
+  const [rotationReport, setRotationReport] = useState<KeyRotationReport | null>(null);
   const [qrDuration, setQrDuration] = useState('60');
   const [showLegalDialog, setShowLegalDialog] = useState(false);
+  const [showBackupDialog, setShowBackupDialog] = useState(false);
+  const [showAutoBackupDialog, setShowAutoBackupDialog] = useState(false);
+  const [autoBackup, setAutoBackup] = useState<AutoBackupConfig | null>(null);
+  const [backupFolderName, setBackupFolderName] = useState<string | null>(null);
+  const [hasFolderAccess, setHasFolderAccess] = useState(true);
+  const [lastBackupAt, setLastBackupAt] = useState<Date | null>(null);
 
   useEffect(() => {
     loadStats();
     loadSettings();
+    loadBackupStatus();
   }, []);
 
+  // Refresh the integrity report once a rotation finishes
+  useEffect(() => {
+    if (!keyRotationProgress) {
+      getKeyRotationReport().then(setRotationReport);
+    }
+  }, [keyRotationProgress]);
+
   const loadStats = async () => {
     const data = await getStorageStats();
     setStats(data);
@@ -80,6 +152,53 @@ export function SettingsPage() {
     if (savedQrDuration) {
       setQrDuration(savedQrDuration);
     }
+    setExpiryReminders(await getExpiryReminderConfig());
+  };
+
+  const loadBackupStatus = async () => {
+    const config = await getAutoBackupConfig();
+    setAutoBackup(config);
+    setLastBackupAt(await getLastBackupAt());
+    if (config) {
+      setBackupFolderName(await getBackupFolderName());
+      setHasFolderAccess(await hasBackupFolderAccess());
+    }
+  };
+
+  const handleAutoBackupToggle = async (enabled: boolean) => {
+    if (enabled) {
+      setShowAutoBackupDialog(true);
+      return;
+    }
+    await disableAutoBackup();
+    setAutoBackup(null);
+    toast({
+      title: 'Sauvegarde automatique désactivée',
+      description: 'Les sauvegardes déjà écrites sont conservées.'
+    });
+  };
+
+  const handleGrantFolderAccess = async () => {
+    const granted = await requestBackupFolderAccess();
+    setHasFolderAccess(granted);
+    if (!granted) {
+      toast({
+        title: 'Accès refusé',
+        description: 'Les sauvegardes automatiques restent suspendues.',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const getFrequencyLabel = (config: AutoBackupConfig) => {
+    switch (config.frequency) {
+      case 'daily':
+        return 'Tous les jours';
+      case 'weekly':
+        return 'Toutes les semaines';
+      case 'documents':
+        return `Tous les ${config.documentThreshold} nouveaux documents`;
+    }
   };
 
   const handleQrDurationChange = async (value: string) => {
@@ -91,6 +210,39 @@ export function SettingsPage() {
     });
   };
 
+  const handleExpiryRemindersToggle = async (enabled: boolean) => {
+    if (!expiryReminders) return;
+
+    if (enabled && !await requestReminderPermission()) {
+      toast({
+        title: 'Notifications refusées',
+        description: 'Autorisez les notifications de DocSafe dans les réglages de votre appareil ou de votre navigateur.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    const config = { ...expiryReminders, enabled };
+    await saveExpiryReminderConfig(config);
+    setExpiryReminders(config);
+    // Also cancels the reminders scheduled on the device when turned off
+    runExpiryReminders().catch(error => console.error('Expiry reminder error:', error));
+  };
+
+  const handleLeadTimeChange = async (categoryId: string, months: string) => {
+    if (!expiryReminders) return;
+
+    const config = {
+      ...expiryReminders,
+      leadMonths: { ...expiryReminders.leadMonths, [categoryId]: parseInt(months) }
+    };
+    await saveExpiryReminderConfig(config);
+    setExpiryReminders(config);
+    if (config.enabled) {
+      runExpiryReminders().catch(error => console.error('Expiry reminder error:', error));
+    }
+  };
+
   const getDurationLabel = (seconds: string) => {
     const s = parseInt(seconds);
     if (s < 60) return `${s} secondes`;
@@ -149,7 +301,75 @@ export function SettingsPage() {
     } else {
       toast({
         title: 'Erreur',
-        description: 'Mot de passe incorrect.',
+        description: 'Mot de passe incorrect ou appareil non compatible avec le déverrouillage biométrique sécurisé.',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const closePasswordDialog = () => {
+    setShowPasswordDialog(false);
+    setCurrentPassword('');
+    setNewPassword('');
+    setConfirmNewPassword('');
+    setPasswordErrors([]);
+  };
+
+  const handleChangePassword = async () => {
+    const validation = validatePassword(newPassword);
+    if (!validation.valid) {
+      setPasswordErrors(validation.errors);
+      return;
+    }
+    if (newPassword !== confirmNewPassword) {
+      setPasswordErrors(['Les mots de passe ne correspondent pas']);
+      return;
+    }
+
+    setIsChangingPassword(true);
+    const success = await changePassword(currentPassword, newPassword);
+    setIsChangingPassword(false);
+
+    if (success) {
+      closePasswordDialog();
+      toast({
+        title: 'Mot de passe modifié',
+        description: 'Utilisez votre nouveau mot de passe pour déverrouiller DocSafe.'
+      });
+    } else {
+      setPasswordErrors(['Mot de passe actuel incorrect']);
+      setCurrentPassword('');
+    }
+  };
+
+  const openRotationDialog = async () => {
+    if (keyRotationProgress) return;
+    const question = await getSecretQuestion();
+    setSecretQuestion(question || '');
+    setShowRotationDialog(true);
+  };
+
+  const closeRotationDialog = () => {
+    setShowRotationDialog(false);
+    setRotationPassword('');
+    setRotationAnswer('');
+  };
+
+  const handleStartRotation = async () => {
+    setIsStartingRotation(true);
+    const success = await rotateMasterKey(rotationPassword, rotationAnswer);
+    setIsStartingRotation(false);
+
+    if (success) {
+      closeRotationDialog();
+      toast({
+        title: 'Renouvellement lancé',
+        description: 'Vos documents sont re-chiffrés en arrière-plan. Vous pouvez continuer à utiliser l\'application.'
+      });
+    } else {
+      toast({
+        title: 'Erreur',
+        description: 'Mot de passe ou réponse secrète incorrect.',
         variant: 'destructive'
       });
     }
@@ -244,11 +464,53 @@ export function SettingsPage() {
           <div className="bg-card rounded-2xl border border-border overflow-hidden">
             <SettingItem
               icon={Lock}
-              label="Modifier le code PIN"
+              label="Modifier le mot de passe"
               description="Changer votre code d'accès"
-              onClick={() => toast({ title: 'Bientôt disponible' })}
+              onClick={() => setShowPasswordDialog(true)}
             />
             <div className="h-px bg-border mx-4" />
+            <SettingItem
+              icon={KeyRound}
+              label="Renouveler la clé de chiffrement"
+              description={keyRotationProgress
+                ? `Re-chiffrement en cours… ${keyRotationProgress.done}/${keyRotationProgress.total}`
+                : 'Re-chiffrer tous les documents avec une nouvelle clé'}
+              onClick={keyRotationProgress || rotationReport?.pending ? undefined : openRotationDialog}
+            />
+            {keyRotationProgress && (
+              <div className="px-4 pb-4">
+                <Progress
+                  value={keyRotationProgress.total > 0 ? (keyRotationProgress.done / keyRotationProgress.total) * 100 : 0}
+                  className="h-2"
+                />
+              </div>
+            )}
+            {!keyRotationProgress && rotationReport && (
+              <div className="px-4 pb-4">
+                <div className={cn(
+                  "p-3 rounded-xl text-xs",
+                  rotationReport.failed.length > 0 ? "bg-destructive/10 text-destructive" : "bg-success/10 text-success"
+                )}>
+                  <p className="font-medium">
+                    {rotationReport.pending ? 'Renouvellement inachevé le' : 'Dernier renouvellement le'}{' '}
+                    {new Date(rotationReport.completedAt).toLocaleDateString('fr-FR')}
+                  </p>
+                  <p>
+                    {rotationReport.verified}/{rotationReport.total} document{rotationReport.total !== 1 ? 's' : ''} vérifié{rotationReport.total !== 1 ? 's' : ''}
+                  </p>
+                  {rotationReport.failed.map(doc => (
+                    <p key={doc.id}>• {doc.name} : illisible</p>
+                  ))}
+                  {rotationReport.pending && (
+                    <p className="mt-1">
+                      L'ancienne clé est conservée pour que ces documents restent lisibles. Nouvelle tentative au prochain
+                      déverrouillage.
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+            <div className="h-px bg-border mx-4" />
             <SettingItem
               icon={Shield}
               label="Chiffrement AES-256"
@@ -278,6 +540,142 @@ export function SettingsPage() {
           </div>
         </motion.section>
 
+        {/* Change Password Dialog */}
+        <Dialog open={showPasswordDialog} onOpenChange={(open) => !open && closePasswordDialog()}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <Lock className="w-5 h-5 text-primary" />
+                Modifier le mot de passe
+              </DialogTitle>
+              <DialogDescription>
+                Vos documents restent chiffrés avec la même clé, seul le mot de passe change.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="py-4 space-y-3">
+              <Input
+                type="password"
+                placeholder="Mot de passe actuel"
+                value={currentPassword}
+                onChange={(e) => {
+                  setCurrentPassword(e.target.value);
+                  setPasswordErrors([]);
+                }}
+                className="h-12"
+              />
+              <Input
+                type="password"
+                placeholder="Nouveau mot de passe"
+                value={newPassword}
+                onChange={(e) => {
+                  setNewPassword(e.target.value);
+                  setPasswordErrors([]);
+                }}
+                className="h-12"
+              />
+              <Input
+                type="password"
+                placeholder="Confirmez le nouveau mot de passe"
+                value={confirmNewPassword}
+                onChange={(e) => {
+                  setConfirmNewPassword(e.target.value);
+                  setPasswordErrors([]);
+                }}
+                className="h-12"
+              />
+              {passwordErrors.length > 0 ? (
+                <div className="text-sm space-y-1">
+                  {passwordErrors.map((err, i) => (
+                    <p key={i} className="text-destructive flex items-center gap-2">
+                      <span className="w-1.5 h-1.5 rounded-full bg-destructive" />
+                      {err}
+                    </p>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-xs text-muted-foreground space-y-1">
+                  <p className={cn(newPassword.length >= 8 && "text-green-500")}>
+                    • Au moins 8 caractères
+                  </p>
+                  <p className={cn(/[A-Z]/.test(newPassword) && "text-green-500")}>
+                    • Au moins une majuscule
+                  </p>
+                  <p className={cn(hasSpecialChar(newPassword) && "text-green-500")}>
+                    • Au moins un caractère spécial
+                  </p>
+                </div>
+              )}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={closePasswordDialog}>
+                Annuler
+              </Button>
+              <Button
+                onClick={handleChangePassword}
+                disabled={!currentPassword || !newPassword || !confirmNewPassword || isChangingPassword}
+                className="gradient-primary"
+              >
+                {isChangingPassword ? (
+                  <div className="w-4 h-4 border-2 border-primary-foreground border-t-transparent rounded-full animate-spin" />
+                ) : (
+                  'Modifier'
+                )}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* Key Rotation Dialog */}
+        <Dialog open={showRotationDialog} onOpenChange={(open) => !open && closeRotationDialog()}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <KeyRound className="w-5 h-5 text-primary" />
+                Renouveler la clé de chiffrement
+              </DialogTitle>
+              <DialogDescription>
+                Une nouvelle clé sera générée et tous vos documents seront re-chiffrés en arrière-plan.
+                Confirmez avec votre mot de passe et votre réponse secrète.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="py-4 space-y-3">
+              <Input
+                type="password"
+                placeholder="Votre mot de passe"
+                value={rotationPassword}
+                onChange={(e) => setRotationPassword(e.target.value)}
+                className="h-12"
+              />
+              {secretQuestion && (
+                <p className="text-sm text-muted-foreground">{secretQuestion}</p>
+              )}
+              <Input
+                type="text"
+                placeholder="Votre réponse secrète"
+                value={rotationAnswer}
+                onChange={(e) => setRotationAnswer(e.target.value)}
+                className="h-12"
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={closeRotationDialog}>
+                Annuler
+              </Button>
+              <Button
+                onClick={handleStartRotation}
+                disabled={!rotationPassword || !rotationAnswer.trim() || isStartingRotation}
+                className="gradient-primary"
+              >
+                {isStartingRotation ? (
+                  <div className="w-4 h-4 border-2 border-primary-foreground border-t-transparent rounded-full animate-spin" />
+                ) : (
+                  'Renouveler'
+                )}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
         {/* Biometric Dialog */}
         <Dialog open={showBiometricDialog} onOpenChange={setShowBiometricDialog}>
           <DialogContent>
@@ -328,6 +726,86 @@ export function SettingsPage() {
           </DialogContent>
         </Dialog>
 
+        {/* Backup Section */}
+        <motion.section
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.15 }}
+        >
+          <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider mb-3 px-4">
+            Sauvegarde
+          </h2>
+          <div className="bg-card rounded-2xl border border-border overflow-hidden">
+            <SettingItem
+              icon={Archive}
+              label="Exporter une sauvegarde"
+              description="Fichier .docsafe chiffré avec une phrase de passe"
+              onClick={() => setShowBackupDialog(true)}
+            />
+            <div className="h-px bg-border mx-4" />
+            <SettingItem
+              icon={CalendarClock}
+              label="Sauvegarde automatique"
+              description={!isFolderBackupSupported()
+                ? 'Non disponible dans ce navigateur'
+                : autoBackup
+                  ? `${getFrequencyLabel(autoBackup)} • ${backupFolderName ?? 'dossier à choisir'}`
+                  : 'Désactivée'}
+              action={
+                <Switch
+                  checked={!!autoBackup}
+                  disabled={!isFolderBackupSupported()}
+                  onCheckedChange={handleAutoBackupToggle}
+                />
+              }
+            />
+            {autoBackup && !hasFolderAccess && (
+              <SettingItem
+                icon={FolderOpen}
+                label="Autoriser l'accès au dossier"
+                description="Le navigateur demande à nouveau l'autorisation d'écrire les sauvegardes"
+                onClick={handleGrantFolderAccess}
+              />
+            )}
+            <div className="px-4 pb-4">
+              <div className={cn(
+                "p-3 rounded-xl text-xs flex items-start gap-2",
+                isBackupStale(lastBackupAt, autoBackup) ? "bg-warning/10 text-warning" : "bg-secondary text-muted-foreground"
+              )}>
+                {isBackupStale(lastBackupAt, autoBackup) && <AlertTriangle className="w-4 h-4 shrink-0" />}
+                <div>
+                  <p className="font-medium">
+                    {lastBackupAt
+                      ? `Dernière sauvegarde le ${lastBackupAt.toLocaleDateString('fr-FR')} à ${lastBackupAt.toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })}`
+                      : 'Aucune sauvegarde'}
+                  </p>
+                  {isBackupStale(lastBackupAt, autoBackup) && (
+                    <p>Pensez à sauvegarder votre coffre : en cas de perte de l'appareil, vos documents seraient perdus.</p>
+                  )}
+                </div>
+              </div>
+            </div>
+            <div className="h-px bg-border mx-4" />
+            <SettingItem
+              icon={ArchiveRestore}
+              label="Restaurer une sauvegarde"
+              description="Remplacer ou compléter le coffre"
+              onClick={() => navigate('/restore')}
+            />
+          </div>
+        </motion.section>
+
+        <BackupExportDialog
+          open={showBackupDialog}
+          onOpenChange={setShowBackupDialog}
+          onExported={loadBackupStatus}
+        />
+        <AutoBackupDialog
+          open={showAutoBackupDialog}
+          onOpenChange={setShowAutoBackupDialog}
+          onEnabled={loadBackupStatus}
+        />
+
         {/* Appearance Section */}
         <motion.section
           initial={{ opacity: 0, y: 20 }}
@@ -381,6 +859,20 @@ export function SettingsPage() {
                 </Select>
               }
             />
+            <div className="h-px bg-border mx-4" />
+            <SettingItem
+              icon={Users}
+              label="Contacts"
+              description="Personnes pour qui chiffrer vos documents"
+              onClick={() => navigate('/contacts')}
+            />
+            <div className="h-px bg-border mx-4" />
+            <SettingItem
+              icon={History}
+              label="Historique des partages"
+              description="Ce que vous avez transmis, et à qui"
+              onClick={() => navigate('/share-history')}
+            />
           </div>
         </motion.section>
 
@@ -397,14 +889,48 @@ export function SettingsPage() {
             <SettingItem
               icon={Bell}
               label="Notifications locales"
-              description="Rappels de sauvegarde"
+              description={isReminderSupported()
+                ? 'Rappels avant l\'expiration de vos pièces d\'identité'
+                : 'Non disponibles sur cet appareil'}
               action={
                 <Switch
-                  checked={notifications}
-                  onCheckedChange={setNotifications}
+                  checked={!!expiryReminders?.enabled}
+                  onCheckedChange={handleExpiryRemindersToggle}
+                  disabled={!expiryReminders || !isReminderSupported()}
                 />
               }
             />
+            {/* Also decides what the home page lists as expiring soon */}
+            {expiryReminders && EXPIRING_CATEGORIES.map(categoryId => {
+              const category = getCategoryById(categoryId);
+              if (!category) return null;
+              return (
+                <React.Fragment key={categoryId}>
+                  <div className="h-px bg-border mx-4" />
+                  <SettingItem
+                    icon={category.icon}
+                    label={category.name}
+                    description="Prévenir avant l'expiration"
+                    action={
+                      <Select
+                        value={String(expiryReminders.leadMonths[categoryId])}
+                        onValueChange={(value) => handleLeadTimeChange(categoryId, value)}
+                      >
+                        <SelectTrigger className="w-28 h-8 text-sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="1">1 mois</SelectItem>
+                          <SelectItem value="3">3 mois</SelectItem>
+                          <SelectItem value="6">6 mois</SelectItem>
+                          <SelectItem value="12">1 an</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    }
+                  />
+                </React.Fragment>
+              );
+            })}
           </div>
         </motion.section>
 
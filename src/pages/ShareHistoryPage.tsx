@@ -0,0 +1,178 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { History, Search as SearchIcon, Trash2, X } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Layout } from '@/components/Layout';
+import { Header } from '@/components/Header';
+import { EmptyState } from '@/components/EmptyState';
+import { ShareLogItem } from '@/components/ShareLogItem';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { getShareLog, getAllDocuments, clearShareLog, ShareLogEntry } from '@/lib/storage';
+import { logRecipients } from '@/lib/shareLog';
+import { cn } from '@/lib/utils';
+
+// Every disclosure across the vault, to answer "what did I give to whom?"
+export function ShareHistoryPage() {
+  const navigate = useNavigate();
+  const [entries, setEntries] = useState<ShareLogEntry[]>([]);
+  const [existingIds, setExistingIds] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [showClearDialog, setShowClearDialog] = useState(false);
+
+  useEffect(() => {
+    loadHistory();
+  }, []);
+
+  const loadHistory = async () => {
+    try {
+      const [log, documents] = await Promise.all([getShareLog(), getAllDocuments()]);
+      setEntries(log);
+      setExistingIds(new Set(documents.map(doc => doc.id)));
+    } catch (error) {
+      console.error('Error loading share history:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const recipients = useMemo(() => logRecipients(entries), [entries]);
+
+  const filteredEntries = useMemo(() => {
+    const lowerQuery = query.trim().toLowerCase();
+    if (!lowerQuery) return entries;
+
+    return entries.filter(entry =>
+      entry.recipient?.toLowerCase().includes(lowerQuery) ||
+      entry.documentName.toLowerCase().includes(lowerQuery) ||
+      entry.watermark?.toLowerCase().includes(lowerQuery) ||
+      entry.note?.toLowerCase().includes(lowerQuery)
+    );
+  }, [query, entries]);
+
+  const documentCount = new Set(filteredEntries.map(entry => entry.documentId)).size;
+
+  const handleClear = async () => {
+    await clearShareLog();
+    setShowClearDialog(false);
+    setEntries([]);
+  };
+
+  return (
+    <Layout>
+      <Header
+        title="Historique des partages"
+        showBack
+        action={entries.length > 0 ? (
+          <button
+            onClick={() => setShowClearDialog(true)}
+            className="p-2 rounded-lg hover:bg-destructive/10 transition-colors"
+          >
+            <Trash2 className="w-5 h-5 text-destructive" />
+          </button>
+        ) : undefined}
+      />
+
+      <div className="px-4 py-6 space-y-6">
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map(i => (
+              <div key={i} className="h-20 bg-secondary rounded-xl animate-pulse" />
+            ))}
+          </div>
+        ) : entries.length === 0 ? (
+          <EmptyState
+            icon={<History className="w-10 h-10 text-muted-foreground" />}
+            title="Aucun partage"
+            description="Les documents que vous partagez, affichez en QR code ou téléchargez apparaîtront ici."
+          />
+        ) : (
+          <>
+            <div className="relative">
+              <SearchIcon className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+              <Input
+                type="text"
+                placeholder="Destinataire ou document..."
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                className="pl-12 pr-10 h-12 bg-secondary border-0 rounded-xl text-base"
+              />
+              {query && (
+                <button
+                  onClick={() => setQuery('')}
+                  className="absolute right-4 top-1/2 -translate-y-1/2 p-1 rounded-full hover:bg-muted transition-colors"
+                >
+                  <X className="w-4 h-4 text-muted-foreground" />
+                </button>
+              )}
+            </div>
+
+            {recipients.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {recipients.map(recipient => (
+                  <button
+                    key={recipient}
+                    onClick={() => setQuery(query === recipient ? '' : recipient)}
+                    className={cn(
+                      "px-3 py-1 rounded-full text-sm border transition-colors",
+                      query === recipient
+                        ? "border-primary bg-primary/10 text-primary"
+                        : "border-border bg-card text-foreground hover:border-primary/30"
+                    )}
+                  >
+                    {recipient}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="space-y-2">
+              <p className="text-sm text-muted-foreground mb-4">
+                {filteredEntries.length} partage{filteredEntries.length !== 1 ? 's' : ''} • {documentCount} document{documentCount !== 1 ? 's' : ''}
+              </p>
+              {filteredEntries.map(entry => (
+                <ShareLogItem
+                  key={entry.id}
+                  entry={entry}
+                  showDocument
+                  onClick={existingIds.has(entry.documentId) ? () => navigate(`/document/${entry.documentId}`) : undefined}
+                />
+              ))}
+            </motion.div>
+          </>
+        )}
+      </div>
+
+      <AlertDialog open={showClearDialog} onOpenChange={setShowClearDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Effacer l'historique ?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Vous ne pourrez plus retrouver à qui vous avez transmis vos documents. Les documents eux-mêmes ne sont pas
+              supprimés.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Annuler</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleClear}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Effacer
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Layout>
+  );
+}
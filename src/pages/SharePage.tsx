@@ -1,70 +1,53 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { 
-  Mail, 
-  MessageCircle, 
-  Send, 
-  MessageSquare, 
-  Share2,
-  Shield,
-  AlertCircle
-} from 'lucide-react';
+import { Smartphone, UserCheck, Shield, AlertCircle, EyeOff, ChevronRight } from 'lucide-react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Layout } from '@/components/Layout';
 import { Header } from '@/components/Header';
 import { EmptyState } from '@/components/EmptyState';
-import { getDocument, Document } from '@/lib/storage';
+import { ContactPickerDialog } from '@/components/ContactPickerDialog';
+import { RecipientPanel } from '@/components/RecipientPanel';
+import { getDocument, Document, Contact } from '@/lib/storage';
 import { getCategoryById } from '@/lib/categories';
 import { useAuth } from '@/contexts/AuthContext';
-import { decryptData } from '@/lib/crypto';
+import { decryptDocumentData } from '@/lib/documentCrypto';
+import { shareFile } from '@/lib/share';
+import { channelShareOptions, ShareOption } from '@/lib/shareOptions';
+import { getIdentity } from '@/lib/identity';
+import { sealDocument, SEALED_EXTENSION, SEALED_MIME_TYPE } from '@/lib/sealed';
+import { base64UrlToUint8Array } from '@/lib/base64';
+import { watermarkCopy, watermarkText, rememberWatermark, WatermarkChoice } from '@/lib/watermark';
+import { recordShare } from '@/lib/shareLog';
 import { toast } from '@/hooks/use-toast';
 
-const shareOptions = [
+const shareOptions: ShareOption[] = [
   { 
-    id: 'native', 
-    name: 'Partager', 
-    icon: Share2, 
-    color: 'hsl(168 76% 36%)',
-    description: 'Utiliser le partage natif'
+    id: 'contact', 
+    name: 'Pour un contact', 
+    icon: UserCheck, 
+    color: 'hsl(190 80% 40%)',
+    description: 'Chiffré, lisible uniquement par son DocSafe'
   },
+  ...channelShareOptions,
   { 
-    id: 'email', 
-    name: 'Email', 
-    icon: Mail, 
-    color: 'hsl(220 70% 50%)',
-    description: 'Envoyer par email'
-  },
-  { 
-    id: 'whatsapp', 
-    name: 'WhatsApp', 
-    icon: MessageCircle, 
-    color: 'hsl(142 70% 45%)',
-    description: 'Partager sur WhatsApp'
-  },
-  { 
-    id: 'telegram', 
-    name: 'Telegram', 
-    icon: Send, 
-    color: 'hsl(200 80% 50%)',
-    description: 'Partager sur Telegram'
-  },
-  { 
-    id: 'sms', 
-    name: 'SMS', 
-    icon: MessageSquare, 
-    color: 'hsl(35 90% 50%)',
-    description: 'Envoyer par SMS'
+    id: 'nearby', 
+    name: 'À proximité', 
+    icon: Smartphone, 
+    color: 'hsl(262 70% 55%)',
+    description: 'Envoyer vers un appareil dans la même pièce'
   },
 ];
 
 export function SharePage() {
   const { documentId } = useParams<{ documentId: string }>();
   const navigate = useNavigate();
-  const { encryptionKey } = useAuth();
+  const { encryptionKey, getDocumentKey } = useAuth();
   
   const [document, setDocument] = useState<Document | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isSharing, setIsSharing] = useState(false);
+  const [showContactPicker, setShowContactPicker] = useState(false);
+  const [watermark, setWatermark] = useState<WatermarkChoice>({ enabled: false, recipient: '', purpose: '' });
 
   useEffect(() => {
     if (documentId) {
@@ -85,6 +68,21 @@ export function SharePage() {
     }
   };
 
+  // The decrypted file to send, stamped when a watermark is asked for
+  const prepareCopy = async (doc: Document, masterKey: CryptoKey) => {
+    const copy = {
+      type: doc.type,
+      mimeType: doc.mimeType,
+      data: await decryptDocumentData(doc, getDocumentKey(doc))
+    };
+    if (!watermark.enabled) return { copy, stamp: null };
+
+    const stamp = watermarkText(watermark.recipient, watermark.purpose);
+    const stamped = await watermarkCopy(copy, stamp);
+    await rememberWatermark(masterKey, watermark.recipient, watermark.purpose);
+    return { copy: stamped, stamp };
+  };
+
   const handleShare = async (method: string) => {
     if (!document || !encryptionKey) return;
 
@@ -92,37 +90,28 @@ export function SharePage() {
 
     try {
       // Decrypt the file for sharing
-      const encryptedBytes = Uint8Array.from(atob(document.encryptedData), c => c.charCodeAt(0));
-      const iv = Uint8Array.from(atob(document.iv), c => c.charCodeAt(0));
-      const decrypted = await decryptData(encryptedBytes.buffer, encryptionKey, iv);
-      
-      const blob = new Blob([decrypted], { type: document.mimeType });
-      const file = new File([blob], document.name + (document.type === 'pdf' ? '.pdf' : '.jpg'), {
-        type: document.mimeType
+      const { copy, stamp } = await prepareCopy(document, encryptionKey);
+      const file = new File([copy.data], document.name + (copy.type === 'pdf' ? '.pdf' : '.jpg'), {
+        type: copy.mimeType
       });
 
-      if (method === 'native' && navigator.share) {
-        await navigator.share({
-          files: [file],
-          title: document.name,
-          text: `Document partagé depuis DocWallet: ${document.name}`
-        });
-        
+      const result = await shareFile(file, {
+        title: document.name,
+        text: `Document partagé depuis DocWallet: ${document.name}`
+      }, method === 'native');
+      // A file that was only downloaded hasn't reached the chosen app
+      await recordShare([document], {
+        method: result === 'downloaded' ? 'download' : method,
+        recipient: watermark.recipient,
+        watermark: stamp
+      });
+
+      if (result === 'shared') {
         toast({
           title: 'Partage réussi',
           description: 'Votre document a été partagé avec succès.'
         });
       } else {
-        // Fallback: download the file
-        const url = URL.createObjectURL(blob);
-        const a = window.document.createElement('a');
-        a.href = url;
-        a.download = document.name + (document.type === 'pdf' ? '.pdf' : '.jpg');
-        window.document.body.appendChild(a);
-        a.click();
-        window.document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-
         toast({
           title: 'Document prêt',
           description: 'Le document a été téléchargé. Vous pouvez maintenant le partager manuellement.'
@@ -143,6 +132,77 @@ export function SharePage() {
     }
   };
 
+  // The file can travel by any channel: only the contact's vault can open it
+  const handleShareWithContact = async (contact: Contact) => {
+    if (!document || !encryptionKey) return;
+
+    setShowContactPicker(false);
+    setIsSharing(true);
+
+    try {
+      const { copy, stamp } = await prepareCopy(document, encryptionKey);
+      const sealed = await sealDocument(
+        { name: document.name, ...copy },
+        await getIdentity(encryptionKey),
+        base64UrlToUint8Array(contact.publicKey)
+      );
+      const file = new File([sealed], document.name + SEALED_EXTENSION, { type: SEALED_MIME_TYPE });
+
+      const result = await shareFile(file, {
+        title: document.name,
+        text: `Document chiffré pour ${contact.name}. Ouvrez-le dans DocSafe : Ajouter › Recevoir.`
+      });
+      await recordShare([document], { method: 'contact', recipient: contact.name, watermark: stamp });
+
+      toast({
+        title: result === 'shared' ? 'Partage réussi' : 'Fichier prêt',
+        description: result === 'shared'
+          ? `Seul ${contact.name} pourra ouvrir ce document.`
+          : `Le fichier chiffré a été téléchargé. Envoyez-le à ${contact.name} par le moyen de votre choix.`
+      });
+    } catch (error) {
+      console.error('Error sharing with contact:', error);
+
+      if ((error as Error).name !== 'AbortError') {
+        toast({
+          title: 'Erreur de partage',
+          description: 'Impossible de chiffrer ce document pour ce contact.',
+          variant: 'destructive'
+        });
+      }
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const handleOption = (method: string) => {
+    if (!document) return;
+    if (watermark.enabled && !watermark.recipient.trim()) {
+      toast({
+        title: 'Filigrane incomplet',
+        description: 'Indiquez à qui la copie est destinée.',
+        variant: 'destructive'
+      });
+      return;
+    }
+    if (watermark.enabled && method === 'nearby') {
+      toast({
+        title: 'Filigrane indisponible',
+        description: 'Le transfert à proximité envoie le document d\'origine. Désactivez le filigrane ou choisissez une autre méthode.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    if (method === 'contact') {
+      setShowContactPicker(true);
+    } else if (method === 'nearby') {
+      navigate(`/nearby/${document.id}`, { state: { recipient: watermark.recipient } });
+    } else {
+      handleShare(method);
+    }
+  };
+
   if (isLoading) {
     return (
       <Layout>
@@ -209,6 +269,23 @@ export function SharePage() {
           </div>
         </motion.div>
 
+        <RecipientPanel value={watermark} onChange={setWatermark} disabled={isSharing} />
+
+        <button
+          onClick={() => navigate(`/redact/${document.id}`, { state: { recipient: watermark.recipient } })}
+          disabled={isSharing}
+          className="w-full flex items-center gap-3 p-4 bg-card rounded-xl border border-border hover:border-primary/30 transition-all text-left disabled:opacity-50"
+        >
+          <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center shrink-0">
+            <EyeOff className="w-5 h-5 text-primary" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <p className="font-medium text-foreground">Masquer des zones</p>
+            <p className="text-sm text-muted-foreground">Cacher un numéro, une photo ou une signature avant l'envoi</p>
+          </div>
+          <ChevronRight className="w-5 h-5 text-muted-foreground" />
+        </button>
+
         {/* Share options */}
         <div className="space-y-3">
           <h2 className="text-lg font-semibold text-foreground">Choisir une méthode</h2>
@@ -221,7 +298,7 @@ export function SharePage() {
                 initial={{ opacity: 0, x: -20 }}
                 animate={{ opacity: 1, x: 0 }}
                 transition={{ delay: 0.1 + index * 0.05 }}
-                onClick={() => handleShare(option.id)}
+                onClick={() => handleOption(option.id)}
                 disabled={isSharing}
                 className="w-full flex items-center gap-4 p-4 bg-card rounded-xl border border-border hover:border-primary/30 transition-all disabled:opacity-50"
               >
@@ -247,6 +324,12 @@ export function SharePage() {
             Une fois partagé, le destinataire aura accès au document en clair. Partagez uniquement avec des personnes de confiance.
           </p>
         </div>
+
+        <ContactPickerDialog
+          open={showContactPicker}
+          onOpenChange={setShowContactPicker}
+          onSelect={handleShareWithContact}
+        />
       </div>
     </Layout>
   );